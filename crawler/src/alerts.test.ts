@@ -0,0 +1,100 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkAlerts, evaluateRules, parseAlertConfig, readAlertFeed, updateAlertFeed, type AlertRule } from './alerts';
+import { makePoint } from './testing';
+
+const point = (Date: string, Variety: string, Avg: number, Volume: number) => makePoint({ Date, Variety, Avg, Volume });
+
+// Two weeks of 朝天椒: 100 the first week, 130 the second
+const data = [
+    point('114/11/03', '朝天椒', 100, 10),
+    point('114/11/07', '朝天椒', 100, 30),
+    point('114/11/10', '朝天椒', 120, 10),
+    point('114/11/14', '朝天椒', 140, 10),
+    point('114/11/14', '紅小', 40, 500)
+];
+
+const rise: AlertRule = { id: 'rise', market: '一市', product: '辣椒', variety: '朝天椒', metric: 'change', operator: '>', value: 20, window: 7 };
+const cheap: AlertRule = { id: 'cheap', market: '一市', product: '辣椒', variety: '紅小', metric: 'Avg', operator: '<', value: 50 };
+const busy: AlertRule = { id: 'busy', market: '一市', product: '辣椒', metric: 'Volume', operator: '>=', value: 1000 };
+
+const now = new Date('2025-11-14T01:00:00Z');
+
+let dir: string;
+let feedFile: string;
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-'));
+    feedFile = path.join(dir, 'alerts.json');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+});
+
+describe('alert rules', () => {
+    it('rejects malformed rules', () => {
+        expect(parseAlertConfig({ rules: [rise, cheap] }).rules).toHaveLength(2);
+        expect(() => parseAlertConfig({ rules: [rise, rise] })).toThrow('Duplicate alert rule id: rise');
+        expect(() => parseAlertConfig({ rules: [{ ...rise, metric: 'High' }] })).toThrow('unknown metric');
+        expect(() => parseAlertConfig({ rules: [{ ...rise, window: 0 }] })).toThrow('window');
+        expect(() => parseAlertConfig({ webhook: 'ftp://x', rules: [] })).toThrow('Invalid webhook URL');
+    });
+
+    it('evaluates week-over-week change, latest price and volume', () => {
+        const alerts = evaluateRules([rise, cheap, busy], data, now);
+        expect(alerts.map(a => [a.id, a.value])).toEqual([['rise:2025-11-14', 30], ['cheap:2025-11-14', 40]]);
+        expect(alerts[0].message).toBe('一市 辣椒 朝天椒 近 7 日平均價較前 7 日上漲 30% (> 20%)');
+        expect(alerts[1]).toMatchObject({ window: 1, threshold: 50, triggeredAt: now.toISOString() });
+        expect(evaluateRules([{ ...rise, window: 30 }], data, now)).toEqual([]);
+    });
+});
+
+describe('alert feed', () => {
+    it('adds each rule once per data date, newest first', () => {
+        const first = evaluateRules([rise], data, now);
+        expect(updateAlertFeed(first, feedFile)).toHaveLength(1);
+        expect(updateAlertFeed(evaluateRules([rise, cheap], data, new Date('2025-11-15T01:00:00Z')), feedFile)).toHaveLength(1);
+
+        const feed = readAlertFeed(feedFile);
+        expect(feed.alerts.map(a => a.id)).toEqual(['cheap:2025-11-14', 'rise:2025-11-14']);
+        expect(feed.generatedAt).toBe('2025-11-15T01:00:00.000Z');
+    });
+
+    it('posts new alerts to the webhook and survives a failing one', async () => {
+        const received: unknown[] = [];
+        let status = 200;
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                received.push(JSON.parse(body));
+                res.writeHead(status).end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        const webhook = `http://localhost:${(server.address() as AddressInfo).port}/hook`;
+
+        try {
+            const config = { rules: [rise] };
+            expect(await checkAlerts(data, { config, feedFile, webhook, now })).toHaveLength(1);
+            expect(received).toEqual([{ text: expect.stringContaining('上漲 30%'), alerts: [expect.objectContaining({ id: 'rise:2025-11-14' })] }]);
+
+            // Already in the feed, nothing new to post
+            expect(await checkAlerts(data, { config, feedFile, webhook, now })).toEqual([]);
+            expect(received).toHaveLength(1);
+
+            status = 500;
+            expect(await checkAlerts(data, { config: { rules: [cheap] }, feedFile, webhook, now })).toHaveLength(1);
+            expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('500'));
+            expect(readAlertFeed(feedFile).alerts).toHaveLength(2);
+        } finally {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,257 @@
+// Price alert rules, checked against the stored data after each crawl.
+//
+// Rules live in alert-rules.json, e.g. 朝天椒 in 一市 rising more than 20% week over week:
+//   { "id": "chili-1-weekly-rise", "market": "一市", "product": "辣椒", "variety": "朝天椒",
+//     "metric": "change", "operator": ">", "value": 20, "window": 7 }
+// Avg and Volume compare the volume-weighted average price or the total volume of the last
+// `window` days (default 1, the latest trading day); change compares the average of the last
+// `window` days (default 7) with the `window` days before, in percent.
+//
+// Usage: npm run alerts -- [--webhook=url] [--dry-run]
+//   check the stored data without crawling, e.g. against a local stub webhook
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { loadCatalogue } from './catalogue';
+import { parseOptions, runMain } from './cli';
+import { ALERT_FEED_FILE, ALERT_FEED_LIMIT, ALERT_RULES_FILE, ALERT_WEBHOOK_URL } from './config';
+import {
+    addDays,
+    rocToIso,
+    sumVolume,
+    weightedAvg,
+    type AlertFeed,
+    type AlertMetric,
+    type AlertOperator,
+    type DataPoint,
+    type PriceAlert
+} from './shared';
+import { DatasetStore, writeFileAtomic } from './storage';
+
+export interface AlertRule {
+    id: string;
+    market: string;
+    product: string;
+    // All varieties of the product when omitted
+    variety?: string;
+    metric: AlertMetric;
+    operator: AlertOperator;
+    value: number;
+    window?: number;
+}
+
+export interface AlertConfig {
+    webhook?: string;
+    rules: AlertRule[];
+}
+
+export class AlertRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AlertRuleError';
+    }
+}
+
+const METRICS: AlertMetric[] = ['Avg', 'Volume', 'change'];
+const OPERATORS: AlertOperator[] = ['>', '>=', '<', '<='];
+
+const isName = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+export function parseAlertConfig(json: unknown): AlertConfig {
+    const raw = json as Partial<AlertConfig> | null;
+    if (!raw || !Array.isArray(raw.rules)) {
+        throw new AlertRuleError('Alert rules must be an object with a rules list');
+    }
+    if (raw.webhook !== undefined && !/^https?:\/\//.test(String(raw.webhook))) {
+        throw new AlertRuleError(`Invalid webhook URL: ${JSON.stringify(raw.webhook)}`);
+    }
+
+    const ids = new Set<string>();
+    for (const rule of raw.rules) {
+        if (!rule || !isName(rule.id)) {
+            throw new AlertRuleError(`Invalid alert rule id: ${JSON.stringify(rule?.id)}`);
+        }
+        if (ids.has(rule.id)) {
+            throw new AlertRuleError(`Duplicate alert rule id: ${rule.id}`);
+        }
+        ids.add(rule.id);
+
+        if (!isName(rule.market) || !isName(rule.product) || (rule.variety !== undefined && !isName(rule.variety))) {
+            throw new AlertRuleError(`${rule.id}: market and product are required, variety must be a name when set`);
+        }
+        if (!METRICS.includes(rule.metric)) {
+            throw new AlertRuleError(`${rule.id}: unknown metric ${JSON.stringify(rule.metric)}`);
+        }
+        if (!OPERATORS.includes(rule.operator)) {
+            throw new AlertRuleError(`${rule.id}: unknown operator ${JSON.stringify(rule.operator)}`);
+        }
+        if (typeof rule.value !== 'number' || !Number.isFinite(rule.value)) {
+            throw new AlertRuleError(`${rule.id}: value must be a number`);
+        }
+        if (rule.window !== undefined && (!Number.isInteger(rule.window) || rule.window < 1)) {
+            throw new AlertRuleError(`${rule.id}: window must be a positive number of days`);
+        }
+    }
+
+    return raw as AlertConfig;
+}
+
+// No rules file means no alerts
+export function loadAlertConfig(file: string = ALERT_RULES_FILE): AlertConfig {
+    if (!fs.existsSync(file)) return { rules: [] };
+    return parseAlertConfig(JSON.parse(fs.readFileSync(file, 'utf-8')));
+}
+
+const compare = (value: number, operator: AlertOperator, threshold: number) => {
+    switch (operator) {
+        case '>': return value > threshold;
+        case '>=': return value >= threshold;
+        case '<': return value < threshold;
+        default: return value <= threshold;
+    }
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const windowOf = (rule: AlertRule) => rule.window ?? (rule.metric === 'change' ? 7 : 1);
+
+const alertMessage = (rule: AlertRule, value: number) => {
+    const subject = [rule.market, rule.product, rule.variety].filter(Boolean).join(' ');
+    const days = windowOf(rule);
+    const period = days === 1 ? '最新交易日' : `近 ${days} 日`;
+    switch (rule.metric) {
+        case 'Avg':
+            return `${subject} ${period}平均價 ${value} 元/公斤 (${rule.operator} ${rule.value})`;
+        case 'Volume':
+            return `${subject} ${period}交易量 ${value.toLocaleString()} 公斤 (${rule.operator} ${rule.value.toLocaleString()})`;
+        default:
+            return `${subject} ${period}平均價較前 ${days} 日${value >= 0 ? '上漲' : '下跌'} ${Math.abs(value)}% (${rule.operator} ${rule.value}%)`;
+    }
+};
+
+// Rules whose condition holds on the latest data of their market, product and variety
+export function evaluateRules(rules: AlertRule[], points: DataPoint[], now: Date = new Date()): PriceAlert[] {
+    const alerts: PriceAlert[] = [];
+    for (const rule of rules) {
+        const matching = points
+            .filter(p => p.Market === rule.market && p.Name === rule.product && (!rule.variety || p.Variety === rule.variety))
+            .map(p => ({ ...p, ISODate: p.ISODate || rocToIso(p.Date) }));
+        if (matching.length === 0) continue;
+
+        const latest = matching.reduce((max, p) => (p.ISODate > max ? p.ISODate : max), '');
+        const days = windowOf(rule);
+        const start = addDays(latest, -days);
+        const current = matching.filter(p => p.ISODate > start);
+
+        let value: number;
+        if (rule.metric === 'Avg') {
+            value = weightedAvg(current);
+        } else if (rule.metric === 'Volume') {
+            value = sumVolume(current);
+        } else {
+            const previous = matching.filter(p => p.ISODate > addDays(start, -days) && p.ISODate <= start);
+            const base = weightedAvg(previous);
+            if (previous.length === 0 || base === 0) continue;
+            value = (weightedAvg(current) - base) / base * 100;
+        }
+        value = round(value);
+        if (!compare(value, rule.operator, rule.value)) continue;
+
+        alerts.push({
+            id: `${rule.id}:${latest}`,
+            rule: rule.id,
+            date: latest,
+            market: rule.market,
+            product: rule.product,
+            ...(rule.variety ? { variety: rule.variety } : {}),
+            metric: rule.metric,
+            operator: rule.operator,
+            threshold: rule.value,
+            window: days,
+            value,
+            message: alertMessage(rule, value),
+            triggeredAt: now.toISOString()
+        });
+    }
+    return alerts;
+}
+
+export function readAlertFeed(file: string = ALERT_FEED_FILE): AlertFeed {
+    if (!fs.existsSync(file)) return { generatedAt: '', alerts: [] };
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as AlertFeed;
+}
+
+// Adds alerts not already in the feed (a rule fires once per data date), newest first,
+// keeping the last ALERT_FEED_LIMIT. Returns the alerts that were new.
+export function updateAlertFeed(alerts: PriceAlert[], file: string = ALERT_FEED_FILE, limit = ALERT_FEED_LIMIT) {
+    const feed = readAlertFeed(file);
+    const known = new Set(feed.alerts.map(a => a.id));
+    const added = alerts.filter(a => !known.has(a.id));
+    if (added.length === 0 && fs.existsSync(file)) return added;
+
+    const merged = [...added, ...feed.alerts]
+        .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt) || b.date.localeCompare(a.date))
+        .slice(0, limit);
+    const generatedAt = added[0]?.triggeredAt ?? new Date().toISOString();
+    writeFileAtomic(file, JSON.stringify({ generatedAt, alerts: merged }, null, 2) + '\n');
+    return added;
+}
+
+// `text` makes the payload usable by chat webhooks (e.g. Slack) as is
+export async function postWebhook(url: string, alerts: PriceAlert[]) {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: alerts.map(a => `⚠️ ${a.message}`).join('\n'), alerts }),
+        signal: AbortSignal.timeout(10_000)
+    });
+    if (!res.ok) {
+        throw new Error(`Webhook responded ${res.status} ${res.statusText}`);
+    }
+}
+
+export interface CheckAlertsOptions {
+    config?: AlertConfig;
+    feedFile?: string;
+    webhook?: string;
+    dryRun?: boolean;
+    now?: Date;
+}
+
+// A failing webhook is logged but never fails the crawl, the alerts are in the feed either way
+export async function checkAlerts(points: DataPoint[], options: CheckAlertsOptions = {}) {
+    const config = options.config ?? loadAlertConfig();
+    if (config.rules.length === 0) return [];
+
+    const triggered = evaluateRules(config.rules, points, options.now);
+    if (options.dryRun) {
+        triggered.forEach(a => console.log(`[dry run] ${a.message}`));
+        return triggered;
+    }
+
+    const added = updateAlertFeed(triggered, options.feedFile);
+    console.log(`Alerts: ${triggered.length} of ${config.rules.length} rules triggered, ${added.length} new.`);
+    const webhook = options.webhook ?? ALERT_WEBHOOK_URL ?? config.webhook;
+    if (webhook && added.length > 0) {
+        try {
+            await postWebhook(webhook, added);
+            console.log(`Posted ${added.length} alerts to the webhook.`);
+        } catch (e) {
+            console.warn(`Warning: Could not post alerts to the webhook: ${(e as Error).message}`);
+        }
+    }
+    return added;
+}
+
+async function main() {
+    const { options } = parseOptions(process.argv.slice(2));
+    const { groups } = loadCatalogue();
+    const store = new DatasetStore(groups);
+    await checkAlerts(store.normalizedPoints(), {
+        webhook: options.webhook,
+        dryRun: options['dry-run'] === 'true'
+    });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    runMain(main);
+}
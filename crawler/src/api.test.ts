@@ -0,0 +1,111 @@
+import fs from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createApiHandler } from './api';
+import { aggregate, normalizeVarieties } from './shared';
+import { DatasetStore } from './storage';
+import { makePoint } from './testing';
+import { parseDataset } from '../../frontend-vite/src/data/parse';
+
+const point = (Date: string, Market: string, Variety: string, Avg: number, Volume: number) =>
+    makePoint({ Date, Market, Variety, Avg, Volume });
+
+const data = [
+    point('114/11/03', '一市', '紅小', 100, 10),
+    point('114/11/04', '一市', '紅小', 40, 30),
+    point('114/11/04', '一市', '青小', 60, 20),
+    point('114/12/01', '一市', '紅小', 80, 0),
+    point('114/12/01', '二市', '紅小', 70, 5)
+];
+
+// FV91 is listed twice a day at the source, as 進口 and as 進口紅小, with the same prices and volume
+const csv = [
+    'Date,Market,Code,Name,Variety,High,Mid,Low,Avg,Volume',
+    '114/11/04,一市,FV1,辣椒,紅小,50,40,30,40,30',
+    '114/11/04,一市,FV91,辣椒,進口,90,80,70,80,10',
+    '114/11/04,一市,FV91,辣椒,進口紅小,90,80,70,80,10'
+].join('\n') + '\n';
+
+let server: http.Server;
+let base: string;
+let storedServer: http.Server;
+let storedBase: string;
+let dir: string;
+
+const listen = async (getData: () => ReturnType<typeof normalizeVarieties>) => {
+    const listening = http.createServer(createApiHandler(getData));
+    await new Promise<void>(resolve => listening.listen(0, resolve));
+    return { listening, url: `http://localhost:${(listening.address() as AddressInfo).port}` };
+};
+
+beforeAll(async () => {
+    ({ listening: server, url: base } = await listen(() => data));
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawler-api-'));
+    fs.writeFileSync(path.join(dir, 'vegetables_fv.csv'), csv);
+    const store = new DatasetStore([{ id: 'vegetables_fv', label: '辣椒', category: 'vegetable', codePrefixes: ['FV'] }], dir);
+    const points = store.normalizedPoints();
+    ({ listening: storedServer, url: storedBase } = await listen(() => points));
+});
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await new Promise(resolve => storedServer.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const get = async (path: string, headers: Record<string, string> = {}, url = base) => {
+    const res = await fetch(url + path, { headers });
+    return { status: res.status, etag: res.headers.get('etag'), body: res.status === 304 ? null : await res.json() as unknown };
+};
+
+describe('price API', () => {
+    it('lists markets, products and varieties', async () => {
+        expect((await get('/markets')).body).toEqual(['一市', '二市']);
+        expect((await get('/products')).body).toEqual(['辣椒']);
+        expect((await get(`/products/${encodeURIComponent('辣椒')}/varieties`)).body).toEqual(['紅小', '青小']);
+        expect((await get('/products/x/varieties')).status).toBe(404);
+        expect((await get('/products/%E0%A4%A/varieties')).status).toBe(400);
+    });
+
+    it('returns the dashboard aggregates for a date range', async () => {
+        const query = new URLSearchParams({ market: '一市', product: '辣椒', variety: '紅小,青小', granularity: 'month', from: '114/11/04' });
+        const { body } = await get(`/prices?${query}`);
+        expect(body).toEqual([
+            { Date: '114/11', ISODate: '2025-11-01', Volume: 50, Avg: 48, Market: '一市', Name: '辣椒', 紅小: 40, 紅小_Volume: 30, 青小: 60, 青小_Volume: 20 },
+            { Date: '114/12', ISODate: '2025-12-01', Volume: 0, Avg: 80, Market: '一市', Name: '辣椒', 紅小: 80, 紅小_Volume: 0, 青小: null, 青小_Volume: 0 }
+        ]);
+    });
+
+    it('rejects invalid queries', async () => {
+        expect((await get('/prices?market=一市')).status).toBe(400);
+        expect((await get('/prices?market=一市&product=辣椒&granularity=hour')).status).toBe(400);
+        expect((await get('/prices?market=一市&product=辣椒&from=yesterday')).status).toBe(400);
+        expect((await get('/prices?market=一市&product=辣椒&from=2025-13-45')).status).toBe(400);
+        expect((await get('/prices?market=一市&product=辣椒&to=114/02/30')).status).toBe(400);
+    });
+
+    it('answers an unknown product with 404', async () => {
+        const { status, body } = await get('/prices?market=一市&product=x');
+        expect(status).toBe(404);
+        expect(body).toEqual({ error: 'Unknown product: x' });
+    });
+
+    it('answers If-None-Match with 304 while unchanged', async () => {
+        const first = await get('/markets');
+        expect(first.etag).toBeTruthy();
+        expect((await get('/markets', { 'If-None-Match': first.etag! })).status).toBe(304);
+        expect((await get('/openapi.json')).body).toHaveProperty(['paths', '/prices']);
+    });
+});
+
+describe('price API over the stored datasets', () => {
+    it('counts a variety listed under an alias once, like the dashboard', async () => {
+        const { body } = await get(`/prices?${new URLSearchParams({ market: '一市', product: '辣椒' })}`, {}, storedBase);
+        const dashboard = normalizeVarieties(parseDataset(csv));
+        expect(body).toEqual(aggregate(dashboard, { market: '一市', product: '辣椒', varieties: ['紅小', '進口紅小'], granularity: 'day' }));
+        expect(body).toMatchObject([{ Volume: 40, Avg: 50, 進口紅小_Volume: 10 }]);
+    });
+});
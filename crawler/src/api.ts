@@ -0,0 +1,118 @@
+// Read-only JSON API over the crawled datasets, see openapi.ts for the description.
+// Price aggregates are computed by the same module the dashboard charts use.
+import crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { parseDateArg } from './cli';
+import { OPENAPI } from './openapi';
+import { aggregate, dateToIso, GRANULARITIES, rocToIso, type DataPoint, type Granularity } from './shared';
+
+export class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+const sorted = (values: Iterable<string>) => Array.from(new Set(values)).sort();
+
+// ROC (114/11/26) or ISO (2025-11-26) query dates, as ISO
+function isoParam(query: URLSearchParams, name: string) {
+    const value = query.get(name);
+    if (!value) return undefined;
+    try {
+        return dateToIso(parseDateArg(name, value));
+    } catch (e) {
+        throw new ApiError(400, (e as Error).message);
+    }
+}
+
+function prices(data: DataPoint[], query: URLSearchParams) {
+    const market = query.get('market');
+    const product = query.get('product');
+    if (!market || !product) {
+        throw new ApiError(400, 'market and product are required');
+    }
+    if (!data.some(d => d.Name === product)) {
+        throw new ApiError(404, `Unknown product: ${product}`);
+    }
+    const granularity = (query.get('granularity') || 'day') as Granularity;
+    if (!GRANULARITIES.includes(granularity)) {
+        throw new ApiError(400, `Invalid granularity: ${granularity} (expected ${GRANULARITIES.join(', ')})`);
+    }
+    const from = isoParam(query, 'from');
+    const to = isoParam(query, 'to');
+
+    const inRange = data.filter(d => {
+        const iso = d.ISODate || rocToIso(d.Date);
+        return (!from || iso >= from) && (!to || iso <= to);
+    });
+    // variety may repeat or be comma separated, all varieties of the product by default
+    const varieties = query.getAll('variety').flatMap(v => v.split(',')).filter(Boolean);
+    return aggregate(inRange, {
+        market,
+        product,
+        varieties: varieties.length > 0 ? varieties : sorted(data.filter(d => d.Name === product).map(d => d.Variety)),
+        granularity
+    });
+}
+
+function route(data: DataPoint[], pathname: string, query: URLSearchParams): unknown {
+    if (pathname === '/openapi.json') return OPENAPI;
+    if (pathname === '/markets') return sorted(data.map(d => d.Market));
+    if (pathname === '/products') return sorted(data.map(d => d.Name));
+    if (pathname === '/prices') return prices(data, query);
+
+    const varieties = /^\/products\/([^/]+)\/varieties$/.exec(pathname);
+    if (varieties) {
+        let name: string;
+        try {
+            name = decodeURIComponent(varieties[1]);
+        } catch {
+            throw new ApiError(400, `Invalid product name: ${varieties[1]}`);
+        }
+        const points = data.filter(d => d.Name === name);
+        if (points.length === 0) {
+            throw new ApiError(404, `Unknown product: ${name}`);
+        }
+        return sorted(points.map(d => d.Variety));
+    }
+    throw new ApiError(404, `Not found: ${pathname}`);
+}
+
+// Responses carry an ETag of their body, so clients revalidating with If-None-Match get a 304
+export function createApiHandler(getData: () => DataPoint[]) {
+    return (req: IncomingMessage, res: ServerResponse) => {
+        const send = (status: number, body: unknown) => {
+            const json = JSON.stringify(body);
+            const etag = `"${crypto.createHash('sha1').update(json).digest('base64url')}"`;
+            res.setHeader('Access-Control-Allow-Origin', '*');
+            if (status === 200) {
+                res.setHeader('ETag', etag);
+                res.setHeader('Cache-Control', 'no-cache');
+                if (req.headers['if-none-match'] === etag) {
+                    res.writeHead(304).end();
+                    return;
+                }
+            }
+            res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+            res.end(req.method === 'HEAD' ? undefined : json);
+        };
+
+        if (req.method !== 'GET' && req.method !== 'HEAD') {
+            res.setHeader('Allow', 'GET, HEAD');
+            send(405, { error: `Method ${req.method} not allowed` });
+            return;
+        }
+        try {
+            const url = new URL(req.url || '/', 'http://localhost');
+            send(200, route(getData(), url.pathname, url.searchParams));
+        } catch (e) {
+            if (e instanceof ApiError) {
+                send(e.status, { error: e.message });
+            } else {
+                console.error('Request failed:', (e as Error).message);
+                send(500, { error: 'Internal server error' });
+            }
+        }
+    };
+}
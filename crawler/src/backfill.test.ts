@@ -0,0 +1,62 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dateRange } from './backfill';
+import { Checkpoint } from './checkpoint';
+import { NoTradingDays, isSettled } from './tradingDays';
+
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+let dir: string;
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawler-'));
+});
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('dateRange', () => {
+    it('walks day by day in either argument order', () => {
+        const expected = ['113/02/28', '113/02/29', '113/03/01'];
+        expect(dateRange(new Date(2024, 1, 28), new Date(2024, 2, 1))).toEqual(expected);
+        expect(dateRange(new Date(2024, 2, 1), new Date(2024, 1, 28))).toEqual(expected);
+    });
+});
+
+describe('Checkpoint', () => {
+    it('resumes the same range and discards a different one', () => {
+        const file = path.join(dir, 'checkpoint.json');
+        const checkpoint = Checkpoint.open('113/01/01', '113/01/31', file);
+        checkpoint.mark('113/01/01|一市|vegetable');
+
+        const resumed = Checkpoint.open('113/01/01', '113/01/31', file);
+        expect(resumed.has('113/01/01|一市|vegetable')).toBe(true);
+
+        expect(Checkpoint.open('113/02/01', '113/02/29', file).size).toBe(0);
+
+        resumed.clear();
+        expect(fs.existsSync(file)).toBe(false);
+    });
+});
+
+describe('NoTradingDays', () => {
+    it('persists closed days per market and category', () => {
+        const file = path.join(dir, 'no-trading.json');
+        const days = new NoTradingDays(file);
+        days.add('113/02/10', '一市', 'vegetable');
+        days.save();
+
+        const reloaded = new NoTradingDays(file);
+        expect(reloaded.has('113/02/10', '一市', 'vegetable')).toBe(true);
+        expect(reloaded.has('113/02/10', '二市', 'vegetable')).toBe(false);
+        expect(reloaded.has('113/02/10', '一市', 'fruit')).toBe(false);
+    });
+
+    it('only settles days that are old enough to be published', () => {
+        const now = new Date(2025, 10, 26, 8);
+        expect(isSettled('114/11/26', now)).toBe(false);
+        expect(isSettled('114/11/25', now)).toBe(false);
+        expect(isSettled('114/11/24', now)).toBe(true);
+    });
+});
@@ -0,0 +1,117 @@
+// Backfill the history of an explicit date range, day by day across all markets.
+// Progress is checkpointed after every date/market pair, so re-running the same
+// command after a crash or Ctrl-C resumes where it left off.
+//
+// Usage: npm run backfill -- <from> <to> [--fixtures[=dir]]
+// Dates are ROC (113/01/01) or ISO (2024-01-01).
+import './polyfills';
+import { fileURLToPath } from 'url';
+import { loadCatalogue } from './catalogue';
+import { Checkpoint } from './checkpoint';
+import { parseDateArg, runMain } from './cli';
+import { DATABASE_FILE, DATASET_INDEX_FILE, DATASET_VERSION_FILE } from './config';
+import { crawl, type CrawlQuery } from './crawl';
+import { appendChangeLog } from './changelog';
+import { PriceDatabase } from './database';
+import { appendQuarantine } from './quarantine';
+import { buildRunReport, exitCodeFor, writeRunReport } from './report';
+import { dateToRoc } from './shared';
+import { DatasetStore, writeDatasetIndex, writeDatasetVersion } from './storage';
+import { NoTradingDays, isSettled } from './tradingDays';
+import { FixtureTransport, createTransport } from './transport';
+
+const USAGE = 'Usage: npm run backfill -- <from> <to> [--fixtures[=dir]]';
+
+// ROC dates from the earlier to the later date, both included
+export function dateRange(from: Date, to: Date) {
+    const [start, end] = from <= to ? [from, to] : [to, from];
+    const dates: string[] = [];
+    for (const current = new Date(start); current <= end; current.setDate(current.getDate() + 1)) {
+        dates.push(dateToRoc(current));
+    }
+    return dates;
+}
+
+const pairKey = (q: CrawlQuery) => `${q.rocDate}|${q.market.txt}|${q.category}`;
+
+async function main() {
+    const startedAt = new Date();
+    const args = process.argv.slice(2);
+    const [fromArg, toArg] = args.filter(a => !a.startsWith('--'));
+    const dates = dateRange(parseDateArg('from', fromArg), parseDateArg('to', toArg));
+
+    const transport = createTransport(args);
+    const catalogue = loadCatalogue();
+    const store = new DatasetStore(catalogue.groups);
+    const db = PriceDatabase.open(DATABASE_FILE);
+    if (db.size() === 0) {
+        db.rebuild(catalogue.groups.flatMap(g => store.points(g)));
+    }
+    const noTrading = new NoTradingDays();
+    const checkpoint = Checkpoint.open(dates[0], dates[dates.length - 1]);
+    console.log(`Backfilling ${dates[0]} - ${dates[dates.length - 1]} (${dates.length} days), ${checkpoint.size} pairs already done.`);
+
+    // First Ctrl-C finishes the current query and stops, the second exits right away
+    const controller = new AbortController();
+    process.on('SIGINT', () => {
+        if (controller.signal.aborted) process.exit(130);
+        console.log("Stopping after the current query, progress is saved...");
+        controller.abort();
+    });
+
+    let result;
+    try {
+        result = await crawl({
+            transport,
+            catalogue,
+            dates,
+            signal: controller.signal,
+            isPending: (rocDate, group, market) => !store.has(group, rocDate, market),
+            shouldQuery: q => !checkpoint.has(pairKey(q)) && !noTrading.has(q.rocDate, q.market.txt, q.category),
+            onQuery: (q, res) => {
+                const upsert = store.upsert(res.records);
+                store.save(upsert.changed);
+                db.upsert(res.records);
+                appendChangeLog(upsert.changes);
+                appendQuarantine(res.quarantined);
+                if (!res.tradingDay && isSettled(q.rocDate)) {
+                    noTrading.add(q.rocDate, q.market.txt, q.category);
+                    noTrading.save();
+                }
+                checkpoint.mark(pairKey(q));
+            },
+            politeDelay: transport instanceof FixtureTransport ? 0 : 1000,
+            retry: transport instanceof FixtureTransport ? { baseDelay: 0 } : undefined
+        });
+    } catch (e) {
+        db.close();
+        console.error("Backfill failed:", (e as Error).message);
+        const report = buildRunReport('backfill', startedAt, dates.length, e as Error);
+        writeRunReport(report);
+        process.exitCode = exitCodeFor(report);
+        return;
+    }
+
+    db.close();
+    store.save();
+    const index = writeDatasetIndex(DATASET_INDEX_FILE, store);
+    writeDatasetVersion(DATASET_VERSION_FILE, DATASET_INDEX_FILE, index);
+    const report = buildRunReport('backfill', startedAt, dates.length, result);
+    writeRunReport(report);
+
+    if (controller.signal.aborted) {
+        console.log(`Backfill interrupted, ${checkpoint.size} pairs done. Run the same command again to resume.`);
+        process.exitCode = 130;
+    } else if (report.failures.length > 0) {
+        // Failed pairs aren't in the checkpoint, re-running the same command retries just those
+        console.log(`Backfill finished with ${report.failures.length} failed queries. Run the same command again to retry them.`);
+        process.exitCode = exitCodeFor(report);
+    } else {
+        checkpoint.clear();
+        console.log("Backfill complete.");
+    }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    runMain(main, USAGE);
+}
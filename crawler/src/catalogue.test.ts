@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { CatalogueError, findGroup, loadCatalogue, parseCatalogue } from './catalogue';
+
+describe('catalogue', () => {
+    it('loads the bundled catalogue', () => {
+        const catalogue = loadCatalogue();
+        expect(catalogue.groups.map(g => g.id)).toContain('vegetables_fv');
+        expect(findGroup(catalogue.groups, 'FV94')?.label).toBe('辣椒');
+    });
+
+    it('rejects invalid product groups', () => {
+        const group = { id: 'vegetables_fv', label: '辣椒', category: 'vegetable', codePrefixes: ['FV'] };
+        expect(() => parseCatalogue({ groups: [] })).toThrow(CatalogueError);
+        expect(() => parseCatalogue({ groups: [group, group] })).toThrow(/Duplicate/);
+        expect(() => parseCatalogue({ groups: [{ ...group, codePrefixes: [] }] })).toThrow(/codePrefixes/);
+        expect(() => parseCatalogue({ groups: [{ ...group, category: 'flower' }] })).toThrow(/Price1/);
+    });
+});
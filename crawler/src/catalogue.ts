@@ -0,0 +1,98 @@
+// Product catalogue: which product groups to crawl, from which markets, and where each is stored
+import fs from 'fs';
+import path from 'path';
+import { CATALOGUE_FILE, DATA_DIR } from './config';
+import type { DatasetIndexEntry } from './shared';
+
+export type Category = DatasetIndexEntry['category'];
+
+export interface ProductGroup {
+    // Also the dataset file name, e.g. vegetables_fv -> vegetables_fv.csv
+    id: string;
+    label: string;
+    category: Category;
+    codePrefixes: string[];
+    // Market names as listed on the page (e.g. 一市), defaults to the catalogue-wide list
+    markets?: string[];
+}
+
+export interface Catalogue {
+    // Market names to query, all detected markets when omitted
+    markets?: string[];
+    groups: ProductGroup[];
+}
+
+// DDL_FV_Code values of the Price1 form. Flowers are traded at the flower market
+// and published on a different page, so they can't be crawled from Price1.
+export const CATEGORY_CODES: Record<Category, string | null> = {
+    vegetable: 'V',
+    fruit: 'F',
+    flower: null
+};
+
+export class CatalogueError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CatalogueError';
+    }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string' && v.length > 0);
+
+export function parseCatalogue(json: unknown): Catalogue {
+    const raw = json as Partial<Catalogue> | null;
+    if (!raw || !Array.isArray(raw.groups) || raw.groups.length === 0) {
+        throw new CatalogueError('Catalogue must list at least one product group');
+    }
+    if (raw.markets !== undefined && !isStringArray(raw.markets)) {
+        throw new CatalogueError('Catalogue markets must be a list of market names');
+    }
+
+    const ids = new Set<string>();
+    for (const group of raw.groups) {
+        if (!group || !/^[a-z0-9_-]+$/.test(group.id ?? '')) {
+            throw new CatalogueError(`Invalid product group id: ${JSON.stringify(group?.id)}`);
+        }
+        if (ids.has(group.id)) {
+            throw new CatalogueError(`Duplicate product group id: ${group.id}`);
+        }
+        ids.add(group.id);
+
+        if (!(group.category in CATEGORY_CODES)) {
+            throw new CatalogueError(`${group.id}: unknown category ${JSON.stringify(group.category)}`);
+        }
+        if (CATEGORY_CODES[group.category] === null) {
+            throw new CatalogueError(`${group.id}: ${group.category} prices are not published on the Price1 page`);
+        }
+        if (!isStringArray(group.codePrefixes) || group.codePrefixes.length === 0) {
+            throw new CatalogueError(`${group.id}: codePrefixes must be a non-empty list`);
+        }
+        if (group.markets !== undefined && !isStringArray(group.markets)) {
+            throw new CatalogueError(`${group.id}: markets must be a list of market names`);
+        }
+    }
+
+    return raw as Catalogue;
+}
+
+export function loadCatalogue(file: string = CATALOGUE_FILE): Catalogue {
+    return parseCatalogue(JSON.parse(fs.readFileSync(file, 'utf-8')));
+}
+
+export function groupMarkets(catalogue: Catalogue, group: ProductGroup) {
+    return group.markets || catalogue.markets;
+}
+
+export function findGroup(groups: ProductGroup[], code: string) {
+    return groups.find(g => g.codePrefixes.some(prefix => code.startsWith(prefix)));
+}
+
+export function datasetFile(group: ProductGroup, dir: string = DATA_DIR) {
+    return path.join(dir, `${group.id}.csv`);
+}
+
+// Monthly partitions of a group live in a directory named after it, the path is relative to the data directory
+export function partitionPath(group: ProductGroup, period: string) {
+    return `${group.id}/${period}.json`;
+}
@@ -0,0 +1,13 @@
+// Corrections published by the source after a row was stored, one JSON object per line
+import fs from 'fs';
+import path from 'path';
+import { CHANGELOG_FILE } from './config';
+import type { RowChange } from './storage';
+
+export function appendChangeLog(changes: RowChange[], file: string = CHANGELOG_FILE) {
+    if (changes.length === 0) return;
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, changes.map(c => JSON.stringify(c) + '\n').join(''));
+    console.log(`Logged ${changes.length} corrected rows to ${file}`);
+}
@@ -0,0 +1,60 @@
+// Progress of a backfill run, saved after every date/market pair so it can resume after a crash or Ctrl-C
+import fs from 'fs';
+import { CHECKPOINT_FILE } from './config';
+import { writeFileAtomic } from './storage';
+
+interface CheckpointData {
+    from: string;
+    to: string;
+    done: string[];
+    updatedAt: string;
+}
+
+export class Checkpoint {
+    private readonly done: Set<string>;
+
+    private constructor(readonly from: string, readonly to: string, done: string[], private readonly file: string) {
+        this.done = new Set(done);
+    }
+
+    // Resume the checkpoint of the same range, or start over if there is none
+    static open(from: string, to: string, file: string = CHECKPOINT_FILE) {
+        if (fs.existsSync(file)) {
+            const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as CheckpointData;
+            if (data.from === from && data.to === to) {
+                return new Checkpoint(from, to, data.done, file);
+            }
+            console.warn(`Discarding checkpoint of ${data.from} - ${data.to}, backfilling a different range.`);
+        }
+        return new Checkpoint(from, to, [], file);
+    }
+
+    get size() {
+        return this.done.size;
+    }
+
+    has(key: string) {
+        return this.done.has(key);
+    }
+
+    mark(key: string) {
+        this.done.add(key);
+        this.save();
+    }
+
+    clear() {
+        if (fs.existsSync(this.file)) {
+            fs.unlinkSync(this.file);
+        }
+    }
+
+    private save() {
+        const data: CheckpointData = {
+            from: this.from,
+            to: this.to,
+            done: Array.from(this.done),
+            updatedAt: new Date().toISOString()
+        };
+        writeFileAtomic(this.file, JSON.stringify(data));
+    }
+}
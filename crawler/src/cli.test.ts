@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseDateArg, parseNumberArg, parseOptions } from './cli';
+
+describe('parseDateArg', () => {
+    it('reads ROC and ISO dates', () => {
+        expect(parseDateArg('from', '113/02/29')).toEqual(new Date(2024, 1, 29));
+        expect(parseDateArg('from', '2024-2-29')).toEqual(new Date(2024, 1, 29));
+    });
+
+    it('rejects missing and impossible dates', () => {
+        expect(() => parseDateArg('to', undefined)).toThrow('Missing to date');
+        expect(() => parseDateArg('from', '2024-13-45')).toThrow('Invalid from date: 2024-13-45');
+        expect(() => parseDateArg('from', '2023-02-29')).toThrow('Invalid from date');
+        expect(() => parseDateArg('from', 'yesterday')).toThrow('Invalid from date');
+    });
+});
+
+describe('parseOptions', () => {
+    it('splits --key=value options from positional arguments', () => {
+        expect(parseOptions(['query', 'latest', '--market=二市', '--out=x.json', '--dry-run'])).toEqual({
+            options: { market: '二市', out: 'x.json', 'dry-run': 'true' },
+            positional: ['query', 'latest']
+        });
+    });
+});
+
+describe('parseNumberArg', () => {
+    it('reads positive numbers and rejects anything else', () => {
+        expect(parseNumberArg('--days', '90')).toBe(90);
+        expect(parseNumberArg('--days', '0.5')).toBe(0.5);
+        expect(() => parseNumberArg('--days', 'abc')).toThrow('Invalid --days: abc (expected a positive number)');
+        for (const value of ['', 'Infinity', '0', '-30']) {
+            expect(() => parseNumberArg('--days', value)).toThrow('Invalid --days');
+        }
+    });
+});
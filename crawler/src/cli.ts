@@ -0,0 +1,52 @@
+import { rocToIso } from './shared';
+
+// ROC (113/01/01) or ISO (2024-01-01) date argument, rejecting dates that don't exist such as 2024-13-45
+export function parseDateArg(name: string, value: string | undefined) {
+    if (!value) {
+        throw new Error(`Missing ${name} date`);
+    }
+    const iso = value.includes('/') ? rocToIso(value) : value;
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(iso);
+    const [year, month, day] = match ? match.slice(1).map(Number) : [];
+    const date = new Date(year, month - 1, day);
+    if (!match || date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        throw new Error(`Invalid ${name} date: ${value} (expected ROC 113/01/01 or ISO 2024-01-01)`);
+    }
+    return date;
+}
+
+// Positive number argument such as --days=90, rejecting abc, Infinity, 0 and negative values
+export function parseNumberArg(name: string, value: string) {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number) || number <= 0) {
+        throw new Error(`Invalid ${name}: ${value} (expected a positive number)`);
+    }
+    return number;
+}
+
+// --key=value options and the remaining positional arguments
+export function parseOptions(args: string[]) {
+    const options: Record<string, string> = {};
+    const positional: string[] = [];
+    for (const arg of args) {
+        const match = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+        if (match) {
+            options[match[1]] = match[2] ?? 'true';
+        } else {
+            positional.push(arg);
+        }
+    }
+    return { options, positional };
+}
+
+// Runs the main function of a script. A failure prints its message, and the usage when given,
+// instead of an unhandled rejection with a stack trace, and exits with status 1.
+export function runMain(main: () => unknown, usage?: string) {
+    Promise.resolve()
+        .then(main)
+        .catch((e: unknown) => {
+            console.error(e instanceof Error ? e.message : String(e));
+            if (usage) console.error(usage);
+            process.exitCode = 1;
+        });
+}
@@ -0,0 +1,56 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export const BASE_URL = 'https://www.tapmc.com.tw/Pages/Trans/Price1';
+export const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+// Save directly to frontend public folder so it can be served
+export const DATA_DIR = path.join(ROOT_DIR, '../frontend-vite/public/data');
+export const OUTPUT_FILE = path.join(DATA_DIR, 'vegetables_fv.csv');
+
+// Lists the dataset of every product group so the dashboard knows what to load
+export const DATASET_INDEX_FILE = path.join(DATA_DIR, 'datasets.json');
+
+// Hash of the dataset files, the dashboard's offline cache compares it to tell when newer data is out
+export const DATASET_VERSION_FILE = path.join(DATA_DIR, 'version.json');
+
+export const CATALOGUE_FILE = path.join(ROOT_DIR, 'catalogue.json');
+
+// Rows that fail validation are kept out of the dataset but never dropped silently
+export const QUARANTINE_FILE = path.join(ROOT_DIR, '../data/vegetables_fv.quarantine.csv');
+
+// Market/category pairs found without trading on a date, so they aren't re-queried
+export const NO_TRADING_FILE = path.join(ROOT_DIR, '../data/no-trading-days.json');
+
+// Backfill progress, local to the machine running it
+export const CHECKPOINT_FILE = path.join(ROOT_DIR, 'state/backfill-checkpoint.json');
+
+// Local SQLite copy of all datasets for ad-hoc queries, rebuilt from the CSVs when missing
+export const DATABASE_FILE = path.join(ROOT_DIR, 'state/prices.db');
+
+// Port of the read-only price API (npm run serve)
+export const API_PORT = Number(process.env.PORT) || 3001;
+
+// Summary of the last run, uploaded by the daily workflow
+export const REPORT_FILE = path.join(ROOT_DIR, 'reports/run-report.json');
+
+export const FIXTURES_DIR = path.join(ROOT_DIR, 'fixtures');
+
+// Corrections of rows already stored, see changelog.ts
+export const CHANGELOG_FILE = path.join(ROOT_DIR, '../data/changelog.jsonl');
+
+// Price alert rules checked after each crawl, and the feed of triggered alerts read by the dashboard
+export const ALERT_RULES_FILE = path.join(ROOT_DIR, 'alert-rules.json');
+export const ALERT_FEED_FILE = path.join(DATA_DIR, 'alerts.json');
+export const ALERT_FEED_LIMIT = 200;
+
+// Triggered alerts are also posted here when set, overriding the webhook of the rules file
+export const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || undefined;
+
+// Look back this many days to cover any recent gaps
+export const LOOKBACK_DAYS = 14;
+
+// Days this recent are queried again even when stored, to pick up corrections at the source
+export const RECHECK_DAYS = 3;
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Catalogue } from './catalogue';
+import { FIXTURES_DIR } from './config';
+import { crawl } from './crawl';
+import { buildRunReport, exitCodeFor } from './report';
+import { FixtureTransport, type HttpResponse } from './transport';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+const catalogue: Catalogue = {
+    groups: [{ id: 'vegetables_fv', label: '辣椒', category: 'vegetable', codePrefixes: ['FV'] }]
+};
+
+describe('crawl against recorded Price1 pages', () => {
+    it('detects markets and collects validated FV rows', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        const result = await crawl({ transport, catalogue, dates: ['114/11/26', '114/11/25'], politeDelay: 0 });
+
+        expect(result.markets).toEqual([{ val: '1', txt: '一市' }, { val: '2', txt: '二市' }]);
+        expect(result.records.map(r => `${r.Market} ${r.Variety}`)).toEqual([
+            '一市 其他', '一市 紅小', '一市 糯米椒', '二市 紅小', '二市 青小'
+        ]);
+        expect(result.records[1]).toEqual({
+            Date: '114/11/26', Market: '一市', Code: 'FV1', Name: '辣椒', Variety: '紅小',
+            High: 162.3, Mid: 90.4, Low: 48.2, Avg: 96.3, Volume: 979
+        });
+        expect(result.records[2].Volume).toBe(1663);
+    });
+
+    it('quarantines rows that break the price invariants', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        const { quarantined } = await crawl({ transport, catalogue, dates: ['114/11/26'], politeDelay: 0 });
+
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0]).toMatchObject({ Code: 'FV4', Variety: '朝天椒' });
+        expect(quarantined[0].Reason).toContain('Low 194.1 > Mid 150.9');
+    });
+
+    it('carries the ASP.NET form state and cookies from one query to the next', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        await crawl({ transport, catalogue, dates: ['114/11/26'], politeDelay: 0 });
+
+        const posts = transport.requests.filter(r => r.method === 'POST');
+        expect(posts).toHaveLength(2);
+        expect(posts[0].form?.get('__VIEWSTATE')).toBe('vs-initial');
+        expect(posts[0].form?.get('ctl00$ContentPlaceHolder1$DDL_Market')).toBe('1');
+        expect(posts[1].form?.get('__VIEWSTATE')).toBe('vs-1141126-1');
+        expect(posts[1].form?.get('__EVENTVALIDATION')).toBe('ev-1141126-1');
+    });
+
+    it('collects every product group of the catalogue from the markets it lists', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        const { records } = await crawl({
+            transport,
+            catalogue: {
+                markets: ['一市'],
+                groups: [
+                    ...catalogue.groups,
+                    { id: 'vegetables_cabbage', label: '甘藍', category: 'vegetable', codePrefixes: ['LA'] }
+                ]
+            },
+            dates: ['114/11/26'],
+            politeDelay: 0
+        });
+
+        expect(records.map(r => r.Code)).toEqual(['FV0', 'FV1', 'FV6', 'LA1']);
+        expect(records[3]).toMatchObject({ Name: '甘藍', Volume: 52310 });
+        expect(transport.requests.filter(r => r.method === 'POST')).toHaveLength(1);
+    });
+
+    it('skips dates a product group already has', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        const { records } = await crawl({
+            transport, catalogue, dates: ['114/11/26'], politeDelay: 0, isPending: () => false
+        });
+
+        expect(records).toEqual([]);
+        expect(transport.requests.filter(r => r.method === 'POST')).toHaveLength(0);
+    });
+
+    it('reports days without trading and honours shouldQuery', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        const done: string[] = [];
+        await crawl({
+            transport,
+            catalogue,
+            dates: ['114/11/26', '114/11/25'],
+            politeDelay: 0,
+            shouldQuery: q => q.market.val === '1',
+            onQuery: (q, res) => done.push(`${q.rocDate} ${q.market.txt} ${res.tradingDay}`)
+        });
+
+        expect(done).toEqual(['114/11/26 一市 true', '114/11/25 一市 false']);
+    });
+
+    it('stops before the next query once aborted', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        const controller = new AbortController();
+        const { records } = await crawl({
+            transport,
+            catalogue,
+            dates: ['114/11/26'],
+            politeDelay: 0,
+            signal: controller.signal,
+            onQuery: () => controller.abort()
+        });
+
+        expect(records.every(r => r.Market === '一市')).toBe(true);
+        expect(transport.requests.filter(r => r.method === 'POST')).toHaveLength(1);
+    });
+});
+
+// Answers the first `count` POSTs with `response` before serving the fixtures
+class FlakyTransport extends FixtureTransport {
+    constructor(private count: number, private readonly response: HttpResponse) {
+        super(FIXTURES_DIR);
+    }
+
+    async post(url: string, form: URLSearchParams) {
+        if (this.count-- > 0) {
+            this.requests.push({ method: 'POST', url, form });
+            return this.response;
+        }
+        return super.post(url, form);
+    }
+}
+
+const retry = { retries: 2, baseDelay: 0 };
+
+describe('crawl resilience', () => {
+    it('retries failed queries with backoff', async () => {
+        const transport = new FlakyTransport(2, { status: 503, body: 'Service Unavailable', setCookie: [] });
+        const result = await crawl({ transport, catalogue, dates: ['114/11/26'], politeDelay: 0, retry });
+
+        expect(result.failures).toEqual([]);
+        expect(result.stats).toMatchObject({ queries: 2, retries: 2, sessionRefreshes: 0 });
+        expect(result.records).toHaveLength(5);
+    });
+
+    it('refreshes the session when the server rejects stale state', async () => {
+        const transport = new FlakyTransport(1, {
+            status: 500,
+            body: '<h2>Validation of viewstate MAC failed.</h2>',
+            setCookie: []
+        });
+        const result = await crawl({ transport, catalogue, dates: ['114/11/26'], politeDelay: 0, retry });
+
+        expect(result.stats.sessionRefreshes).toBe(1);
+        expect(transport.requests.filter(r => r.method === 'GET')).toHaveLength(2);
+        expect(result.failures).toEqual([]);
+    });
+
+    it('reports queries that keep failing and marks the run degraded', async () => {
+        const transport = new FlakyTransport(3, { status: 502, body: 'Bad Gateway', setCookie: [] });
+        const result = await crawl({ transport, catalogue, dates: ['114/11/26'], politeDelay: 0, retry });
+
+        expect(result.failures).toEqual([{
+            rocDate: '114/11/26', market: '一市', category: 'vegetable', error: 'POST https://www.tapmc.com.tw/Pages/Trans/Price1 returned 502', attempts: 3
+        }]);
+
+        const report = buildRunReport('crawl', new Date(), 1, result);
+        expect(report).toMatchObject({
+            status: 'degraded',
+            datesAttempted: ['114/11/26'],
+            rowsPerMarket: { 一市: 0, 二市: 2 },
+            quarantined: 0
+        });
+        expect(exitCodeFor(report)).toBe(2);
+    });
+
+    it('fails the run when the initial page cannot be fetched', async () => {
+        const transport = new FixtureTransport(FIXTURES_DIR);
+        transport.get = async () => ({ status: 503, body: '', setCookie: [] });
+
+        const error = await crawl({ transport, catalogue, dates: ['114/11/26'], politeDelay: 0, retry }).catch(e => e);
+        const report = buildRunReport('crawl', new Date(), 1, error);
+        expect(report.status).toBe('failed');
+        expect(exitCodeFor(report)).toBe(1);
+    });
+});
@@ -0,0 +1,184 @@
+import { CATEGORY_CODES, groupMarkets, type Catalogue, type Category, type ProductGroup } from './catalogue';
+import { DEFAULT_MARKETS, parsePriceTable, type MarketOption, type QuarantinedRecord } from './page';
+import { withRetry, RetryError, type RetryOptions } from './retry';
+import { PriceSession, StaleSessionError } from './session';
+import { toDataPoint } from './validate';
+import type { DataPoint } from './shared';
+import type { HttpTransport } from './transport';
+
+export interface CrawlQuery {
+    rocDate: string;
+    market: MarketOption;
+    category: Category;
+}
+
+export interface QueryResult {
+    records: DataPoint[];
+    quarantined: QuarantinedRecord[];
+    // False when the market had no trading in the category that day
+    tradingDay: boolean;
+}
+
+export interface CrawlOptions {
+    transport: HttpTransport;
+    catalogue: Catalogue;
+    // ROC dates to query, in the order they should be crawled
+    dates: string[];
+    // Whether a product group still needs data for a date in a market, defaults to always
+    isPending?: (rocDate: string, group: ProductGroup, market: string) => boolean;
+    // Whether a market/category pair should be queried on a date, defaults to always
+    shouldQuery?: (query: CrawlQuery) => boolean;
+    // Called after every successful query, e.g. to persist progress
+    onQuery?: (query: CrawlQuery, result: QueryResult) => void;
+    // Stops the crawl before the next query once aborted
+    signal?: AbortSignal;
+    // Base delay between queries in ms, a random amount up to the same again is added
+    politeDelay?: number;
+    // Backoff of failed requests, the initial GET included
+    retry?: Omit<RetryOptions, 'onRetry'>;
+}
+
+export interface QueryFailure {
+    rocDate: string;
+    market: string;
+    category: Category;
+    error: string;
+    attempts: number;
+}
+
+export interface CrawlStats {
+    // Dates at least one query was sent for
+    datesAttempted: string[];
+    queries: number;
+    retries: number;
+    sessionRefreshes: number;
+}
+
+export interface CrawlResult {
+    markets: MarketOption[];
+    records: DataPoint[];
+    quarantined: QuarantinedRecord[];
+    // Queries that still failed after all retries
+    failures: QueryFailure[];
+    stats: CrawlStats;
+}
+
+// Helper to delay
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Pick the detected markets a group should be queried in
+function marketsFor(catalogue: Catalogue, group: ProductGroup, detected: MarketOption[]) {
+    const names = groupMarkets(catalogue, group);
+    return names ? detected.filter(m => names.includes(m.txt)) : detected;
+}
+
+export async function crawl(options: CrawlOptions): Promise<CrawlResult> {
+    const { transport, catalogue, dates, isPending = () => true, shouldQuery = () => true, onQuery, signal, politeDelay = 1000, retry } = options;
+    const session = new PriceSession(transport);
+    const stats: CrawlStats = { datesAttempted: [], queries: 0, retries: 0, sessionRefreshes: 0 };
+
+    console.log("Fetching initial page...");
+    let markets = await withRetry(() => session.open(), {
+        ...retry,
+        onRetry: (err, attempt, wait) => {
+            stats.retries++;
+            console.warn(`  Initial fetch failed (${err.message}), retry ${attempt} in ${Math.round(wait)}ms`);
+        }
+    });
+    if (markets.length === 0) {
+        console.log("Warning: No markets detected, using defaults.");
+        markets = DEFAULT_MARKETS;
+    }
+    console.log("Target Markets:", markets);
+
+    for (const name of new Set(catalogue.groups.flatMap(g => groupMarkets(catalogue, g) || []))) {
+        if (!markets.some(m => m.txt === name)) {
+            console.warn(`Warning: Market ${name} from the catalogue is not listed on the page.`);
+        }
+    }
+
+    const records: DataPoint[] = [];
+    const quarantined: QuarantinedRecord[] = [];
+    const failures: QueryFailure[] = [];
+    const done = () => ({ markets, records, quarantined, failures, stats });
+
+    for (const rocDate of dates) {
+        // One query per market and category returns every product in it,
+        // so group the wanted code prefixes by what has to be queried
+        const queries = new Map<string, { market: MarketOption; category: Category; prefixes: string[] }>();
+        for (const group of catalogue.groups) {
+            for (const market of marketsFor(catalogue, group, markets)) {
+                if (!isPending(rocDate, group, market.txt)) continue;
+                if (!shouldQuery({ rocDate, market, category: group.category })) continue;
+                const key = `${market.val}|${group.category}`;
+                if (!queries.has(key)) {
+                    queries.set(key, { market, category: group.category, prefixes: [] });
+                }
+                queries.get(key)!.prefixes.push(...group.codePrefixes);
+            }
+        }
+        if (queries.size === 0) continue;
+        console.log(`Processing ${rocDate}...`);
+
+        for (const { market, category, prefixes } of queries.values()) {
+            if (signal?.aborted) {
+                console.log("Crawl aborted.");
+                return done();
+            }
+            if (politeDelay > 0) {
+                await delay(politeDelay + Math.random() * politeDelay);
+            }
+
+            if (stats.datesAttempted[stats.datesAttempted.length - 1] !== rocDate) {
+                stats.datesAttempted.push(rocDate);
+            }
+            stats.queries++;
+
+            let result: QueryResult;
+            try {
+                const html = await withRetry(() => session.query(rocDate, market.val, CATEGORY_CODES[category]!), {
+                    ...retry,
+                    onRetry: async (err, attempt, wait) => {
+                        stats.retries++;
+                        console.warn(`  Retry ${attempt} of ${market.txt} on ${rocDate} in ${Math.round(wait)}ms: ${err.message}`);
+                        if (err instanceof StaleSessionError) {
+                            console.warn("  Refreshing session...");
+                            stats.sessionRefreshes++;
+                            await session.open();
+                        }
+                    }
+                });
+                const table = parsePriceTable(html, rocDate, market.txt, prefixes);
+                result = {
+                    records: table.records.map(toDataPoint),
+                    quarantined: table.quarantined,
+                    tradingDay: table.rowCount > 0
+                };
+            } catch (err) {
+                console.error(`  Error querying ${market.txt} on ${rocDate}:`, (err as Error).message);
+                failures.push({
+                    rocDate,
+                    market: market.txt,
+                    category,
+                    error: (err instanceof RetryError ? err.cause : err as Error).message,
+                    attempts: err instanceof RetryError ? err.attempts : 1
+                });
+                continue;
+            }
+
+            if (result.quarantined.length > 0) {
+                console.warn(`  Market ${market.txt}: Quarantined ${result.quarantined.length} invalid ${category} records`);
+                quarantined.push(...result.quarantined);
+            }
+            if (result.records.length > 0) {
+                console.log(`  Market ${market.txt}: Found ${result.records.length} ${category} records (${prefixes.join(', ')})`);
+                records.push(...result.records);
+            } else if (!result.tradingDay) {
+                console.log(`  Market ${market.txt}: No ${category} trading`);
+            }
+            onQuery?.({ rocDate, market, category }, result);
+        }
+    }
+
+    return done();
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PriceDatabase } from './database';
+import { formatRows } from './db';
+import { NAMED_QUERIES } from './queries';
+import { makePoint } from './testing';
+
+// The database applies the variety taxonomy, which names FV1 rows 紅小, so 青小 needs its own code
+const point = (Date: string, Market: string, Variety: string, Avg: number, Volume: number) =>
+    makePoint({ Date, Market, Code: Variety === '青小' ? 'FV2' : 'FV1', Variety, Avg, Volume, spread: 20 });
+
+let db: PriceDatabase;
+beforeEach(() => {
+    db = PriceDatabase.open(':memory:');
+});
+afterEach(() => {
+    db.close();
+});
+
+describe('PriceDatabase', () => {
+    it('upserts rows keyed by date, market, code and variety', () => {
+        db.upsert([point('114/11/24', '二市', '紅小', 80, 100), point('114/11/24', '一市', '紅小', 90, 100)]);
+        db.upsert([point('114/11/24', '二市', '紅小', 85, 120)]);
+
+        expect(db.size()).toBe(2);
+        expect(db.select({ market: '二市' })).toEqual([{
+            Date: '114/11/24', Market: '二市', Code: 'FV1', Name: '辣椒', Variety: '紅小',
+            High: 105, Mid: 85, Low: 65, Avg: 85, Volume: 120
+        }]);
+
+        db.rebuild([point('114/11/25', '一市', '青小', 60, 10)]);
+        expect(db.select().map(r => r.Date)).toEqual(['114/11/25']);
+    });
+
+    it('stores a variety listed under an alias once', () => {
+        db.upsert([
+            makePoint({ Code: 'FV91', Variety: '進口', Avg: 80, Volume: 10 }),
+            makePoint({ Code: 'FV91', Variety: '進口紅小', Avg: 80, Volume: 10 })
+        ]);
+        expect(db.select()).toEqual([expect.objectContaining({ Code: 'FV91', Variety: '進口紅小', Volume: 10 })]);
+    });
+
+    it('runs named queries with their default parameters', () => {
+        db.upsert([
+            // Monday and Tuesday, the older Monday is outside the last 90 days
+            point('114/08/18', '二市', '紅小', 500, 100),
+            point('114/11/24', '二市', '紅小', 80, 100),
+            point('114/11/17', '二市', '紅小', 40, 300),
+            point('114/11/25', '二市', '紅小', 60, 0),
+            point('114/11/25', '二市', '青小', 99, 50)
+        ]);
+        const { sql, params } = NAMED_QUERIES['weekday-average'];
+        expect(db.query(sql, params)).toEqual([
+            { Weekday: 1, Days: 2, Avg: 50, DailyVolume: 200 },
+            { Weekday: 2, Days: 1, Avg: 60, DailyVolume: 0 }
+        ]);
+    });
+});
+
+describe('db CLI', () => {
+    it('formats rows', () => {
+        expect(formatRows([{ Month: '2025-11', Avg: 55 }], 'csv')).toBe('Month,Avg\n2025-11,55\n');
+    });
+});
@@ -0,0 +1,119 @@
+// Local SQLite copy of the price history for ad-hoc analysis.
+// The CSV datasets stay the source of truth, the database can always be rebuilt from them.
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DATASET_COLUMNS, DATASET_SCHEMA_VERSION, normalizeVarieties, rocToIso, type DataPoint } from './shared';
+
+// Rows keep the dataset columns, plus the ISO date for range and weekday queries
+const SCHEMA = `
+    CREATE TABLE prices (
+        Date TEXT NOT NULL,
+        ISODate TEXT NOT NULL,
+        Market TEXT NOT NULL,
+        Code TEXT NOT NULL,
+        Name TEXT NOT NULL,
+        Variety TEXT NOT NULL,
+        High REAL NOT NULL,
+        Mid REAL NOT NULL,
+        Low REAL NOT NULL,
+        Avg REAL NOT NULL,
+        Volume REAL NOT NULL,
+        PRIMARY KEY (Date, Market, Code, Variety)
+    );
+    CREATE INDEX prices_iso_date ON prices (ISODate);
+`;
+
+// Revision of the table contents within the dataset schema version, bumped when stored rows change
+// meaning so an existing database is rebuilt: 1 stores varieties renamed by the taxonomy
+const TABLE_REVISION = 1;
+const USER_VERSION = DATASET_SCHEMA_VERSION * 100 + TABLE_REVISION;
+
+export type Row = Record<string, unknown>;
+
+// Narrows an export, dates are ISO and inclusive
+export interface RowFilter {
+    from?: string;
+    to?: string;
+    market?: string;
+    code?: string;
+    name?: string;
+    variety?: string;
+}
+
+export class PriceDatabase {
+    private constructor(private readonly db: Database.Database) {
+        // The database only mirrors the CSVs, so an outdated schema is dropped rather than migrated
+        if (db.pragma('user_version', { simple: true }) !== USER_VERSION) {
+            db.exec('DROP TABLE IF EXISTS prices');
+        }
+        const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'prices'").get();
+        if (!exists) {
+            db.exec(SCHEMA);
+            db.pragma(`user_version = ${USER_VERSION}`);
+        }
+    }
+
+    // Opens or creates the database, ':memory:' works too
+    static open(file: string) {
+        if (file !== ':memory:') {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+        }
+        return new PriceDatabase(new Database(file));
+    }
+
+    size() {
+        return (this.db.prepare('SELECT count(*) AS n FROM prices').get() as { n: number }).n;
+    }
+
+    // Inserts new rows and overwrites rows with the same (Date, Market, Code, Variety).
+    // Rows are stored as the dashboard reads them, with the variety taxonomy applied, so
+    // duplicates listed under a variety alias don't count twice in the volume-weighted queries.
+    upsert(points: DataPoint[]) {
+        const insert = this.db.prepare(`
+            INSERT INTO prices (Date, ISODate, Market, Code, Name, Variety, High, Mid, Low, Avg, Volume)
+            VALUES (@Date, @ISODate, @Market, @Code, @Name, @Variety, @High, @Mid, @Low, @Avg, @Volume)
+            ON CONFLICT (Date, Market, Code, Variety) DO UPDATE SET
+                Name = excluded.Name, High = excluded.High, Mid = excluded.Mid,
+                Low = excluded.Low, Avg = excluded.Avg, Volume = excluded.Volume
+        `);
+        this.db.transaction((rows: DataPoint[]) => {
+            for (const p of rows) {
+                insert.run({ ...p, ISODate: rocToIso(p.Date) });
+            }
+        })(normalizeVarieties(points));
+    }
+
+    // Replaces every row, e.g. with the full CSV history
+    rebuild(points: DataPoint[]) {
+        this.db.transaction(() => {
+            this.db.exec('DELETE FROM prices');
+            this.upsert(points);
+        })();
+    }
+
+    query(sql: string, params: Record<string, unknown> = {}): Row[] {
+        return this.db.prepare(sql).all(params) as Row[];
+    }
+
+    // Rows in the dataset column layout, oldest first
+    select(filter: RowFilter = {}): Row[] {
+        const conditions = [
+            filter.from && 'ISODate >= @from',
+            filter.to && 'ISODate <= @to',
+            filter.market && 'Market = @market',
+            filter.code && 'Code = @code',
+            filter.name && 'Name = @name',
+            filter.variety && 'Variety = @variety'
+        ].filter(Boolean);
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        return this.query(
+            `SELECT ${DATASET_COLUMNS.join(', ')} FROM prices ${where} ORDER BY ISODate, Market, Code, Variety`,
+            filter as Record<string, unknown>
+        );
+    }
+
+    close() {
+        this.db.close();
+    }
+}
@@ -0,0 +1,106 @@
+// Query the local SQLite copy of the price history.
+//
+// Usage: npm run db -- <command> [--option=value ...]
+//   rebuild                          recreate the database from the CSV datasets
+//   list                             show the named queries and their parameters
+//   query <name> [--<param>=value]   run a named query, see queries.ts
+//   export [--from] [--to] [--market] [--code] [--name] [--variety]
+//                                    rows in the dataset CSV layout, dates ROC or ISO
+// query and export print a table, or write CSV/JSON with --format=csv|json and --out=file.
+import { fileURLToPath } from 'url';
+import { stringify } from 'csv-stringify/sync';
+import { loadCatalogue } from './catalogue';
+import { parseNumberArg, parseOptions, runMain } from './cli';
+import { DATABASE_FILE } from './config';
+import { PriceDatabase, type Row, type RowFilter } from './database';
+import { NAMED_QUERIES } from './queries';
+import { rocToIso } from './shared';
+import { DatasetStore, writeFileAtomic } from './storage';
+
+const USAGE = 'Usage: npm run db -- <rebuild | list | query <name> | export> [--option=value ...]';
+
+type Format = 'table' | 'csv' | 'json';
+
+export function formatRows(rows: Row[], format: Exclude<Format, 'table'>) {
+    if (format === 'json') {
+        return JSON.stringify(rows, null, 2) + '\n';
+    }
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    return stringify(rows, { header: true, columns });
+}
+
+function output(rows: Row[], options: Record<string, string>) {
+    const format = (options.format || (options.out?.endsWith('.json') ? 'json' : options.out ? 'csv' : 'table')) as Format;
+    if (!['table', 'csv', 'json'].includes(format)) {
+        throw new Error(`Unknown format: ${format} (expected table, csv or json)`);
+    }
+
+    if (options.out) {
+        writeFileAtomic(options.out, formatRows(rows, format === 'table' ? 'csv' : format));
+        console.log(`${rows.length} rows saved to ${options.out}`);
+    } else if (format === 'table') {
+        console.table(rows);
+    } else {
+        process.stdout.write(formatRows(rows, format));
+    }
+}
+
+const isoDate = (value: string | undefined) => (value && value.includes('/') ? rocToIso(value) : value);
+
+function main() {
+    const { options, positional } = parseOptions(process.argv.slice(2));
+    const [command, name] = positional;
+    const db = PriceDatabase.open(options.db || DATABASE_FILE);
+
+    try {
+        if ((command === 'query' || command === 'export') && db.size() === 0) {
+            console.warn('Warning: The database is empty, run "npm run db -- rebuild" first.');
+        }
+        switch (command) {
+            case 'rebuild': {
+                const catalogue = loadCatalogue();
+                const store = new DatasetStore(catalogue.groups);
+                db.rebuild(catalogue.groups.flatMap(g => store.points(g)));
+                console.log(`Rebuilt ${db.size()} rows from ${catalogue.groups.length} datasets.`);
+                break;
+            }
+            case 'list':
+                for (const [queryName, query] of Object.entries(NAMED_QUERIES)) {
+                    const params = Object.entries(query.params).map(([k, v]) => `--${k}=${v}`).join(' ');
+                    console.log(`${queryName} ${params}\n    ${query.description}`);
+                }
+                break;
+            case 'query': {
+                const query = name ? NAMED_QUERIES[name] : undefined;
+                if (!query) {
+                    throw new Error(`Unknown query: ${name} (run "list" for the named queries)`);
+                }
+                const params = Object.fromEntries(Object.entries(query.params).map(([k, v]) =>
+                    [k, options[k] === undefined ? v : typeof v === 'number' ? parseNumberArg(`--${k}`, options[k]) : options[k]]
+                ));
+                output(db.query(query.sql, params), options);
+                break;
+            }
+            case 'export': {
+                const filter: RowFilter = {
+                    from: isoDate(options.from),
+                    to: isoDate(options.to),
+                    market: options.market,
+                    code: options.code,
+                    name: options.name,
+                    variety: options.variety
+                };
+                output(db.select(filter), options);
+                break;
+            }
+            default:
+                throw new Error(`Unknown command: ${command} (expected rebuild, list, query or export)`);
+        }
+    } finally {
+        db.close();
+    }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    runMain(main, USAGE);
+}
@@ -0,0 +1,102 @@
+import './polyfills';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { loadCatalogue } from './catalogue';
+import { runMain } from './cli';
+import { DATABASE_FILE, DATASET_INDEX_FILE, DATASET_VERSION_FILE, LOOKBACK_DAYS, RECHECK_DAYS } from './config';
+import { crawl } from './crawl';
+import { checkAlerts } from './alerts';
+import { appendChangeLog } from './changelog';
+import { PriceDatabase } from './database';
+import { appendQuarantine } from './quarantine';
+import { buildRunReport, exitCodeFor, writeRunReport } from './report';
+import { dateToRoc } from './shared';
+import { DatasetStore, writeDatasetIndex, writeDatasetVersion } from './storage';
+import { NoTradingDays, isSettled } from './tradingDays';
+import { FixtureTransport, createTransport } from './transport';
+
+// Usage: npm start -- [--fixtures[=dir]]
+async function main() {
+    const startedAt = new Date();
+    const args = process.argv.slice(2);
+    const transport = createTransport(args);
+    const catalogue = loadCatalogue();
+    const noTrading = new NoTradingDays();
+
+    // 1. Read existing data, one dataset per product group
+    const store = new DatasetStore(catalogue.groups);
+    for (const group of catalogue.groups) {
+        console.log(`Loaded ${store.days(group)} days of ${group.label} (${group.id}).`);
+    }
+
+    // 2. Crawl Data, starting from today and looking back to cover any recent gaps
+    const dates: string[] = [];
+    const currentDate = new Date();
+    for (let i = 0; i <= LOOKBACK_DAYS; i++) {
+        dates.push(dateToRoc(currentDate));
+        currentDate.setDate(currentDate.getDate() - 1);
+    }
+    const recheck = new Set(dates.slice(0, RECHECK_DAYS));
+
+    let result;
+    try {
+        result = await crawl({
+            transport,
+            catalogue,
+            dates,
+            isPending: (rocDate, group, market) => recheck.has(rocDate) || !store.has(group, rocDate, market),
+            shouldQuery: q => !noTrading.has(q.rocDate, q.market.txt, q.category),
+            onQuery: (q, res) => {
+                if (!res.tradingDay && isSettled(q.rocDate)) {
+                    noTrading.add(q.rocDate, q.market.txt, q.category);
+                }
+            },
+            politeDelay: transport instanceof FixtureTransport ? 0 : 1000,
+            retry: transport instanceof FixtureTransport ? { baseDelay: 0 } : undefined
+        });
+    } catch (e) {
+        console.error("Initial fetch failed:", (e as Error).message);
+        const report = buildRunReport('crawl', startedAt, dates.length, e as Error);
+        writeRunReport(report);
+        process.exitCode = exitCodeFor(report);
+        return;
+    }
+
+    appendQuarantine(result.quarantined);
+    const upsert = store.upsert(result.records);
+    console.log(`Rows: ${upsert.added} added, ${upsert.updated} corrected, ${upsert.unchanged} unchanged.`);
+    appendChangeLog(upsert.changes);
+    for (const group of catalogue.groups) {
+        if (store.rows(group) === 0 && result.records.length > 0) {
+            console.warn(`Warning: No ${group.label} rows matched code prefixes ${group.codePrefixes.join(', ')}.`);
+        }
+    }
+
+    // 3. Sort and Write
+    console.log("Writing sorted data to files...");
+    store.save();
+    const index = writeDatasetIndex(DATASET_INDEX_FILE, store);
+    writeDatasetVersion(DATASET_VERSION_FILE, DATASET_INDEX_FILE, index);
+    noTrading.save();
+    console.log(`Done. Data saved to ${path.dirname(DATASET_INDEX_FILE)}`);
+
+    // 4. Mirror into the local database, filled with the whole history the first time
+    const db = PriceDatabase.open(DATABASE_FILE);
+    db.upsert(db.size() === 0 ? catalogue.groups.flatMap(g => store.points(g)) : result.records);
+    db.close();
+
+    // 5. Check the alert rules against the updated data
+    try {
+        await checkAlerts(store.normalizedPoints());
+    } catch (e) {
+        console.error("Alert check failed:", (e as Error).message);
+    }
+
+    const report = buildRunReport('crawl', startedAt, dates.length, result);
+    writeRunReport(report);
+    process.exitCode = exitCodeFor(report);
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    runMain(main);
+}
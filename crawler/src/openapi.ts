@@ -0,0 +1,108 @@
+// OpenAPI description of the price API, served at /openapi.json
+import { GRANULARITIES } from './shared';
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+const error = (description: string) => ({
+    description,
+    content: {
+        'application/json': {
+            schema: { type: 'object', properties: { error: { type: 'string' } }, required: ['error'] }
+        }
+    }
+});
+
+const ok = (description: string, schema: object) => ({
+    description,
+    headers: { ETag: { schema: { type: 'string' }, description: 'Send back as If-None-Match to get a 304 while unchanged' } },
+    content: { 'application/json': { schema } }
+});
+
+const notModified = { description: 'Unchanged since the ETag in If-None-Match' };
+
+const dateParam = (name: string, description: string) => ({
+    name,
+    in: 'query',
+    description: `${description}, ROC (114/11/26) or ISO (2025-11-26)`,
+    schema: { type: 'string' }
+});
+
+export const OPENAPI = {
+    openapi: '3.0.3',
+    info: {
+        title: 'Market price API',
+        version: '1.0.0',
+        description: 'Read-only access to the wholesale prices crawled from the Taipei Agricultural Products Marketing Corporation.'
+    },
+    paths: {
+        '/markets': {
+            get: {
+                summary: 'Markets with prices',
+                responses: { 200: ok('Market names', stringList), 304: notModified }
+            }
+        },
+        '/products': {
+            get: {
+                summary: 'Products with prices',
+                responses: { 200: ok('Product names, e.g. 辣椒', stringList), 304: notModified }
+            }
+        },
+        '/products/{name}/varieties': {
+            get: {
+                summary: 'Varieties of a product',
+                parameters: [{ name: 'name', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: { 200: ok('Variety names, e.g. 紅小', stringList), 304: notModified, 404: error('Unknown product') }
+            }
+        },
+        '/prices': {
+            get: {
+                summary: 'Volume-weighted prices of a product in a market, per day, week, month, quarter or year',
+                parameters: [
+                    { name: 'market', in: 'query', required: true, schema: { type: 'string' } },
+                    { name: 'product', in: 'query', required: true, schema: { type: 'string' } },
+                    {
+                        name: 'variety',
+                        in: 'query',
+                        description: 'Repeat or comma separate for several, all varieties of the product by default',
+                        schema: stringList,
+                        style: 'form',
+                        explode: true
+                    },
+                    dateParam('from', 'First date included'),
+                    dateParam('to', 'Last date included'),
+                    { name: 'granularity', in: 'query', schema: { type: 'string', enum: GRANULARITIES, default: 'day' } }
+                ],
+                responses: {
+                    200: ok('One entry per period, oldest first', { type: 'array', items: { $ref: '#/components/schemas/AggregatedPoint' } }),
+                    304: notModified,
+                    400: error('Missing or invalid parameters'),
+                    404: error('Unknown product')
+                }
+            }
+        },
+        '/openapi.json': {
+            get: {
+                summary: 'This description',
+                responses: { 200: { description: 'OpenAPI document' } }
+            }
+        }
+    },
+    components: {
+        schemas: {
+            AggregatedPoint: {
+                type: 'object',
+                description: 'Every requested variety adds its average price (null without trading) and a <variety>_Volume property',
+                properties: {
+                    Date: { type: 'string', description: 'ROC period label, 114/11/26, 114/11 or 114' },
+                    ISODate: { type: 'string', description: 'First day of the period' },
+                    Market: { type: 'string' },
+                    Name: { type: 'string' },
+                    Avg: { type: 'integer', description: 'Volume-weighted average price over the varieties' },
+                    Volume: { type: 'integer' }
+                },
+                required: ['Date', 'ISODate', 'Market', 'Name', 'Avg', 'Volume'],
+                additionalProperties: { type: 'number', nullable: true }
+            }
+        }
+    }
+};
@@ -0,0 +1,98 @@
+// Parsing of the ASP.NET Price1 page: hidden form state, market options and the price table
+import * as cheerio from 'cheerio';
+import { TABLE_FIELDS, isHeaderRow, mapColumns, validateRecord, type ColumnMapping, type RawRecord } from './validate';
+
+export interface FormState {
+    viewstate: string;
+    viewstateGenerator: string;
+    eventValidation: string;
+}
+
+export interface MarketOption {
+    val: string;
+    txt: string;
+}
+
+export interface QuarantinedRecord extends RawRecord {
+    Reason: string;
+}
+
+export interface PriceTable {
+    records: RawRecord[];
+    quarantined: QuarantinedRecord[];
+    // Data rows in the table whatever their code, 0 when there was no trading
+    rowCount: number;
+}
+
+export const DEFAULT_MARKETS: MarketOption[] = [
+    { val: '1', txt: '一市' },
+    { val: '2', txt: '二市' }
+];
+
+// Missing fields fall back to the previous state, the page doesn't always send them back
+export function parseFormState(html: string, previous?: FormState): FormState {
+    const $ = cheerio.load(html);
+    return {
+        viewstate: $('input[name="__VIEWSTATE"]').val() as string || previous?.viewstate || '',
+        viewstateGenerator: $('input[name="__VIEWSTATEGENERATOR"]').val() as string || previous?.viewstateGenerator || '',
+        eventValidation: $('input[name="__EVENTVALIDATION"]').val() as string || previous?.eventValidation || ''
+    };
+}
+
+export function parseMarkets(html: string): MarketOption[] {
+    const $ = cheerio.load(html);
+    let marketSelect = $('select[name$="DDL_Market"]');
+    if (marketSelect.length === 0) {
+        marketSelect = $('#ctl00_ContentPlaceHolder1_DDL_Market');
+    }
+
+    const markets: MarketOption[] = [];
+    marketSelect.find('option').each((_, el) => {
+        const val = $(el).val() as string | undefined;
+        const txt = $(el).text().trim();
+        if (val && val !== '0') {
+            markets.push({ val, txt });
+        }
+    });
+    return markets;
+}
+
+// Parse the price table, locating columns by header text. Only rows whose code starts
+// with one of the prefixes are kept; rows that break the invariants are quarantined.
+export function parsePriceTable(html: string, date: string, market: string, codePrefixes: string[]): PriceTable {
+    const $ = cheerio.load(html);
+    const records: RawRecord[] = [];
+    const quarantined: QuarantinedRecord[] = [];
+    let mapping: ColumnMapping | null = null;
+    let rowCount = 0;
+
+    $('table tr').each((_, row) => {
+        const cells = $(row).find('th, td').map((_, col) => $(col).text().trim()).get();
+        if (isHeaderRow(cells)) {
+            mapping = mapColumns(cells);
+            return;
+        }
+        if (!mapping) return;
+
+        const cols = $(row).find('td').map((_, col) => $(col).text().trim()).get();
+        if (cols.length === 0) return;
+        rowCount++;
+
+        const code = cols[mapping.Code] || '';
+        if (!codePrefixes.some(prefix => code.startsWith(prefix))) return;
+
+        const record = { Date: date, Market: market } as RawRecord;
+        for (const field of TABLE_FIELDS) {
+            record[field] = cols[mapping[field]] ?? '';
+        }
+
+        const reasons = validateRecord(record);
+        if (reasons.length > 0) {
+            quarantined.push({ ...record, Reason: reasons.join('; ') });
+        } else {
+            records.push(record);
+        }
+    });
+
+    return { records, quarantined, rowCount };
+}
@@ -0,0 +1,20 @@
+// undici (used by cheerio) expects the File global, which Node 18 does not expose
+import { Blob } from 'buffer';
+
+const globals = globalThis as Record<string, unknown>;
+
+if (typeof globals.Blob === 'undefined') {
+    globals.Blob = Blob;
+}
+if (typeof globals.File === 'undefined') {
+    globals.File = class File extends Blob {
+        name: string;
+        lastModified: number;
+
+        constructor(fileBits: ConstructorParameters<typeof Blob>[0], fileName: string, options?: { type?: string; lastModified?: number }) {
+            super(fileBits, options);
+            this.name = fileName;
+            this.lastModified = options?.lastModified || Date.now();
+        }
+    };
+}
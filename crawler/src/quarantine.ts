@@ -0,0 +1,20 @@
+import fs from 'fs';
+import path from 'path';
+import { stringify } from 'csv-stringify/sync';
+import { QUARANTINE_FILE } from './config';
+import type { QuarantinedRecord } from './page';
+
+export const QUARANTINE_HEADERS = ['Date', 'Market', 'Code', 'Name', 'Variety', 'High', 'Mid', 'Low', 'Avg', 'Volume', 'Reason', 'QuarantinedAt'] as const;
+
+export function appendQuarantine(records: QuarantinedRecord[], file: string = QUARANTINE_FILE) {
+    if (records.length === 0) return;
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const quarantinedAt = new Date().toISOString();
+    const rows = records.map(r => QUARANTINE_HEADERS.map(h => (h === 'QuarantinedAt' ? quarantinedAt : r[h] ?? '')));
+
+    if (!fs.existsSync(file)) {
+        fs.writeFileSync(file, stringify([[...QUARANTINE_HEADERS]]));
+    }
+    fs.appendFileSync(file, stringify(rows));
+}
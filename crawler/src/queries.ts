@@ -0,0 +1,65 @@
+// Named queries for the db CLI. Parameters are bound by name (@market), every
+// parameter needs a default so a query can run without arguments.
+// "Last N days" is counted back from the newest date in the database, not from today.
+
+export interface NamedQuery {
+    description: string;
+    params: Record<string, string | number>;
+    sql: string;
+}
+
+const LATEST_DATE = '(SELECT max(ISODate) FROM prices)';
+
+// Volume weighted, falls back to the simple mean when nothing was traded
+const WEIGHTED_AVG = 'round(coalesce(sum(Avg * Volume) / nullif(sum(Volume), 0), avg(Avg)), 1)';
+
+export const NAMED_QUERIES: Record<string, NamedQuery> = {
+    'weekday-average': {
+        description: 'Average price of a variety per weekday in a market over the last N days',
+        params: { market: '二市', variety: '紅小', days: 90 },
+        sql: `
+            SELECT CAST(strftime('%w', ISODate) AS INTEGER) AS Weekday,
+                   count(DISTINCT ISODate) AS Days,
+                   ${WEIGHTED_AVG} AS Avg,
+                   round(sum(Volume) / count(DISTINCT ISODate), 1) AS DailyVolume
+            FROM prices
+            WHERE Market = @market AND Variety = @variety
+              AND ISODate > date(${LATEST_DATE}, '-' || @days || ' days')
+            GROUP BY Weekday
+            ORDER BY Weekday`
+    },
+    'monthly-average': {
+        description: 'Monthly average price and volume of every variety in a market',
+        params: { market: '一市' },
+        sql: `
+            SELECT substr(ISODate, 1, 7) AS Month, Name, Variety,
+                   ${WEIGHTED_AVG} AS Avg,
+                   sum(Volume) AS Volume
+            FROM prices
+            WHERE Market = @market
+            GROUP BY Month, Name, Variety
+            ORDER BY Month, Name, Variety`
+    },
+    'latest': {
+        description: 'Prices of the newest trading day in a market',
+        params: { market: '一市' },
+        sql: `
+            SELECT Date, Code, Name, Variety, High, Mid, Low, Avg, Volume
+            FROM prices
+            WHERE Market = @market
+              AND ISODate = (SELECT max(ISODate) FROM prices WHERE Market = @market)
+            ORDER BY Code`
+    },
+    'market-volume': {
+        description: 'Total volume and average price of every variety per market over the last N days',
+        params: { days: 30 },
+        sql: `
+            SELECT Market, Name, Variety,
+                   sum(Volume) AS Volume,
+                   ${WEIGHTED_AVG} AS Avg
+            FROM prices
+            WHERE ISODate > date(${LATEST_DATE}, '-' || @days || ' days')
+            GROUP BY Market, Name, Variety
+            ORDER BY Market, Volume DESC`
+    }
+};
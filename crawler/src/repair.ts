@@ -0,0 +1,60 @@
+// One-off repair pass over the existing CSV history.
+// Rows breaking the price invariants are realigned when they were written with the legacy positional
+// column mapping, and moved to quarantine otherwise. Valid rows are left alone, so a second run changes
+// nothing. Rows repeating a (Date, Market, Code, Variety) key collapse into the first, as in the crawler.
+//
+// Usage: npm run repair -- [--dry-run] [file]
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { parse } from 'csv-parse/sync';
+import { runMain } from './cli';
+import { OUTPUT_FILE } from './config';
+import { appendQuarantine } from './quarantine';
+import { recordsToDataset, writeDataset } from './storage';
+import { remapLegacyRecord, validateRecord, type RawRecord } from './validate';
+import type { QuarantinedRecord } from './page';
+
+export function repairRecords(records: RawRecord[]) {
+    const kept: RawRecord[] = [];
+    const quarantined: QuarantinedRecord[] = [];
+    let realigned = 0;
+
+    for (const record of records) {
+        const reasons = validateRecord(record);
+        if (reasons.length === 0) {
+            kept.push(record);
+            continue;
+        }
+
+        const remapped = remapLegacyRecord(record);
+        if (validateRecord(remapped).length === 0) {
+            kept.push(remapped);
+            realigned++;
+        } else {
+            quarantined.push({ ...record, Reason: `repair: ${reasons.join('; ')}` });
+        }
+    }
+
+    return { kept, quarantined, realigned };
+}
+
+function main() {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const file = args.find(a => !a.startsWith('--')) || OUTPUT_FILE;
+
+    const records: RawRecord[] = parse(fs.readFileSync(file, 'utf-8'), { columns: true, skip_empty_lines: true });
+    const { kept, quarantined, realigned } = repairRecords(records);
+    const dataset = recordsToDataset(kept);
+
+    console.log(`Checked ${records.length} rows: ${records.length - realigned - quarantined.length} valid, ${realigned} realigned, ${quarantined.length} quarantined, ${kept.length - dataset.size} duplicates dropped.`);
+    if (dryRun) return;
+
+    writeDataset(file, dataset);
+    appendQuarantine(quarantined);
+    console.log(`Repaired data saved to ${file}`);
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    runMain(main);
+}
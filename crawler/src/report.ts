@@ -0,0 +1,86 @@
+// JSON summary of a crawl run, so a degraded daily job is visible instead of silently committing less data
+import fs from 'fs';
+import path from 'path';
+import { REPORT_FILE } from './config';
+import type { CrawlResult, QueryFailure } from './crawl';
+
+export type RunStatus = 'ok' | 'degraded' | 'failed';
+
+export interface RunReport {
+    command: string;
+    status: RunStatus;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    datesRequested: number;
+    datesAttempted: string[];
+    queries: number;
+    retries: number;
+    sessionRefreshes: number;
+    rowsPerMarket: Record<string, number>;
+    quarantined: number;
+    failures: QueryFailure[];
+    // Set when the run could not start at all, e.g. the initial GET kept failing
+    error?: string;
+}
+
+export function buildRunReport(command: string, startedAt: Date, datesRequested: number, outcome: CrawlResult | Error): RunReport {
+    const finishedAt = new Date();
+    const base = {
+        command,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        datesRequested
+    };
+
+    if (outcome instanceof Error) {
+        return {
+            ...base,
+            status: 'failed',
+            datesAttempted: [],
+            queries: 0,
+            retries: 0,
+            sessionRefreshes: 0,
+            rowsPerMarket: {},
+            quarantined: 0,
+            failures: [],
+            error: outcome.message
+        };
+    }
+
+    const rowsPerMarket: Record<string, number> = {};
+    for (const market of outcome.markets) {
+        rowsPerMarket[market.txt] = 0;
+    }
+    for (const record of outcome.records) {
+        rowsPerMarket[record.Market] = (rowsPerMarket[record.Market] || 0) + 1;
+    }
+
+    return {
+        ...base,
+        status: outcome.failures.length > 0 ? 'degraded' : 'ok',
+        ...outcome.stats,
+        rowsPerMarket,
+        quarantined: outcome.quarantined.length,
+        failures: outcome.failures
+    };
+}
+
+export function writeRunReport(report: RunReport, file: string = REPORT_FILE) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n');
+    console.log(`Run ${report.status}, report saved to ${file}`);
+}
+
+// Non-zero whenever the run did not fully succeed, so scheduled jobs visibly fail
+export function exitCodeFor(report: RunReport) {
+    switch (report.status) {
+        case 'failed':
+            return 1;
+        case 'degraded':
+            return 2;
+        default:
+            return 0;
+    }
+}
@@ -0,0 +1,39 @@
+export interface RetryOptions {
+    // Retries after the first attempt
+    retries?: number;
+    // Delay before the first retry in ms, doubled on every further retry
+    baseDelay?: number;
+    maxDelay?: number;
+    // Called before waiting for a retry, e.g. to log or repair state
+    onRetry?: (err: Error, attempt: number, wait: number) => void | Promise<void>;
+}
+
+export class RetryError extends Error {
+    constructor(readonly cause: Error, readonly attempts: number) {
+        super(`${cause.message} (after ${attempts} attempts)`);
+        this.name = 'RetryError';
+    }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs fn until it succeeds, waiting with exponential backoff (plus jitter) between attempts
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { retries = 3, baseDelay = 2000, maxDelay = 30000, onRetry } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (e) {
+            const err = e as Error;
+            if (attempt > retries) {
+                throw new RetryError(err, attempt);
+            }
+            const wait = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1)) * (1 + Math.random() * 0.2);
+            await onRetry?.(err, attempt, wait);
+            if (wait > 0) {
+                await delay(wait);
+            }
+        }
+    }
+}
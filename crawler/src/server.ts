@@ -0,0 +1,42 @@
+// Serves the price API over the dataset CSVs, reloading them whenever the crawler rewrites one.
+//
+// Usage: npm run serve   (PORT=3001 by default)
+import fs from 'fs';
+import http from 'http';
+import { fileURLToPath } from 'url';
+import { createApiHandler } from './api';
+import { datasetFile, loadCatalogue } from './catalogue';
+import { runMain } from './cli';
+import { API_PORT } from './config';
+import type { DataPoint } from './shared';
+import { DatasetStore } from './storage';
+
+// The datasets of all catalogue groups, re-read when a file's modification time changes
+function datasetSource() {
+    const catalogue = loadCatalogue();
+    const files = catalogue.groups.map(g => datasetFile(g));
+    let version = '';
+    let data: DataPoint[] = [];
+
+    return () => {
+        const current = files.map(f => (fs.existsSync(f) ? fs.statSync(f).mtimeMs : 0)).join('|');
+        if (current !== version) {
+            const store = new DatasetStore(catalogue.groups);
+            data = store.normalizedPoints();
+            version = current;
+            console.log(`Loaded ${data.length} rows from ${files.length} datasets.`);
+        }
+        return data;
+    };
+}
+
+function main() {
+    const server = http.createServer(createApiHandler(datasetSource()));
+    server.listen(API_PORT, () => {
+        console.log(`Price API listening on http://localhost:${API_PORT} (description at /openapi.json)`);
+    });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    runMain(main);
+}
@@ -0,0 +1,89 @@
+// Keeps the ASP.NET session (cookies + ViewState/EVENTVALIDATION) across Price1 queries
+import { BASE_URL, USER_AGENT } from './config';
+import { parseFormState, parseMarkets, type FormState, type MarketOption } from './page';
+import type { HttpResponse, HttpTransport } from './transport';
+
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+// The server no longer accepts our ViewState/EVENTVALIDATION or cookie, a fresh GET is needed
+export class StaleSessionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StaleSessionError';
+    }
+}
+
+const STALE_STATE_PATTERN = /viewstate|postback or callback argument|event validation/i;
+
+export class PriceSession {
+    private cookies = '';
+    private state: FormState | undefined;
+
+    constructor(private readonly transport: HttpTransport, private readonly url: string = BASE_URL) {}
+
+    // Initial GET to setup session, returns the markets listed on the page.
+    // Calling it again starts a fresh session.
+    async open(): Promise<MarketOption[]> {
+        this.cookies = '';
+        this.state = undefined;
+        const res = await this.transport.get(this.url, { 'User-Agent': USER_AGENT });
+        if (res.status >= 400) {
+            throw new HttpError(res.status, `GET ${this.url} returned ${res.status}`);
+        }
+        this.update(res);
+        return parseMarkets(res.body);
+    }
+
+    // Query the full-market prices of one ROC date, market and category (DDL_FV_Code), returns the page HTML
+    async query(rocDate: string, marketVal: string, fvCode: string): Promise<string> {
+        if (!this.state) {
+            throw new Error('Session not opened');
+        }
+
+        const formData = new URLSearchParams();
+        formData.append('__EVENTTARGET', '');
+        formData.append('__EVENTARGUMENT', '');
+        formData.append('__VIEWSTATE', this.state.viewstate);
+        formData.append('__VIEWSTATEGENERATOR', this.state.viewstateGenerator);
+        formData.append('__EVENTVALIDATION', this.state.eventValidation);
+        formData.append('ctl00$ContentPlaceHolder1$txtDate', rocDate);
+        formData.append('ctl00$ContentPlaceHolder1$DDL_Category', '2'); // Full market
+        formData.append('ctl00$ContentPlaceHolder1$DDL_Market', marketVal);
+        formData.append('ctl00$ContentPlaceHolder1$DDL_FV_Code', fvCode);
+        formData.append('ctl00$ContentPlaceHolder1$btnQuery', '查詢');
+
+        const res = await this.transport.post(this.url, formData, {
+            'Cookie': this.cookies,
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'User-Agent': USER_AGENT
+        });
+        this.check(res);
+        this.update(res);
+        return res.body;
+    }
+
+    private check(res: HttpResponse) {
+        if (res.status >= 500 && STALE_STATE_PATTERN.test(res.body)) {
+            throw new StaleSessionError(`Server rejected the session state (${res.status})`);
+        }
+        if (res.status >= 400) {
+            throw new HttpError(res.status, `POST ${this.url} returned ${res.status}`);
+        }
+        // An expired session is answered with an error page instead of the form
+        if (!/name="__VIEWSTATE"/.test(res.body)) {
+            throw new StaleSessionError('Response has no ViewState, the session has expired');
+        }
+    }
+
+    private update(res: HttpResponse) {
+        if (res.setCookie.length > 0) {
+            this.cookies = res.setCookie.map(c => c.split(';')[0]).join('; ');
+        }
+        this.state = parseFormState(res.body, this.state);
+    }
+}
@@ -0,0 +1,21 @@
+// The dataset schema and ROC date helpers live in the frontend data module so the
+// crawler and the dashboard can never disagree on what a row looks like.
+export {
+    DATASET_COLUMNS,
+    DATASET_SCHEMA_VERSION,
+    GRANULARITIES,
+    type AlertFeed,
+    type AlertMetric,
+    type AlertOperator,
+    type DataPoint,
+    type DatasetIndex,
+    type DatasetIndexEntry,
+    type DatasetPartitionEntry,
+    type DatasetVersion,
+    type Granularity,
+    type PriceAlert
+} from '../../frontend-vite/src/data/schema';
+export { addDays, dateToIso, dateToRoc, rocToIso } from '../../frontend-vite/src/data/rocDate';
+export { encodePartition, partitionPeriod } from '../../frontend-vite/src/data/partition';
+export { aggregate, sumVolume, weightedAvg } from '../../frontend-vite/src/data/aggregate';
+export { normalizeVarieties } from '../../frontend-vite/src/data/taxonomy';
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ProductGroup } from './catalogue';
+import { DatasetStore, recordsToDataset, writeDataset, writeDatasetIndex, writeDatasetVersion } from './storage';
+import { decodePartition } from '../../frontend-vite/src/data/partition';
+import { makePoint } from './testing';
+
+const group: ProductGroup = { id: 'vegetables_fv', label: '辣椒', category: 'vegetable', codePrefixes: ['FV'] };
+
+const header = 'Date,Market,Code,Name,Variety,High,Mid,Low,Avg,Volume\n';
+const existing = [
+    '114/11/25,一市,FV1,辣椒,紅小,150.0,90.0,40.0,90.4,"1,979"',
+    '114/11/26,一市,FV1,辣椒,紅小,162.3,90.4,48.2,96.3,979',
+    '114/11/26,一市,FV1,辣椒,紅小,162.3,90.4,48.2,96.3,979'
+];
+
+const point = (Market: string, Avg: number, Volume: number) =>
+    makePoint({ Market, High: 162.3, Mid: 90.4, Low: 48.2, Avg, Volume });
+
+let dir: string;
+let file: string;
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawler-'));
+    file = path.join(dir, 'vegetables_fv.csv');
+    fs.writeFileSync(file, header + existing.join('\n') + '\n');
+});
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('DatasetStore', () => {
+    it('keys rows by date, market, code and variety', () => {
+        const store = new DatasetStore([group], dir);
+        expect(store.rows(group)).toBe(2);
+        expect(store.days(group)).toBe(2);
+        expect(store.has(group, '114/11/26', '一市')).toBe(true);
+        expect(store.has(group, '114/11/26', '二市')).toBe(false);
+    });
+
+    it('tops up a partially crawled day and replaces corrected rows', () => {
+        const store = new DatasetStore([group], dir);
+        const result = store.upsert([point('一市', 96.3, 979), point('二市', 32, 628), point('一市', 95.1, 1020)]);
+
+        expect(result).toMatchObject({ added: 1, updated: 1, unchanged: 1 });
+        expect(result.changes).toHaveLength(1);
+        expect(result.changes[0]).toMatchObject({
+            dataset: 'vegetables_fv',
+            key: { Date: '114/11/26', Market: '一市', Code: 'FV1', Variety: '紅小' },
+            before: { Avg: 96.3, Volume: 979 },
+            after: { Avg: 95.1, Volume: 1020 }
+        });
+        expect(store.has(group, '114/11/26', '二市')).toBe(true);
+    });
+
+    it('rewrites the file atomically, newest first, leaving untouched rows as they were', () => {
+        const store = new DatasetStore([group], dir);
+        store.upsert([point('二市', 32, 628)]);
+        store.save();
+
+        expect(fs.readdirSync(dir).sort()).toEqual(['vegetables_fv', 'vegetables_fv.csv']);
+        expect(fs.readFileSync(file, 'utf-8')).toBe(header + [
+            existing[1],
+            '114/11/26,二市,FV1,辣椒,紅小,162.3,90.4,48.2,32,628',
+            existing[0]
+        ].join('\n') + '\n');
+    });
+
+    it('writes monthly partitions and indexes their coverage', () => {
+        const store = new DatasetStore([group], dir);
+        store.save();
+        const november = path.join(dir, 'vegetables_fv', '2025-11.json');
+        expect(decodePartition(JSON.parse(fs.readFileSync(november, 'utf-8'))).map(p => p.ISODate))
+            .toEqual(['2025-11-25', '2025-11-26']);
+
+        // Only months with new rows are rewritten
+        fs.writeFileSync(november, 'stale');
+        store.upsert([{ ...point('一市', 90, 500), Date: '114/12/01' }]);
+        store.save();
+        expect(fs.readFileSync(november, 'utf-8')).toBe('stale');
+
+        writeDatasetIndex(path.join(dir, 'datasets.json'), store);
+        const index = JSON.parse(fs.readFileSync(path.join(dir, 'datasets.json'), 'utf-8'));
+        expect(index.datasets[0]).toMatchObject({
+            file: 'vegetables_fv.csv',
+            from: '2025-11-25',
+            to: '2025-12-01',
+            products: ['辣椒'],
+            markets: ['一市'],
+            partitions: [
+                { period: '2025-11', file: 'vegetables_fv/2025-11.json', from: '2025-11-25', to: '2025-11-26', rows: 2 },
+                { period: '2025-12', file: 'vegetables_fv/2025-12.json', from: '2025-12-01', to: '2025-12-01', rows: 1 }
+            ]
+        });
+    });
+
+    it('writes a version manifest that only changes with the data', () => {
+        const store = new DatasetStore([group], dir);
+        store.save();
+        const indexFile = path.join(dir, 'datasets.json');
+        const versionFile = path.join(dir, 'version.json');
+        const first = writeDatasetVersion(versionFile, indexFile, writeDatasetIndex(indexFile, store));
+        expect(first.files).toEqual(['datasets.json', 'vegetables_fv/2025-11.json']);
+        expect(JSON.parse(fs.readFileSync(versionFile, 'utf-8'))).toEqual(first);
+
+        // Same data, same version: the manifest keeps its time stamp
+        expect(writeDatasetVersion(versionFile, indexFile, writeDatasetIndex(indexFile, store))).toEqual(first);
+
+        store.upsert([point('二市', 80, 300)]);
+        store.save();
+        const second = writeDatasetVersion(versionFile, indexFile, writeDatasetIndex(indexFile, store));
+        expect(second.version).not.toBe(first.version);
+        expect(second.files).toEqual(first.files);
+    });
+
+    it('writes records once per key, keeping their text', () => {
+        const record = { Date: '114/11/26', Market: '一市', Code: 'FV1', Name: '辣椒', Variety: '紅小', High: '162.3', Mid: '90.4', Low: '48.2', Avg: '96.3', Volume: '1,979' };
+        writeDataset(file, recordsToDataset([record, { ...record }, { ...record, Date: '114/11/25' }]));
+        expect(fs.readFileSync(file, 'utf-8')).toBe(header + [
+            '114/11/26,一市,FV1,辣椒,紅小,162.3,90.4,48.2,96.3,"1,979"',
+            '114/11/25,一市,FV1,辣椒,紅小,162.3,90.4,48.2,96.3,"1,979"'
+        ].join('\n') + '\n');
+    });
+});
@@ -0,0 +1,292 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify/sync';
+import { datasetFile, findGroup, partitionPath, type ProductGroup } from './catalogue';
+import { DATA_DIR } from './config';
+import {
+    DATASET_COLUMNS,
+    DATASET_SCHEMA_VERSION,
+    encodePartition,
+    normalizeVarieties,
+    partitionPeriod,
+    rocToIso,
+    type DataPoint,
+    type DatasetIndex,
+    type DatasetIndexEntry,
+    type DatasetVersion
+} from './shared';
+import { toDataPoint, type RawRecord } from './validate';
+
+// A stored row keeps its original CSV text, so rewriting a file doesn't reformat untouched rows
+export interface StoredRow {
+    point: DataPoint;
+    line: string;
+}
+
+// Row key -> row, see rowKey
+export type Dataset = Map<string, StoredRow>;
+
+const COMPARED_FIELDS = ['Name', 'High', 'Mid', 'Low', 'Avg', 'Volume'] as const;
+
+export interface RowChange {
+    changedAt: string;
+    dataset: string;
+    key: Pick<DataPoint, 'Date' | 'Market' | 'Code' | 'Variety'>;
+    before: Pick<DataPoint, typeof COMPARED_FIELDS[number]>;
+    after: Pick<DataPoint, typeof COMPARED_FIELDS[number]>;
+}
+
+export interface UpsertResult {
+    // Ids of the groups whose dataset changed
+    changed: Set<string>;
+    added: number;
+    updated: number;
+    unchanged: number;
+    changes: RowChange[];
+}
+
+// A row is identified by (Date, Market, Code, Variety)
+export const rowKey = (p: Pick<DataPoint, 'Date' | 'Market' | 'Code' | 'Variety'>) =>
+    `${p.Date}|${p.Market}|${p.Code}|${p.Variety}`;
+
+export function toCsvLine(point: DataPoint) {
+    return stringify([DATASET_COLUMNS.map(c => point[c])]).trim();
+}
+
+// Write to a temp file next to the target and rename it over, so readers never see a half-written file
+export function writeFileAtomic(file: string, content: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, content);
+    fs.renameSync(tmpFile, file);
+}
+
+// Exact duplicate rows collapse into one, the first occurrence wins
+export function readDataset(file: string): Dataset {
+    const dataset: Dataset = new Map();
+    if (!fs.existsSync(file)) return dataset;
+
+    const rows: { record: RawRecord; raw: string }[] = parse(fs.readFileSync(file, 'utf-8'), {
+        columns: true,
+        skip_empty_lines: true,
+        raw: true
+    });
+    for (const { record, raw } of rows) {
+        const point = toDataPoint(record);
+        const key = rowKey(point);
+        if (!dataset.has(key)) {
+            dataset.set(key, { point, line: raw.trim() });
+        }
+    }
+    return dataset;
+}
+
+// Rows keyed like a stored dataset, e.g. records rewritten by the repair. Rows sharing a key
+// collapse into one, the first occurrence wins, as when reading a dataset file. Values keep their text.
+export function recordsToDataset(records: RawRecord[]): Dataset {
+    const dataset: Dataset = new Map();
+    for (const record of records) {
+        const point = toDataPoint(record);
+        const key = rowKey(point);
+        if (!dataset.has(key)) {
+            dataset.set(key, { point, line: stringify([DATASET_COLUMNS.map(c => record[c])]).trim() });
+        }
+    }
+    return dataset;
+}
+
+// Writes dates newest first, the order the dashboard history has always been stored in.
+// Rows of the same date keep their order.
+export function writeDataset(file: string, dataset: Dataset) {
+    const rows = Array.from(dataset.values())
+        .map(row => ({ iso: rocToIso(row.point.Date), line: row.line }))
+        .sort((a, b) => b.iso.localeCompare(a.iso));
+
+    const header = stringify([DATASET_COLUMNS as unknown as string[]]);
+    writeFileAtomic(file, header + rows.map(r => r.line + '\n').join(''));
+}
+
+// Splits a dataset into monthly partitions, rows sorted by date
+export function partitionDataset(dataset: Dataset) {
+    const partitions = new Map<string, { iso: string; point: DataPoint }[]>();
+    for (const { point } of dataset.values()) {
+        const iso = rocToIso(point.Date);
+        const period = partitionPeriod(iso);
+        if (!partitions.has(period)) partitions.set(period, []);
+        partitions.get(period)!.push({ iso, point });
+    }
+    for (const rows of partitions.values()) {
+        rows.sort((a, b) => a.iso.localeCompare(b.iso));
+    }
+    return new Map(Array.from(partitions).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// The dashboard reads this index to find the dataset of every product group,
+// and the partitions it needs for a date range
+export function writeDatasetIndex(file: string, store: DatasetStore) {
+    const index: DatasetIndex = {
+        schemaVersion: DATASET_SCHEMA_VERSION,
+        datasets: store.entries()
+    };
+    writeFileAtomic(file, JSON.stringify(index, null, 2) + '\n');
+    return index;
+}
+
+// The files the dashboard loads: the index, and the partitions of every dataset or its CSV when it has none
+export function datasetFiles(indexFile: string, index: DatasetIndex) {
+    return [
+        path.basename(indexFile),
+        ...index.datasets.flatMap(d => d.partitions?.length ? d.partitions.map(p => p.file) : [d.file])
+    ];
+}
+
+// The dashboard's offline cache keeps the files of one version and offers a refresh once the version changes.
+// The file is only rewritten when the data did change, so a run without new rows leaves nothing to commit.
+export function writeDatasetVersion(file: string, indexFile: string, index: DatasetIndex) {
+    const dir = path.dirname(file);
+    const files = datasetFiles(indexFile, index);
+    const hash = crypto.createHash('sha256');
+    for (const name of files) {
+        hash.update(`${name}\n`).update(fs.readFileSync(path.join(dir, name)));
+    }
+    const version = hash.digest('hex').slice(0, 16);
+
+    if (fs.existsSync(file)) {
+        const current: DatasetVersion = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        if (current.version === version) return current;
+    }
+    const manifest: DatasetVersion = {
+        schemaVersion: DATASET_SCHEMA_VERSION,
+        version,
+        generatedAt: new Date().toISOString(),
+        files
+    };
+    writeFileAtomic(file, JSON.stringify(manifest, null, 2) + '\n');
+    return manifest;
+}
+
+const pick = (point: DataPoint) =>
+    Object.fromEntries(COMPARED_FIELDS.map(f => [f, point[f]])) as RowChange['before'];
+
+// The datasets of all product groups in the catalogue, keyed by group id
+export class DatasetStore {
+    private readonly datasets: Map<string, Dataset>;
+    // Group id -> "date|market" pairs that have at least one row
+    private readonly marketDays = new Map<string, Set<string>>();
+    // Group id -> months with rows added or changed since the partitions were last written
+    private readonly dirty = new Map<string, Set<string>>();
+
+    constructor(private readonly groups: ProductGroup[], private readonly dir: string = DATA_DIR) {
+        this.datasets = new Map(groups.map(g => [g.id, readDataset(datasetFile(g, dir))]));
+        for (const [id, dataset] of this.datasets) {
+            this.marketDays.set(id, new Set(Array.from(dataset.values(), r => `${r.point.Date}|${r.point.Market}`)));
+            this.dirty.set(id, new Set());
+        }
+    }
+
+    days(group: ProductGroup) {
+        return new Set(Array.from(this.datasets.get(group.id)!.values(), r => r.point.Date)).size;
+    }
+
+    rows(group: ProductGroup) {
+        return this.datasets.get(group.id)!.size;
+    }
+
+    points(group: ProductGroup) {
+        return Array.from(this.datasets.get(group.id)!.values(), r => r.point);
+    }
+
+    // The rows of every group as the dashboard reads them: varieties renamed by the taxonomy, and
+    // imported rows listed twice under an alias (e.g. FV91 as both 進口 and 進口紅小) collapsed into one.
+    // The API and the alert rules read these, so their aggregates match the charts.
+    normalizedPoints() {
+        return this.groups.flatMap(group => normalizeVarieties(this.points(group)));
+    }
+
+    // Whether the group has any row of the date in the market
+    has(group: ProductGroup, rocDate: string, market: string) {
+        return this.marketDays.get(group.id)!.has(`${rocDate}|${market}`);
+    }
+
+    // Adds new rows and replaces rows whose values changed at the source
+    upsert(points: DataPoint[]): UpsertResult {
+        const result: UpsertResult = { changed: new Set(), added: 0, updated: 0, unchanged: 0, changes: [] };
+        const changedAt = new Date().toISOString();
+
+        for (const point of points) {
+            const group = findGroup(this.groups, point.Code);
+            if (!group) continue;
+
+            const dataset = this.datasets.get(group.id)!;
+            const key = rowKey(point);
+            const existing = dataset.get(key);
+
+            if (existing && COMPARED_FIELDS.every(f => existing.point[f] === point[f])) {
+                result.unchanged++;
+                continue;
+            }
+            if (existing) {
+                result.updated++;
+                result.changes.push({
+                    changedAt,
+                    dataset: group.id,
+                    key: { Date: point.Date, Market: point.Market, Code: point.Code, Variety: point.Variety },
+                    before: pick(existing.point),
+                    after: pick(point)
+                });
+            } else {
+                result.added++;
+                this.marketDays.get(group.id)!.add(`${point.Date}|${point.Market}`);
+            }
+            dataset.set(key, { point, line: toCsvLine(point) });
+            this.dirty.get(group.id)!.add(partitionPeriod(rocToIso(point.Date)));
+            result.changed.add(group.id);
+        }
+        return result;
+    }
+
+    // Writes the CSV of every given group and its changed or missing monthly partitions
+    save(groupIds: Iterable<string> = this.datasets.keys()) {
+        for (const id of groupIds) {
+            const group = this.groups.find(g => g.id === id)!;
+            const dataset = this.datasets.get(id)!;
+            writeDataset(datasetFile(group, this.dir), dataset);
+
+            const dirty = this.dirty.get(id)!;
+            for (const [period, rows] of partitionDataset(dataset)) {
+                const file = path.join(this.dir, partitionPath(group, period));
+                if (!dirty.has(period) && fs.existsSync(file)) continue;
+                writeFileAtomic(file, JSON.stringify(encodePartition(rows.map(r => r.point))) + '\n');
+            }
+            dirty.clear();
+        }
+    }
+
+    // Index entries with the date coverage, products, markets and partitions of every group
+    entries(): DatasetIndexEntry[] {
+        return this.groups.map(group => {
+            const dataset = this.datasets.get(group.id)!;
+            const partitions = Array.from(partitionDataset(dataset), ([period, rows]) => ({
+                period,
+                file: partitionPath(group, period),
+                from: rows[0].iso,
+                to: rows[rows.length - 1].iso,
+                rows: rows.length
+            }));
+            const points = this.points(group);
+            return {
+                id: group.id,
+                label: group.label,
+                category: group.category,
+                file: path.basename(datasetFile(group)),
+                from: partitions[0]?.from,
+                to: partitions[partitions.length - 1]?.to,
+                products: Array.from(new Set(points.map(p => p.Name))).sort(),
+                markets: Array.from(new Set(points.map(p => p.Market))).sort(),
+                partitions
+            };
+        });
+    }
+}
@@ -0,0 +1,12 @@
+import type { DataPoint } from './shared';
+
+// A row for tests: one trade of 紅小 chili at 一市 unless the test sets the fields it cares about.
+// High and Low are Avg plus and minus spread (0 by default, all three prices equal).
+export function makePoint({ spread = 0, ...fields }: Partial<DataPoint> & { spread?: number } = {}): DataPoint {
+    const Avg = fields.Avg ?? 50;
+    return {
+        Date: '114/11/26', Market: '一市', Code: 'FV1', Name: '辣椒', Variety: '紅小',
+        High: Avg + spread, Mid: Avg, Low: Avg - spread, Avg, Volume: 100,
+        ...fields
+    };
+}
@@ -0,0 +1,58 @@
+// Days a market had no trading in a category (closed, holiday...), so they aren't re-queried every run
+import fs from 'fs';
+import { NO_TRADING_FILE } from './config';
+import { rocToIso } from './shared';
+import { writeFileAtomic } from './storage';
+import type { Category } from './catalogue';
+
+// Market name -> category -> ROC dates
+type NoTradingData = Record<string, Partial<Record<Category, string[]>>>;
+
+export class NoTradingDays {
+    private readonly days = new Map<string, Set<string>>();
+
+    constructor(private readonly file: string = NO_TRADING_FILE) {
+        if (!fs.existsSync(file)) return;
+
+        const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as NoTradingData;
+        for (const [market, categories] of Object.entries(data)) {
+            for (const [category, dates] of Object.entries(categories)) {
+                this.days.set(`${market}|${category}`, new Set(dates));
+            }
+        }
+    }
+
+    has(rocDate: string, market: string, category: Category) {
+        return this.days.get(`${market}|${category}`)?.has(rocDate) ?? false;
+    }
+
+    add(rocDate: string, market: string, category: Category) {
+        const key = `${market}|${category}`;
+        if (!this.days.has(key)) {
+            this.days.set(key, new Set());
+        }
+        this.days.get(key)!.add(rocDate);
+    }
+
+    save() {
+        const data: NoTradingData = {};
+        for (const key of Array.from(this.days.keys()).sort()) {
+            const [market, category] = key.split('|') as [string, Category];
+            data[market] = data[market] || {};
+            data[market][category] = Array.from(this.days.get(key)!).sort();
+        }
+
+        writeFileAtomic(this.file, JSON.stringify(data, null, 2) + '\n');
+    }
+}
+
+// Prices of a day may still be published late, only treat an empty table as
+// "no trading" once the day is this far in the past
+export const SETTLE_DAYS = 2;
+
+export function isSettled(rocDate: string, now: Date = new Date()) {
+    const [y, m, d] = rocToIso(rocDate).split('-').map(Number);
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const days = Math.round((today.getTime() - new Date(y, m - 1, d).getTime()) / 86400000);
+    return days >= SETTLE_DAYS;
+}
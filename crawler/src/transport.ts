@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { FIXTURES_DIR } from './config';
+
+export interface HttpResponse {
+    status: number;
+    body: string;
+    setCookie: string[];
+}
+
+// The crawler only ever needs a page GET and a form POST, so that is all a
+// transport has to provide. Swap in FixtureTransport to crawl offline.
+export interface HttpTransport {
+    get(url: string, headers: Record<string, string>): Promise<HttpResponse>;
+    post(url: string, form: URLSearchParams, headers: Record<string, string>): Promise<HttpResponse>;
+}
+
+// Error statuses are returned rather than thrown, the session decides what they mean
+export class AxiosTransport implements HttpTransport {
+    constructor(private readonly timeout = 30000) {}
+
+    async get(url: string, headers: Record<string, string>): Promise<HttpResponse> {
+        const res = await axios.get<string>(url, { headers, responseType: 'text', timeout: this.timeout, validateStatus: () => true });
+        return { status: res.status, body: res.data, setCookie: res.headers['set-cookie'] || [] };
+    }
+
+    async post(url: string, form: URLSearchParams, headers: Record<string, string>): Promise<HttpResponse> {
+        const res = await axios.post<string>(url, form, { headers, responseType: 'text', timeout: this.timeout, validateStatus: () => true });
+        return { status: res.status, body: res.data, setCookie: res.headers['set-cookie'] || [] };
+    }
+}
+
+// Serves recorded Price1 pages from a directory:
+//   price1.html                            the initial GET
+//   <yyy><mm><dd>-<market>-<fv code>.html  the query result for a ROC date, market value and category
+// Queries without a recording get the initial page back, i.e. a page with no price table.
+export class FixtureTransport implements HttpTransport {
+    readonly requests: { method: 'GET' | 'POST'; url: string; form?: URLSearchParams }[] = [];
+
+    constructor(private readonly dir: string) {}
+
+    async get(url: string): Promise<HttpResponse> {
+        this.requests.push({ method: 'GET', url });
+        return this.respond('price1.html');
+    }
+
+    async post(url: string, form: URLSearchParams): Promise<HttpResponse> {
+        this.requests.push({ method: 'POST', url, form });
+        const date = (form.get('ctl00$ContentPlaceHolder1$txtDate') || '').replace(/\//g, '');
+        const market = form.get('ctl00$ContentPlaceHolder1$DDL_Market') || '';
+        const fvCode = form.get('ctl00$ContentPlaceHolder1$DDL_FV_Code') || '';
+        const file = `${date}-${market}-${fvCode}.html`;
+        return this.respond(fs.existsSync(path.join(this.dir, file)) ? file : 'price1.html');
+    }
+
+    private respond(file: string): HttpResponse {
+        return {
+            status: 200,
+            body: fs.readFileSync(path.join(this.dir, file), 'utf-8'),
+            setCookie: ['ASP.NET_SessionId=fixture; path=/; HttpOnly']
+        };
+    }
+}
+
+// --fixtures[=dir] in the command line crawls recorded pages instead of the live site
+export function createTransport(args: string[]): HttpTransport {
+    const flag = args.find(a => a === '--fixtures' || a.startsWith('--fixtures='));
+    if (!flag) return new AxiosTransport();
+
+    const dir = flag.includes('=') ? flag.substring(flag.indexOf('=') + 1) : FIXTURES_DIR;
+    console.log(`Using recorded fixtures from ${dir}`);
+    return new FixtureTransport(dir);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { repairRecords } from './repair';
+import { ColumnMappingError, mapColumns, validateRecord, type RawRecord } from './validate';
+
+const record = (High: string, Mid: string, Low: string, Avg: string, Volume: string): RawRecord => ({
+    Date: '114/11/26', Market: '一市', Code: 'FV1', Name: '辣椒', Variety: '紅小', High, Mid, Low, Avg, Volume
+});
+
+describe('mapColumns', () => {
+    it('locates columns by header text regardless of order', () => {
+        expect(mapColumns(['品名代號', '品名', '品種', '上價', '中價', '下價', '平均價', '交易量'])).toEqual({
+            Code: 0, Name: 1, Variety: 2, High: 3, Mid: 4, Low: 5, Avg: 6, Volume: 7
+        });
+        expect(mapColumns(['品名代號', '品名', '品種', '平均價', '交易量', '上價', '中價', '下價'])).toMatchObject({
+            Avg: 3, Volume: 4, High: 5, Mid: 6, Low: 7
+        });
+    });
+
+    it('fails loudly when a column is missing', () => {
+        expect(() => mapColumns(['品名代號', '品名', '品種', '平均價'])).toThrow(ColumnMappingError);
+    });
+});
+
+describe('validateRecord', () => {
+    it('accepts rows within the invariants', () => {
+        expect(validateRecord(record('162.3', '90.4', '48.2', '96.3', '979'))).toEqual([]);
+        expect(validateRecord(record('60.0', '60', '60.0', '60.0', '1,060'))).toEqual([]);
+    });
+
+    it('explains why a row is rejected', () => {
+        expect(validateRecord(record('96.3', '979', '162.3', '90.4', '48.2'))).toEqual([
+            'Mid 979 > High 96.3',
+            'Avg 90.4 outside [162.3, 96.3]'
+        ]);
+        expect(validateRecord(record('10', '5', '1', '5', '-3'))).toEqual(['Volume is negative (-3)']);
+        expect(validateRecord(record('10', '-', '1', '5', '3'))).toEqual(['Mid is not a number (-)']);
+    });
+});
+
+describe('repairRecords', () => {
+    it('realigns legacy rows and quarantines the rest', () => {
+        const { kept, quarantined, realigned } = repairRecords([
+            record('162.3', '90.4', '48.2', '96.3', '979'),
+            record('96.3', '979', '162.3', '90.4', '48.2'),
+            record('1', '2', '3', '4', '5')
+        ]);
+
+        expect(realigned).toBe(1);
+        expect(kept[1]).toMatchObject({ High: '162.3', Mid: '90.4', Low: '48.2', Avg: '96.3', Volume: '979' });
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0].Reason).toMatch(/^repair: /);
+    });
+
+    it('leaves valid rows alone, so a second run changes nothing', () => {
+        const records = [
+            record('96.3', '979', '162.3', '90.4', '48.2'),
+            // An integer Mid and a fractional Volume, as the crawler writes them today
+            record('162.3', '90', '48.2', '96.3', '97.5'),
+            record('60.0', '60', '60.0', '60.0', '1,060')
+        ];
+        const first = repairRecords(records);
+        expect(first.realigned).toBe(1);
+        expect(first.kept.slice(1)).toEqual(records.slice(1));
+
+        const second = repairRecords(first.kept);
+        expect(second).toEqual({ kept: first.kept, quarantined: [], realigned: 0 });
+    });
+});
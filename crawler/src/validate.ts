@@ -0,0 +1,119 @@
+// Column mapping and row invariants for TAPMC price tables.
+// Columns are located by their header text so a change in the table layout
+// can't silently shift values into the wrong fields.
+import type { DataPoint } from './shared';
+
+export type PriceField = 'High' | 'Mid' | 'Low' | 'Avg' | 'Volume';
+export type TableField = 'Code' | 'Name' | 'Variety' | PriceField;
+
+// A row as scraped, every value still the text shown on the page
+export type RawRecord = Record<'Date' | 'Market' | TableField, string>;
+
+export type ColumnMapping = Record<TableField, number>;
+
+const COLUMN_PATTERNS: [TableField, RegExp][] = [
+    ['Code', /代號|代碼/],
+    ['Variety', /品種/],
+    ['Name', /品名/],
+    ['High', /上價/],
+    ['Mid', /中價/],
+    ['Low', /下價/],
+    ['Avg', /平均/],
+    ['Volume', /交易量|數量/]
+];
+
+export const TABLE_FIELDS = COLUMN_PATTERNS.map(([field]) => field);
+
+const PRICE_FIELDS: PriceField[] = ['High', 'Mid', 'Low', 'Avg'];
+
+// Prices are published with one decimal, allow for rounding when comparing
+const TOLERANCE = 0.05;
+
+export class ColumnMappingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ColumnMappingError';
+    }
+}
+
+// Map header cell texts to column indexes, e.g. { Code: 0, Name: 1, ... }
+export function mapColumns(headerCells: string[]): ColumnMapping {
+    const mapping: Partial<ColumnMapping> = {};
+    const used = new Set<number>();
+    for (const [field, pattern] of COLUMN_PATTERNS) {
+        const index = headerCells.findIndex((text, i) => !used.has(i) && pattern.test(text));
+        if (index > -1) {
+            mapping[field] = index;
+            used.add(index);
+        }
+    }
+
+    const missing = TABLE_FIELDS.filter(f => mapping[f] === undefined);
+    if (missing.length > 0) {
+        throw new ColumnMappingError(`Missing column(s) ${missing.join(', ')} in header: ${headerCells.join(' | ')}`);
+    }
+    return mapping as ColumnMapping;
+}
+
+export function isHeaderRow(cells: string[]) {
+    return cells.some(c => /品種/.test(c)) && cells.some(c => /平均/.test(c));
+}
+
+export function parseNumber(value: string | number | undefined) {
+    if (typeof value === 'number') return value;
+    const text = String(value ?? '').replace(/,/g, '').trim();
+    if (text === '') return NaN;
+    return Number(text);
+}
+
+// Returns a list of reasons the record breaks the price invariants (empty when valid)
+export function validateRecord(record: Pick<RawRecord, PriceField>) {
+    const reasons: string[] = [];
+    const num = {} as Record<PriceField, number>;
+    for (const field of [...PRICE_FIELDS, 'Volume'] as PriceField[]) {
+        num[field] = parseNumber(record[field]);
+        if (!Number.isFinite(num[field])) {
+            reasons.push(`${field} is not a number (${record[field]})`);
+        }
+    }
+    if (reasons.length > 0) return reasons;
+
+    for (const field of PRICE_FIELDS) {
+        if (num[field] < 0) reasons.push(`${field} is negative (${num[field]})`);
+    }
+    if (num.Volume < 0) reasons.push(`Volume is negative (${num.Volume})`);
+    if (num.Low > num.Mid + TOLERANCE) reasons.push(`Low ${num.Low} > Mid ${num.Mid}`);
+    if (num.Mid > num.High + TOLERANCE) reasons.push(`Mid ${num.Mid} > High ${num.High}`);
+    if (num.Avg < num.Low - TOLERANCE || num.Avg > num.High + TOLERANCE) {
+        reasons.push(`Avg ${num.Avg} outside [${num.Low}, ${num.High}]`);
+    }
+    return reasons;
+}
+
+// Earlier crawler versions wrote cols[3..7] positionally, while the source table is
+// ordered Avg, Volume, High, Mid, Low. Undo that shift for rows written that way.
+export function remapLegacyRecord<T extends Pick<RawRecord, PriceField>>(record: T): T {
+    return {
+        ...record,
+        High: record.Low,
+        Mid: record.Avg,
+        Low: record.Volume,
+        Avg: record.High,
+        Volume: record.Mid
+    };
+}
+
+export function toDataPoint(record: RawRecord): DataPoint {
+    return {
+        Date: record.Date,
+        Market: record.Market,
+        Code: record.Code,
+        Name: record.Name,
+        Variety: record.Variety,
+        High: parseNumber(record.High),
+        Mid: parseNumber(record.Mid),
+        Low: parseNumber(record.Low),
+        Avg: parseNumber(record.Avg),
+        Volume: parseNumber(record.Volume)
+    };
+}
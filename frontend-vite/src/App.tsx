@@ -1,38 +1,83 @@
-import { useState, useEffect, useMemo, useRef } from 'react';
-import Papa from 'papaparse';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, ReferenceArea } from 'recharts';
-import { Calendar, TrendingUp, BarChart3, Filter, PieChart, ChevronDown, Check, ZoomOut } from 'lucide-react';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-interface DataPoint {
-  Date: string;
-  Market: string;
-  Code: string;
-  Name: string;
-  Variety: string;
-  High: number;
-  Mid: number;
-  Low: number;
-  Avg: number;
-  Volume: number;
-  // 計算出的欄位
-  ISODate?: string;
-}
-
-interface AggregatedPoint {
-  Date: string;
-  ISODate: string;
-  Volume: number;
-  Avg: number;
-  Market: string;
-  Name: string;
-  [key: string]: string | number | undefined | null;
-}
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { ComposedChart, LineChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, ReferenceArea, ReferenceDot, ReferenceLine, type LegendPayload } from 'recharts';
+import { Calendar, TrendingUp, BarChart3, Filter, PieChart, ChevronDown, Check, ZoomOut, ArrowLeftRight, CloudOff } from 'lucide-react';
+import { marketSpread, seriesKey, spreadKey, type CandlePoint } from './data/aggregate';
+import { chartAnnotations } from './data/anomalies';
+import type { CandleRequest, ChartRequest, DatasetSummary, ForecastRequest, RowsRequest, SelectionRequest, SeriesAnalysis } from './data/chartEngine';
+import { periodEnd, rowsInRange } from './data/dateRange';
+import { exportFileName, exportTable, type ExportColumn } from './data/export';
+import { DEFAULT_FORECAST_OPTIONS, forecastKeys, withForecast, type Forecast } from './data/forecast';
+import { indicatorKeys, NO_INDICATORS, withIndicators, type IndicatorSettings } from './data/indicators';
+import type { VarietyMix } from './data/mix';
+import { datasetBounds, recentRange } from './data/partition';
+import { addDays } from './data/rocDate';
+import { GRANULARITIES, type AggregatedPoint, type DataPoint, type DatasetIndex, type Granularity, type VarietyColor, type VarietyOrigin } from './data/schema';
+import { holidayAreas } from './data/seasonality';
+import { defaultVarieties, type VarietyFilter, type VarietyGrouping } from './data/taxonomy';
+import { decodeViewState, encodeViewState, type ViewState } from './data/viewState';
+import { createWorkerDatasetLoader } from './data/workerClient';
+import AlertsPanel from './components/AlertsPanel';
+import AnomalyControls from './components/AnomalyControls';
+import DataExplorer from './components/DataExplorer';
+import DateRangePicker from './components/DateRangePicker';
+import ExportMenu, { type ExportChart } from './components/ExportMenu';
+import ForecastControls from './components/ForecastControls';
+import GroupedLegend, { type ChartSeries } from './components/GroupedLegend';
+import IndicatorControls from './components/IndicatorControls';
+import OfflineBanner from './components/OfflineBanner';
+import PriceRangeChart from './components/PriceRangeChart';
+import SavedViews from './components/SavedViews';
+import SeasonalityPanel, { type SeasonalitySelection } from './components/SeasonalityPanel';
+import VarietyGroupControls from './components/VarietyGroupControls';
+import VarietyMixPanel from './components/VarietyMixPanel';
+import { cn } from './lib/utils';
+
+// 日檢視只顯示最近 30 筆資料，載入最近兩個月的分區即足夠
+const DAY_VIEW_DAYS = 60;
+
+// 下載、解析、圖表資料的聚合與各項分析都在 Worker 中進行，資料列不傳回主執行緒，避免資料量大時阻塞畫面
+const datasetLoader = createWorkerDatasetLoader(
+  new Worker(new URL('./data/dataset.worker.ts', import.meta.url), { type: 'module' })
+);
+
+// 尚未收到 Worker 回覆前的結果
+const NO_ANALYSIS: SeriesAnalysis = { outliers: [], gaps: [] };
+const NO_CHART_ROWS: AggregatedPoint[] = [];
+const NO_ROWS: DataPoint[] = [];
+const NO_CANDLES: CandlePoint[] = [];
+const NO_FORECASTS: Forecast[] = [];
+const NO_MIX: VarietyMix = {
+  shares: [],
+  varieties: { volume: { groups: [], points: [] }, value: { groups: [], points: [] } },
+  origins: { volume: { groups: [], points: [] }, value: { groups: [], points: [] } }
+};
+
+// 向 Worker 請求計算結果：請求 (以 useMemo 建立) 或已載入的資料改變時重新請求，回覆前沿用上一次的結果，
+// 過時的回覆不採用；請求為 null 時不計算，回傳 fallback
+const useWorkerResult = <R, T>(compute: (request: R) => Promise<T>, request: R | null, loaded: unknown, fallback: T): T => {
+  const [result, setResult] = useState<T>(fallback);
+  useEffect(() => {
+    if (request === null) return;
+    let cancelled = false;
+    compute(request)
+      .then(value => { if (!cancelled) setResult(value); })
+      .catch(error => console.error("Error computing data:", error));
+    return () => { cancelled = true; };
+  }, [compute, request, loaded]);
+  return request === null ? fallback : result;
+};
+
+// 產品與品種分組 / 篩選相同時保留品種的選擇，任一項改變時重新選取預設品種
+const varietySelectionKey = (product: string, grouping: VarietyGrouping, origin: VarietyOrigin | null, color: VarietyColor | null) =>
+  [product, grouping, origin ?? '', color ?? ''].join('|');
+
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: '日 (Day)',
+  week: '週 (Week)',
+  month: '月 (Month)',
+  quarter: '季 (Quarter)',
+  year: '年 (Year)'
+};
 
 // 自定義的多選元件
 const MultiSelect = ({
@@ -128,38 +173,69 @@ const MultiSelect = ({
 };
 
 const App = () => {
-  const [data, setData] = useState<DataPoint[]>([]);
+  // 已載入資料的摘要，資料列本身留在 Worker 中
+  const [summary, setSummary] = useState<DatasetSummary | null>(null);
   const [loading, setLoading] = useState(true);
+  // 資料載入失敗的原因 (例如離線且尚未保存資料)，重試時遞增 retryCount 重新載入
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  // 網址中的檢視狀態優先於預設值 (第一個市場 / 產品、預設品種)
+  const [initialView] = useState(() => decodeViewState(window.location.search));
 
   // 篩選器狀態
   const [markets, setMarkets] = useState<string[]>([]);
-  const [selectedMarket, setSelectedMarket] = useState<string>('');
+  const [selectedMarket, setSelectedMarket] = useState<string>(initialView.market ?? '');
+
+  // 多市場比較模式
+  const [compareMode, setCompareMode] = useState(Boolean(initialView.compareMarkets?.length));
+  const [compareMarkets, setCompareMarkets] = useState<string[]>(initialView.compareMarkets ?? []);
+  const [volumeLayout, setVolumeLayout] = useState<'stack' | 'group'>('stack');
+
+  // 價格圖表：各品種平均價走勢，或單一品種的上下價區間 / K 線
+  const [priceView, setPriceView] = useState<'trend' | 'range'>('trend');
+  const [rangeVariety, setRangeVariety] = useState('');
+
+  // 技術指標：以整體平均價 (Avg) 或單一線條為基準計算
+  const [indicators, setIndicators] = useState<IndicatorSettings>(NO_INDICATORS);
+  const [indicatorBase, setIndicatorBase] = useState('Avg');
+
+  // 異常值與缺漏交易日：是否標註於價格走勢圖，以及是否從聚合中排除異常值
+  const [annotate, setAnnotate] = useState(true);
+  const [excludeAnomalies, setExcludeAnomalies] = useState(false);
+
+  // 國定假日陰影 (日 / 週檢視) 與季節性熱圖 (展開時載入完整歷史)
+  const [showHolidays, setShowHolidays] = useState(true);
+  const [seasonalityOpen, setSeasonalityOpen] = useState(false);
+
+  // 價格預測：選取的線條 (null 為不預測) 與預測天數
+  const [forecastTarget, setForecastTarget] = useState<string | null>(null);
+  const [forecastHorizon, setForecastHorizon] = useState(DEFAULT_FORECAST_OPTIONS.horizon);
 
   const [products, setProducts] = useState<string[]>([]);
-  const [selectedProduct, setSelectedProduct] = useState<string>('');
+  const [selectedProduct, setSelectedProduct] = useState<string>(initialView.product ?? '');
 
   const [varieties, setVarieties] = useState<string[]>([]);
-  const [selectedVarieties, setSelectedVarieties] = useState<string[]>([]);
+  const [selectedVarieties, setSelectedVarieties] = useState<string[]>(initialView.varieties ?? []);
+
+  // 品種分組與產地 / 顏色篩選 (品種分類設定見 data/taxonomy.json)
+  const [varietyGrouping, setVarietyGrouping] = useState<VarietyGrouping>(initialView.grouping ?? 'variety');
+  const [originFilter, setOriginFilter] = useState<VarietyOrigin | null>(initialView.origin ?? null);
+  const [colorFilter, setColorFilter] = useState<VarietyColor | null>(initialView.color ?? null);
 
   // 預設為月視圖
-  const [timeScale, setTimeScale] = useState<'day' | 'month'>('month');
+  const [timeScale, setTimeScale] = useState<Granularity>(initialView.timeScale ?? 'month');
 
   // 用於切換圖表線條顯示的狀態
-  const [hiddenSeries, setHiddenSeries] = useState<string[]>([]);
+  const [hiddenSeries, setHiddenSeries] = useState<string[]>(initialView.hidden ?? []);
 
-  // 縮放狀態
+  // 日期區間：由日期選擇器、快速選項或拖曳縮放設定，以日期記錄，切換篩選條件與統計區間後仍有意義
   const [refAreaLeft, setRefAreaLeft] = useState('');
   const [refAreaRight, setRefAreaRight] = useState('');
-  const [zoomLeftIndex, setZoomLeftIndex] = useState<number | null>(null);
-  const [zoomRightIndex, setZoomRightIndex] = useState<number | null>(null);
-
-  const handleLegendClick = (o: any) => {
-    let { dataKey } = o;
-    // 處理交易量圖表的 key (移除 _Volume 後綴)
-    if (typeof dataKey === 'string' && dataKey.endsWith('_Volume')) {
-      dataKey = dataKey.replace('_Volume', '');
-    }
+  const [dateRange, setDateRange] = useState<ViewState['zoom']>(initialView.zoom ?? null);
+  const [datasetIndex, setDatasetIndex] = useState<DatasetIndex | null>(null);
 
+  const toggleSeries = (dataKey: string) => {
     if (hiddenSeries.includes(dataKey)) {
       setHiddenSeries(hiddenSeries.filter(k => k !== dataKey));
     } else {
@@ -167,221 +243,398 @@ const App = () => {
     }
   };
 
-  // 用來將民國日期轉換為 ISO 日期以便排序的輔助函式
-  const convertDate = (rocDate: string) => {
-    const parts = rocDate.split('/');
-    if (parts.length === 3) {
-      const year = parseInt(parts[0]) + 1911;
-      return `${year}-${parts[1]}-${parts[2]}`;
+  const handleLegendClick = (o: LegendPayload) => {
+    let dataKey = String(o.dataKey);
+    // 處理交易量圖表的 key (移除 _Volume 後綴)
+    if (dataKey.endsWith('_Volume')) {
+      dataKey = dataKey.replace('_Volume', '');
     }
-    return rocDate;
+    toggleSeries(dataKey);
   };
 
+  // 日檢視的月增率 / 年增率需要更早的資料作為基期，預測以最近一年的每日價格擬合
+  const dayViewDays = DAY_VIEW_DAYS + (indicators.yoy || forecastTarget ? 366 : indicators.mom ? 31 : 0);
+  // 日檢視選取了日期區間時，從區間起點再往前載入相同天數供指標計算
+  const dayViewFrom = timeScale === 'day' && dateRange ? addDays(dateRange.from, -dayViewDays) : null;
+
+  // 依時間尺度與日期區間載入需要的分區，切換到其他統計區間時才補齊較早的資料
   useEffect(() => {
+    let cancelled = false;
     const fetchData = async () => {
       try {
-        const response = await fetch('/data/vegetables_fv.csv');
-        const csv = await response.text();
-
-        Papa.parse(csv, {
-          header: true,
-          dynamicTyping: true,
-          skipEmptyLines: true,
-          complete: (results: Papa.ParseResult<DataPoint>) => {
-            const rawData = results.data as DataPoint[];
-            // 過濾掉空行並處理日期和數字格式
-            const validData = rawData
-              .filter(d => d.Date && d.Name)
-              .map(d => {
-                const parseNum = (val: any) => {
-                  if (typeof val === 'number') return val;
-                  if (typeof val === 'string') {
-                    return parseFloat(val.replace(/,/g, '')) || 0;
-                  }
-                  return 0;
-                };
-
-                return {
-                  ...d,
-                  High: parseNum(d.High),
-                  Mid: parseNum(d.Mid),
-                  Low: parseNum(d.Low),
-                  Avg: parseNum(d.Avg),
-                  Volume: parseNum(d.Volume),
-                  ISODate: convertDate(d.Date)
-                };
-              })
-              .sort((a, b) => (a.ISODate || '').localeCompare(b.ISODate || ''));
-
-            setData(validData);
-
-            // 提取唯一的市場和產品列表
-            const uniqueMarkets = Array.from(new Set(validData.map(d => d.Market)));
-            const uniqueProducts = Array.from(new Set(validData.map(d => d.Name)));
-
-            setMarkets(uniqueMarkets);
-            setProducts(uniqueProducts);
-
-            if (uniqueMarkets.length > 0) setSelectedMarket(uniqueMarkets[0]);
-            if (uniqueProducts.length > 0) setSelectedProduct(uniqueProducts[0]);
-
-            setLoading(false);
-          }
-        });
+        const index = await datasetLoader.index();
+        if (!cancelled) setDatasetIndex(index);
+        const range = timeScale !== 'day' || seasonalityOpen ? {} : dayViewFrom ? { from: dayViewFrom } : recentRange(index, dayViewDays);
+        const loaded = await datasetLoader.load(range);
+        if (!cancelled) {
+          setSummary(loaded);
+          setLoadError(null);
+        }
       } catch (error) {
         console.error("Error fetching data:", error);
-        setLoading(false);
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : String(error));
+      } finally {
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchData();
-  }, []);
+    return () => { cancelled = true; };
+  }, [timeScale, dayViewDays, dayViewFrom, seasonalityOpen, retryCount]);
 
-  // 當產品變更時，更新品種列表
+  // 提取唯一的市場和產品列表，已選取 (或網址指定) 的項目存在時不受後續載入影響
   useEffect(() => {
-    if (selectedProduct) {
-      const productVarieties = Array.from(new Set(
-        data
-          .filter(d => d.Name === selectedProduct)
-          .map(d => d.Variety)
-      ));
-      setVarieties(productVarieties);
-
-      // 如果存在特定品種，預設選取它們
-      const defaultVarieties = ["青小", "紅小", "朝天椒", "進口朝天椒"];
-      const availableDefaults = defaultVarieties.filter(v => productVarieties.includes(v));
-
-      if (availableDefaults.length > 0) {
-        setSelectedVarieties(availableDefaults);
-      } else {
-        setSelectedVarieties(productVarieties); // 如果沒有預設品種，就全選
-      }
+    if (!summary || summary.rows === 0) return;
+    const { markets: uniqueMarkets, products: uniqueProducts } = summary;
 
-      setHiddenSeries([]); // 重置隱藏的線條
-    }
-  }, [selectedProduct, data]);
+    setMarkets(uniqueMarkets);
+    setProducts(uniqueProducts);
+
+    setSelectedMarket(m => (uniqueMarkets.includes(m) ? m : uniqueMarkets[0] || ''));
+    setSelectedProduct(p => (uniqueProducts.includes(p) ? p : uniqueProducts[0] || ''));
+  }, [summary]);
 
-  // Reset zoom when filters change
+  // 依產地 / 顏色篩選並分組後的資料由 Worker 計算，之後的圖表與表格皆以分組後的名稱作為品種
+  const varietyFilter = useMemo<VarietyFilter>(() => ({ origin: originFilter, color: colorFilter }), [originFilter, colorFilter]);
+
+  // 當產品或品種分組變更時，更新品種列表
+  // 網址指定了產品與品種時，視為已選過該產品，保留網址中的品種
+  const lastSelection = useRef(initialView.product && initialView.varieties
+    ? varietySelectionKey(initialView.product, initialView.grouping ?? 'variety', initialView.origin ?? null, initialView.color ?? null)
+    : '');
+  useEffect(() => {
+    if (!selectedProduct || !summary) return;
+    let cancelled = false;
+    datasetLoader.varieties({ product: selectedProduct, grouping: varietyGrouping, filter: varietyFilter })
+      .then(productVarieties => {
+        if (cancelled) return;
+        setVarieties(productVarieties);
+
+        // 同一產品與分組載入更多資料時保留目前的選擇
+        const selection = varietySelectionKey(selectedProduct, varietyGrouping, varietyFilter.origin, varietyFilter.color);
+        if (lastSelection.current === selection) return;
+        lastSelection.current = selection;
+
+        // 依品種檢視時預設選取設定檔中的品種，其他分組全選
+        setSelectedVarieties(varietyGrouping === 'variety'
+          ? defaultVarieties(selectedProduct, productVarieties)
+          : productVarieties);
+
+        setHiddenSeries([]); // 重置隱藏的線條
+      })
+      .catch(error => console.error("Error listing varieties:", error));
+    return () => { cancelled = true; };
+  }, [selectedProduct, summary, varietyGrouping, varietyFilter]);
+
+  const currentView = useMemo<ViewState>(() => ({
+    market: selectedMarket,
+    compareMarkets: compareMode ? compareMarkets : [],
+    product: selectedProduct,
+    varieties: selectedVarieties,
+    grouping: varietyGrouping,
+    origin: originFilter,
+    color: colorFilter,
+    timeScale,
+    hidden: hiddenSeries,
+    zoom: dateRange
+  }), [
+    selectedMarket, compareMode, compareMarkets, selectedProduct, selectedVarieties,
+    varietyGrouping, originFilter, colorFilter, timeScale, hiddenSeries, dateRange
+  ]);
+
+  // 將目前的檢視寫入網址，可直接分享連結 (載入完成前保留原本的網址)
   useEffect(() => {
-    setZoomLeftIndex(null);
-    setZoomRightIndex(null);
+    if (loading) return;
+    window.history.replaceState(null, '', `${window.location.pathname}?${encodeViewState(currentView)}`);
+  }, [loading, currentView]);
+
+  // 清除日期區間 (日檢視回到最近 30 筆)
+  const resetZoom = () => {
+    setDateRange(null);
+    setRefAreaLeft('');
+    setRefAreaRight('');
+  };
+
+  const applyView = (view: ViewState) => {
+    // 避免品種列表的預設選取覆寫檢視中的品種
+    lastSelection.current = varietySelectionKey(view.product, view.grouping, view.origin, view.color);
+    setSelectedMarket(view.market);
+    setCompareMode(view.compareMarkets.length > 0);
+    setCompareMarkets(view.compareMarkets);
+    setSelectedProduct(view.product);
+    setSelectedVarieties(view.varieties);
+    setVarietyGrouping(view.grouping);
+    setOriginFilter(view.origin);
+    setColorFilter(view.color);
+    setTimeScale(view.timeScale);
+    setHiddenSeries(view.hidden);
+    setDateRange(view.zoom);
     setRefAreaLeft('');
     setRefAreaRight('');
-  }, [selectedMarket, selectedProduct, selectedVarieties, timeScale]);
+  };
 
   // 多線圖的顏色設定
   const COLORS = [
     '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'
   ];
 
-  // 處理並聚合數據以供圖表使用
-  const chartData = useMemo(() => {
-    if (!selectedMarket || !selectedProduct) return [];
-
-    // 1. 篩選數據
-    let filtered = data.filter(d =>
-      d.Market === selectedMarket &&
-      d.Name === selectedProduct
-    );
-
-    // 根據選取的品種進行篩選
-    if (selectedVarieties.length > 0) {
-      filtered = filtered.filter(d => selectedVarieties.includes(d.Variety));
-    } else {
-      return []; // 沒有選取品種
+  // 品種結構中未選取的品種
+  const MUTED_COLORS = ['#94a3b8', '#64748b', '#cbd5e1', '#475569'];
+
+  // 技術指標線條：平均線為實線、波動度與增減率為虛線
+  const INDICATOR_STYLES = [
+    { kind: 'sma', color: '#e2e8f0', dash: undefined },
+    { kind: 'ema', color: '#facc15', dash: undefined },
+    { kind: 'volatility', color: '#a78bfa', dash: '4 4' },
+    { kind: 'mom', color: '#22d3ee', dash: '2 3' },
+    { kind: 'yoy', color: '#fb923c', dash: '2 3' }
+  ] as const;
+
+  // 比較模式中以線條樣式區分市場，依市場在列表中的位置決定，切換選取時不會改變
+  const MARKET_DASHES = [undefined, '6 3', '2 2', '10 4 2 4'];
+  const MARKET_OPACITY = [1, 0.6, 0.35, 0.2];
+
+  const toggleCompareMode = () => {
+    if (!compareMode && compareMarkets.length === 0) {
+      setCompareMarkets(markets);
     }
+    setCompareMode(!compareMode);
+  };
 
-    // 2. 分組與聚合
-    const groups = new Map<string, DataPoint[]>();
-
-    filtered.forEach(d => {
-      let key = d.Date; // 預設為 '日'
-      if (timeScale === 'month' && d.ISODate) {
-        // 提取 YYYY-MM
-        key = d.ISODate.substring(0, 7);
-      }
-
-      if (!groups.has(key)) {
-        groups.set(key, []);
-      }
-      groups.get(key)?.push(d);
-    });
-
-    const aggregated: AggregatedPoint[] = [];
-
-    groups.forEach((groupData, key) => {
-      // 設定顯示日期
-      let displayDate = key;
-      let isoDate = groupData[0].ISODate || '';
-
-      if (timeScale === 'month') {
-        // 將 YYYY-MM 轉換為民國年月 (例如 114/11)
-        const [y, m] = key.split('-');
-        displayDate = `${parseInt(y) - 1911}/${m}`;
-        isoDate = `${key}-01`;
-      }
-
-      const entry: AggregatedPoint = {
-        Date: displayDate,
-        ISODate: isoDate,
-        Volume: 0,
-        Avg: 0,
-        Market: selectedMarket,
-        Name: selectedProduct
-      };
-
-      // 計算長條圖的總交易量
-      entry.Volume = Math.round(groupData.reduce((sum, d) => sum + d.Volume, 0));
-
-      // 為每個選取的品種計算價格和交易量
-      selectedVarieties.forEach(v => {
-        const vData = groupData.filter(d => d.Variety === v);
-        if (vData.length > 0) {
-          const vVol = vData.reduce((sum, d) => sum + d.Volume, 0);
-          const vAvg = vVol > 0
-            ? vData.reduce((sum, d) => sum + (d.Avg * d.Volume), 0) / vVol
-            : vData.reduce((sum, d) => sum + d.Avg, 0) / vData.length;
-
-          entry[v] = Math.round(vAvg);
-          entry[`${v}_Volume`] = Math.round(vVol); // 儲存該品種的交易量
-        } else {
-          entry[v] = null;
-          entry[`${v}_Volume`] = 0;
-        }
-      });
-
-      // 計算整體平均價格作為參考 (可選，但對統計摘要很有用)
-      const totalVol = groupData.reduce((sum, d) => sum + d.Volume, 0);
-      const overallAvg = totalVol > 0
-        ? groupData.reduce((sum, d) => sum + (d.Avg * d.Volume), 0) / totalVol
-        : groupData.reduce((sum, d) => sum + d.Avg, 0) / groupData.length;
-      entry.Avg = Math.round(overallAvg);
-
-      aggregated.push(entry);
-    });
-
-    return aggregated.sort((a, b) => a.ISODate.localeCompare(b.ISODate));
+  // 基準市場 (價差的減數) 為列表中第一個選取的市場
+  const handleCompareMarkets = (selected: string[]) => {
+    setCompareMarkets(markets.filter(m => selected.includes(m)));
+  };
 
-  }, [data, selectedMarket, selectedProduct, selectedVarieties, timeScale, varieties.length]);
+  // 異常值以各市場×品種的完整每日資料判斷，與目前的統計區間和日期區間無關
+  const selectedMarkets = useMemo(() => (compareMode ? compareMarkets : [selectedMarket]), [compareMode, compareMarkets, selectedMarket]);
+  const selection = useMemo<SelectionRequest>(() => ({
+    markets: selectedMarkets,
+    product: selectedProduct,
+    varieties: selectedVarieties,
+    grouping: varietyGrouping,
+    filter: varietyFilter,
+    excludeOutliers: false
+  }), [selectedMarkets, selectedProduct, selectedVarieties, varietyGrouping, varietyFilter]);
+  const { outliers, gaps } = useWorkerResult(datasetLoader.analysis, selection, summary, NO_ANALYSIS);
+
+  // 處理並聚合數據以供圖表使用：由 Worker 以相同的篩選、分組與 (選擇時) 異常值排除計算，
+  // 相同的篩選條件直接使用 Worker 快取的結果；summary 改變表示 Worker 載入了新的分區
+  const chartRequest = useMemo<ChartRequest>(() => ({
+    ...selection,
+    compare: compareMode,
+    granularity: timeScale,
+    excludeOutliers: excludeAnomalies
+  }), [selection, compareMode, timeScale, excludeAnomalies]);
+  const chartData = useWorkerResult(datasetLoader.chartData, chartRequest, summary, NO_CHART_ROWS);
+
+  // 價格與交易量圖表的線條，比較模式中每個市場×品種一條，同一品種在各市場顏色相同
+  const series: ChartSeries[] = compareMode
+    ? compareMarkets.flatMap(market => {
+      const m = Math.max(markets.indexOf(market), 0);
+      return selectedVarieties.map((variety, index) => ({
+        key: seriesKey(market, variety),
+        name: seriesKey(market, variety),
+        label: variety,
+        market,
+        color: COLORS[index % COLORS.length],
+        dash: MARKET_DASHES[m % MARKET_DASHES.length],
+        opacity: MARKET_OPACITY[m % MARKET_OPACITY.length]
+      }));
+    })
+    : selectedVarieties.map((variety, index) => ({
+      key: variety,
+      name: variety,
+      label: variety,
+      market: selectedMarket,
+      color: COLORS[index % COLORS.length]
+    }));
+
+  // 指標以完整的 chartData 計算，縮放後區間開頭的移動平均仍包含之前的資料
+  const indicatorOptions = [{ key: 'Avg', label: '整體平均' }, ...series.map(s => ({ key: s.key, label: s.name }))];
+  const activeIndicatorBase = indicatorOptions.some(o => o.key === indicatorBase) ? indicatorBase : 'Avg';
+  const indicatorLines = indicatorKeys(indicators);
+  const indicatorData = useMemo(
+    () => withIndicators(chartData, activeIndicatorBase, indicators, timeScale),
+    [chartData, activeIndicatorBase, indicators, timeScale]
+  );
 
   // 計算顯示的數據 (考慮縮放與預設區間)
   const displayedData = useMemo(() => {
-    // 1. 如果有縮放，優先使用縮放區間
-    if (zoomLeftIndex !== null && zoomRightIndex !== null && chartData.length > 0) {
-      return chartData.slice(zoomLeftIndex, zoomRightIndex + 1);
+    // 1. 如果有日期區間，顯示與區間重疊的統計區間
+    if (dateRange) {
+      return rowsInRange(indicatorData, dateRange, timeScale);
     }
 
-    // 2. 如果是日檢視且沒有縮放，預設顯示最後 30 筆資料 (假設資料已按日期排序)
-    if (timeScale === 'day' && chartData.length > 0) {
-      // chartData 是升序排列 (舊 -> 新)
+    // 2. 如果是日檢視且沒有日期區間，預設顯示最後 30 筆資料 (假設資料已按日期排序)
+    if (timeScale === 'day' && indicatorData.length > 0) {
+      // indicatorData 是升序排列 (舊 -> 新)
       // 我們想要最後 30 天，所以取最後 30 筆
-      const last30 = chartData.slice(-30);
+      const last30 = indicatorData.slice(-30);
       return last30;
     }
 
     // 3. 其他情況 (月檢視或資料不足) 顯示全部
-    return chartData;
-  }, [chartData, zoomLeftIndex, zoomRightIndex, timeScale]);
+    return indicatorData;
+  }, [indicatorData, dateRange, timeScale]);
+
+  // 顯示中的資料列上的異常值與缺漏標註，隱藏的線條不標註
+  const annotations = useMemo(
+    () => chartAnnotations(displayedData, outliers, gaps, timeScale, compareMode ? seriesKey : (_market, variety) => variety),
+    [displayedData, outliers, gaps, timeScale, compareMode]
+  );
+  const holidays = useMemo(() => holidayAreas(displayedData, timeScale), [displayedData, timeScale]);
+  const visibleAnnotation = (annotation: { series?: string }) => !annotation.series || !hiddenSeries.includes(annotation.series);
+  const seriesColor = (key?: string) => series.find(s => s.key === key)?.color ?? '#94a3b8';
+
+  // 預測以完整的每日資料 (排除異常值時同樣排除) 擬合，只在日檢視且顯示到最新資料時畫在圖表上
+  const forecastSeries = series.find(s => s.key === forecastTarget);
+  const forecastMarket = forecastSeries?.market ?? '';
+  const forecastVariety = forecastSeries?.label ?? '';
+  const forecastRequest = useMemo<ForecastRequest | null>(() => (forecastVariety
+    ? {
+      markets: [forecastMarket],
+      product: selectedProduct,
+      varieties: [forecastVariety],
+      grouping: varietyGrouping,
+      filter: varietyFilter,
+      excludeOutliers: excludeAnomalies,
+      options: { ...DEFAULT_FORECAST_OPTIONS, horizon: forecastHorizon }
+    }
+    : null), [forecastMarket, selectedProduct, forecastVariety, varietyGrouping, varietyFilter, excludeAnomalies, forecastHorizon]);
+  const forecast = useWorkerResult(datasetLoader.forecast, forecastRequest, summary, NO_FORECASTS)[0] ?? null;
+  const forecastUnavailable = !forecastSeries ? ''
+    : timeScale !== 'day' ? '預測只在日檢視顯示'
+      : !forecast ? '資料不足六週，無法預測'
+        : displayedData[displayedData.length - 1]?.ISODate !== chartData[chartData.length - 1]?.ISODate ? '選取包含最新資料的日期區間以顯示預測'
+          : '';
+  const showForecast = Boolean(forecastSeries && forecast && !forecastUnavailable);
+  const forecastKey = forecastSeries?.key ?? '';
+  const forecastLines = forecastKeys(forecastKey);
+  const priceData = useMemo(
+    () => (showForecast && forecast ? withForecast(displayedData, forecastKey, forecast) : displayedData),
+    [showForecast, forecast, forecastKey, displayedData]
+  );
+
+  // 價格區間只在單一市場時提供，與走勢圖顯示相同的日期
+  const showRange = priceView === 'range' && !compareMode;
+  const activeRangeVariety = selectedVarieties.includes(rangeVariety) ? rangeVariety : selectedVarieties[0] || '';
+  const candleRequest = useMemo<CandleRequest | null>(() => (showRange
+    ? {
+      market: selectedMarket,
+      product: selectedProduct,
+      variety: activeRangeVariety,
+      granularity: timeScale,
+      grouping: varietyGrouping,
+      filter: varietyFilter,
+      excludeOutliers: excludeAnomalies
+    }
+    : null), [showRange, selectedMarket, selectedProduct, activeRangeVariety, timeScale, varietyGrouping, varietyFilter, excludeAnomalies]);
+  const candleData = useWorkerResult(datasetLoader.candles, candleRequest, summary, NO_CANDLES);
+  const rangeData = useMemo(() => {
+    const visible = new Set(displayedData.map(d => d.ISODate));
+    return candleData.filter(c => visible.has(c.ISODate));
+  }, [candleData, displayedData]);
+
+  const rangeColor = COLORS[Math.max(selectedVarieties.indexOf(activeRangeVariety), 0) % COLORS.length];
+
+  // 匯出的欄位與圖表一致：各線條的平均價與交易量、整體平均，以及開啟的技術指標
+  const exportColumns: ExportColumn[] = [
+    { key: 'Market', header: '市場' },
+    { key: 'Name', header: '產品' },
+    ...series.flatMap(s => [
+      { key: s.key, header: `${s.name} 平均價 (元/公斤)` },
+      { key: `${s.key}_Volume`, header: `${s.name} 交易量 (公斤)` }
+    ]),
+    { key: 'Avg', header: '整體平均價 (元/公斤)' },
+    { key: 'Volume', header: '總交易量 (公斤)' },
+    ...INDICATOR_STYLES.flatMap(({ kind }) => {
+      const key = indicatorLines[kind];
+      return key ? [{ key, header: key }] : [];
+    })
+  ];
+  const exportMarkets = compareMode ? compareMarkets.join('、') : selectedMarket;
+  const exportPeriod = displayedData.length > 0 ? `${displayedData[0].Date} ~ ${displayedData[displayedData.length - 1].Date}` : '';
+  const exportName = exportFileName([
+    exportMarkets, selectedProduct, timeScale, displayedData[0]?.ISODate ?? '', displayedData[displayedData.length - 1]?.ISODate ?? ''
+  ]);
+
+  // 匯出圖片時畫上目前顯示中的線條圖例
+  const priceChartRef = useRef<HTMLDivElement>(null);
+  const volumeChartRef = useRef<HTMLDivElement>(null);
+  const visibleSeries = series.filter(s => !hiddenSeries.includes(s.key));
+  const exportCharts: ExportChart[] = [
+    {
+      id: 'price',
+      title: `${exportMarkets} ${selectedProduct} 價格走勢 ${exportPeriod}`,
+      container: priceChartRef,
+      legend: showRange
+        ? [{ label: activeRangeVariety, color: rangeColor }]
+        : [
+          ...visibleSeries.map(s => ({ label: s.name, color: s.color, dash: s.dash })),
+          ...INDICATOR_STYLES.flatMap(({ kind, color, dash }) => {
+            const key = indicatorLines[kind];
+            return key && !hiddenSeries.includes(key) ? [{ label: key, color, dash }] : [];
+          }),
+          ...(showForecast && forecastSeries && !hiddenSeries.includes(forecastLines.value)
+            ? [{ label: forecastLines.value, color: forecastSeries.color, dash: '6 4' }]
+            : [])
+        ]
+    },
+    {
+      id: 'volume',
+      title: `${exportMarkets} ${selectedProduct} 交易量 ${exportPeriod}`,
+      container: volumeChartRef,
+      legend: visibleSeries.map(s => ({ label: s.name, color: s.color }))
+    }
+  ];
+
+  // 資料瀏覽表格顯示與圖表相同日期範圍的原始資料列
+  const rowsFrom = displayedData[0]?.ISODate;
+  const rowsTo = displayedData.length > 0 ? periodEnd(displayedData[displayedData.length - 1].ISODate, timeScale) : undefined;
+  const explorerRequest = useMemo<RowsRequest>(() => ({ ...selection, from: rowsFrom, to: rowsTo }), [selection, rowsFrom, rowsTo]);
+  const explorerRows = useWorkerResult(datasetLoader.rows, explorerRequest, summary, NO_ROWS);
+
+  // 品種結構包含產品的所有品種 (不只選取的品種)，日期範圍與圖表相同；
+  // 選取的品種使用與走勢圖相同的顏色，其他品種使用灰階
+  const mixRequest = useMemo<RowsRequest>(() => ({
+    markets: selectedMarkets,
+    product: selectedProduct,
+    varieties,
+    grouping: varietyGrouping,
+    filter: varietyFilter,
+    excludeOutliers: false,
+    from: rowsFrom,
+    to: rowsTo
+  }), [selectedMarkets, selectedProduct, varieties, varietyGrouping, varietyFilter, rowsFrom, rowsTo]);
+  const mix = useWorkerResult(datasetLoader.mix, mixRequest, summary, NO_MIX);
+
+  // 季節性熱圖以完整歷史計算 (排除異常值時同樣排除)，尚未載入資料時不計算
+  const seasonalityHeatmap = useCallback(({ market, variety, metric, period }: SeasonalitySelection) => (summary
+    ? datasetLoader.seasonality({
+      markets: [market],
+      product: selectedProduct,
+      varieties: [variety],
+      grouping: varietyGrouping,
+      filter: varietyFilter,
+      excludeOutliers: excludeAnomalies,
+      metric,
+      period
+    })
+    : Promise.resolve(null)), [summary, selectedProduct, varietyGrouping, varietyFilter, excludeAnomalies]);
+  const varietyColor = (variety: string) => {
+    const index = selectedVarieties.indexOf(variety);
+    return index >= 0
+      ? COLORS[index % COLORS.length]
+      : MUTED_COLORS[Math.max(varieties.indexOf(variety), 0) % MUTED_COLORS.length];
+  };
+
+  // 各市場與基準市場的價差
+  const spreadBaseline = compareMarkets[0];
+  const spreadData = useMemo(
+    () => (compareMode && compareMarkets.length > 1 ? marketSpread(displayedData, compareMarkets) : []),
+    [compareMode, compareMarkets, displayedData]
+  );
 
   const zoom = () => {
     if (refAreaLeft === refAreaRight || refAreaRight === '') {
@@ -405,18 +658,19 @@ const App = () => {
       [leftIndex, rightIndex] = [rightIndex, leftIndex];
     }
 
-    setZoomLeftIndex(leftIndex);
-    setZoomRightIndex(rightIndex);
+    setDateRange({ from: chartData[leftIndex].ISODate, to: periodEnd(chartData[rightIndex].ISODate, timeScale) });
     setRefAreaLeft('');
     setRefAreaRight('');
   };
 
-  const zoomOut = () => {
-    setZoomLeftIndex(null);
-    setZoomRightIndex(null);
-    setRefAreaLeft('');
-    setRefAreaRight('');
-  };
+  const zoomOut = resetZoom;
+
+  // 快速選項的基準：索引記錄的資料起訖日期，舊版索引沒有記錄時以已載入的資料為準
+  const indexBounds = datasetBounds(datasetIndex);
+  const boundsFrom = indexBounds.from ?? summary?.from;
+  const boundsTo = indexBounds.to ?? summary?.to;
+  const loadedRows = summary?.rows ?? 0;
+  const bounds = boundsFrom && boundsTo ? { from: boundsFrom, to: boundsTo } : null;
 
   if (loading) {
     return (
@@ -429,6 +683,33 @@ const App = () => {
     );
   }
 
+  const retryLoad = () => {
+    if (loadedRows === 0) setLoading(true);
+    setRetryCount(count => count + 1);
+  };
+
+  // 沒有任何資料可顯示時，以錯誤畫面取代空白的儀表板
+  if (loadedRows === 0 && loadError) {
+    return (
+      <div className="min-h-screen bg-slate-950 flex items-center justify-center text-white p-8">
+        <div className="flex flex-col items-center gap-3 text-center max-w-md">
+          <CloudOff className="w-10 h-10 text-slate-500" />
+          <p className="text-lg font-semibold">無法載入市場數據</p>
+          <p className="text-sm text-slate-400">
+            {navigator.onLine ? '請稍後再試。' : '目前離線，且這個裝置尚未保存離線資料，請連線後重新開啟。'}
+          </p>
+          <p className="text-xs text-slate-600 break-all">{loadError}</p>
+          <button
+            onClick={retryLoad}
+            className="mt-2 text-sm px-4 py-1.5 rounded border border-blue-500/50 text-blue-200 hover:bg-blue-500/10"
+          >
+            重試
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 p-8 font-sans selection:bg-blue-500/30">
       <div className="max-w-7xl mx-auto space-y-8">
@@ -441,25 +722,63 @@ const App = () => {
             </h1>
             <p className="text-slate-400 mt-1">蔬菜交易行情分析與視覺化</p>
           </div>
-          <div className="flex items-center gap-2 text-sm text-slate-500 bg-slate-900/50 px-4 py-2 rounded-full border border-slate-800">
-            <Calendar className="w-4 h-4" />
-            <span>最後更新: {data.length > 0 ? data[data.length - 1].Date : '-'}</span>
+          <div className="flex items-center gap-3">
+            <ExportMenu table={() => exportTable(displayedData, exportColumns)} fileName={exportName} charts={exportCharts} />
+            <div className="flex items-center gap-2 text-sm text-slate-500 bg-slate-900/50 px-4 py-2 rounded-full border border-slate-800">
+              <Calendar className="w-4 h-4" />
+              <span>最後更新: {summary?.latest ?? '-'}</span>
+            </div>
           </div>
         </header>
 
+        {/* 離線快取與新資料提示 */}
+        <OfflineBanner />
+        {loadError && (
+          <section className="flex flex-wrap items-center justify-between gap-3 bg-slate-900/50 border border-red-500/30 rounded-xl px-4 py-3 text-sm text-red-300">
+            <span>部分資料無法載入，圖表只包含已載入的期間：{loadError}</span>
+            <button onClick={retryLoad} className="text-xs px-3 py-1 rounded border border-red-500/50 hover:bg-red-500/10">重試</button>
+          </section>
+        )}
+
+        {/* 已儲存的檢視 */}
+        <SavedViews current={currentView} onApply={applyView} />
+
+        {/* 價格警示 */}
+        <AlertsPanel market={compareMode ? compareMarkets[0] ?? '' : selectedMarket} product={selectedProduct} />
+
         {/* 篩選器 */}
         <section className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 backdrop-blur-sm">
-            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block flex items-center gap-2">
-              <Filter className="w-3 h-3" /> 市場 (Market)
-            </label>
-            <select
-              value={selectedMarket}
-              onChange={(e) => setSelectedMarket(e.target.value)}
-              className="w-full h-[42px] bg-slate-800 border border-slate-700 text-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+          <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 backdrop-blur-sm relative z-30">
+            <button
+              onClick={toggleCompareMode}
+              className={cn(
+                "absolute top-3 right-4 flex items-center gap-1 text-xs px-2 py-0.5 rounded border transition-colors",
+                compareMode ? "bg-blue-600 border-blue-500 text-white" : "border-slate-700 text-slate-400 hover:text-slate-200"
+              )}
             >
-              {markets.map(m => <option key={m} value={m}>{m}</option>)}
-            </select>
+              <ArrowLeftRight className="w-3 h-3" /> 比較
+            </button>
+            {compareMode ? (
+              <MultiSelect
+                label="比較市場 (Markets)"
+                options={markets}
+                selected={compareMarkets}
+                onChange={handleCompareMarkets}
+              />
+            ) : (
+              <>
+                <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block flex items-center gap-2">
+                  <Filter className="w-3 h-3" /> 市場 (Market)
+                </label>
+                <select
+                  value={selectedMarket}
+                  onChange={(e) => setSelectedMarket(e.target.value)}
+                  className="w-full h-[42px] bg-slate-800 border border-slate-700 text-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                >
+                  {markets.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+              </>
+            )}
           </div>
 
           <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 backdrop-blur-sm">
@@ -482,6 +801,14 @@ const App = () => {
               selected={selectedVarieties}
               onChange={setSelectedVarieties}
             />
+            <VarietyGroupControls
+              grouping={varietyGrouping}
+              onGroupingChange={setVarietyGrouping}
+              origin={originFilter}
+              onOriginChange={setOriginFilter}
+              color={colorFilter}
+              onColorChange={setColorFilter}
+            />
           </div>
 
           <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 backdrop-blur-sm">
@@ -489,28 +816,34 @@ const App = () => {
               <Calendar className="w-3 h-3" /> 統計區間
             </label>
             <div className="flex bg-slate-800 border border-slate-700 rounded-lg p-1 h-[42px]">
-              <button
-                onClick={() => setTimeScale('day')}
-                className={cn(
-                  "flex-1 py-1 px-3 rounded-md text-sm transition-all",
-                  timeScale === 'day' ? "bg-blue-600 text-white shadow-sm" : "text-slate-400 hover:text-slate-200"
-                )}
-              >
-                日 (Day)
-              </button>
-              <button
-                onClick={() => setTimeScale('month')}
-                className={cn(
-                  "flex-1 py-1 px-3 rounded-md text-sm transition-all",
-                  timeScale === 'month' ? "bg-blue-600 text-white shadow-sm" : "text-slate-400 hover:text-slate-200"
-                )}
-              >
-                月 (Month)
-              </button>
+              {GRANULARITIES.map(g => (
+                <button
+                  key={g}
+                  onClick={() => setTimeScale(g)}
+                  title={GRANULARITY_LABELS[g]}
+                  className={cn(
+                    "flex-1 py-1 px-1 rounded-md text-sm transition-all",
+                    timeScale === g ? "bg-blue-600 text-white shadow-sm" : "text-slate-400 hover:text-slate-200"
+                  )}
+                >
+                  {GRANULARITY_LABELS[g].charAt(0)}
+                </button>
+              ))}
             </div>
           </div>
         </section>
 
+        {/* 日期區間 */}
+        <section className="flex flex-wrap items-center gap-3 bg-slate-900/50 px-4 py-3 rounded-xl border border-slate-800 backdrop-blur-sm">
+          <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+            <Calendar className="w-3 h-3" /> 日期區間
+          </span>
+          <DateRangePicker range={dateRange} bounds={bounds} onChange={setDateRange} />
+          <span className="text-xs text-slate-500">
+            {dateRange === null && (timeScale === 'day' ? '未指定，顯示最近 30 筆' : '未指定，顯示全部')}
+          </span>
+        </section>
+
         {/* 統計摘要 */}
         <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 backdrop-blur-sm flex items-center justify-between">
@@ -543,70 +876,297 @@ const App = () => {
                 <TrendingUp className="w-5 h-5 text-blue-400" />
                 價格走勢 (Price Trend)
               </h3>
-              {zoomLeftIndex !== null && (
+              {!compareMode && (
+                <div className="flex items-center gap-2 ml-auto mr-2 text-xs">
+                  {showRange && (
+                    <select
+                      value={activeRangeVariety}
+                      onChange={(e) => setRangeVariety(e.target.value)}
+                      className="bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1"
+                    >
+                      {selectedVarieties.map(v => <option key={v} value={v}>{v}</option>)}
+                    </select>
+                  )}
+                  <div className="flex bg-slate-800 border border-slate-700 rounded p-0.5">
+                    {(['trend', 'range'] as const).map(view => (
+                      <button
+                        key={view}
+                        onClick={() => setPriceView(view)}
+                        className={cn(
+                          "px-2 py-0.5 rounded transition-all",
+                          priceView === view ? "bg-blue-600 text-white" : "text-slate-400 hover:text-slate-200"
+                        )}
+                      >
+                        {view === 'trend' ? '走勢' : timeScale === 'day' ? '價格區間' : 'K 線'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {dateRange !== null && (
                 <button
                   onClick={zoomOut}
                   className="flex items-center gap-1 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-1 rounded border border-slate-700 transition-colors"
                 >
-                  <ZoomOut className="w-3 h-3" /> 重置縮放
+                  <ZoomOut className="w-3 h-3" /> 清除區間
                 </button>
               )}
             </div>
-            <div className="h-[240px] w-full relative select-none">
+            {!showRange && (
+              <IndicatorControls
+                settings={indicators}
+                onChange={setIndicators}
+                base={activeIndicatorBase}
+                bases={indicatorOptions}
+                onBaseChange={setIndicatorBase}
+              />
+            )}
+            {!showRange && (
+              <ForecastControls
+                target={forecastSeries ? forecastSeries.key : null}
+                targets={series.map(s => ({ key: s.key, label: s.name }))}
+                onTargetChange={setForecastTarget}
+                horizon={forecastHorizon}
+                onHorizonChange={setForecastHorizon}
+                backtest={forecast?.backtest ?? null}
+                unavailable={forecastUnavailable}
+              />
+            )}
+            <AnomalyControls
+              outliers={outliers.length}
+              gaps={gaps.length}
+              annotate={annotate}
+              onAnnotateChange={setAnnotate}
+              exclude={excludeAnomalies}
+              onExcludeChange={setExcludeAnomalies}
+              holidays={showHolidays}
+              onHolidaysChange={setShowHolidays}
+            />
+            <div ref={priceChartRef} className="h-[240px] w-full relative select-none">
               <div className="absolute bottom-2 right-2 text-xs text-slate-500 pointer-events-none z-10">
                 (元/公斤)
               </div>
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart
-                  data={displayedData}
-                  syncId="dashboard"
-                  onMouseDown={(e) => e && e.activeLabel && setRefAreaLeft(e.activeLabel)}
-                  onMouseMove={(e) => refAreaLeft && e && e.activeLabel && setRefAreaRight(e.activeLabel)}
-                  onMouseUp={zoom}
-                >
-                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-                  <XAxis
-                    dataKey="Date"
-                    stroke="#64748b"
-                    tick={{ fill: '#64748b', fontSize: 12 }}
-                    tickLine={false}
-                    allowDataOverflow
-                  />
-                  <YAxis
-                    stroke="#64748b"
-                    tick={{ fill: '#64748b', fontSize: 12 }}
-                    tickLine={false}
-                    domain={['auto', 'auto']}
-                  />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#f1f5f9', fontSize: '12px' }}
-                    itemStyle={{ color: '#f1f5f9' }}
-                    labelStyle={{ color: '#94a3b8' }}
-                    itemSorter={(item) => (typeof item.value === 'number' ? -item.value : 0)}
-                  />
-                  <Legend onClick={handleLegendClick} cursor="pointer" />
-                  {selectedVarieties.map((variety, index) => (
-                    <Line
-                      key={variety}
-                      name={variety}
-                      type="monotone"
-                      dataKey={variety}
-                      stroke={COLORS[index % COLORS.length]}
-                      strokeWidth={2}
-                      dot={false}
-                      activeDot={{ r: 6 }}
-                      connectNulls
-                      hide={hiddenSeries.includes(variety)}
+              {showRange ? (
+                <PriceRangeChart
+                  data={rangeData}
+                  mode={timeScale === 'day' ? 'band' : 'candle'}
+                  color={rangeColor}
+                />
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart
+                    data={priceData}
+                    syncId="dashboard"
+                    onMouseDown={(e) => e && e.activeLabel && setRefAreaLeft(e.activeLabel)}
+                    onMouseMove={(e) => refAreaLeft && e && e.activeLabel && setRefAreaRight(e.activeLabel)}
+                    onMouseUp={zoom}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                    <XAxis
+                      dataKey="Date"
+                      stroke="#64748b"
+                      tick={{ fill: '#64748b', fontSize: 12 }}
+                      tickLine={false}
+                      allowDataOverflow
                     />
-                  ))}
-                  {refAreaLeft && refAreaRight ? (
-                    <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill="#3b82f6" fillOpacity={0.1} />
-                  ) : null}
-                </LineChart>
-              </ResponsiveContainer>
+                    <YAxis
+                      stroke="#64748b"
+                      tick={{ fill: '#64748b', fontSize: 12 }}
+                      tickLine={false}
+                      domain={['auto', 'auto']}
+                    />
+                    {/* 月增率 / 年增率以百分比顯示於右側座標軸 */}
+                    {(indicators.mom || indicators.yoy) && (
+                      <YAxis
+                        yAxisId="percent"
+                        orientation="right"
+                        stroke="#64748b"
+                        tick={{ fill: '#64748b', fontSize: 12 }}
+                        tickLine={false}
+                        tickFormatter={(v: number) => `${v}%`}
+                      />
+                    )}
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#f1f5f9', fontSize: '12px' }}
+                      itemStyle={{ color: '#f1f5f9' }}
+                      labelStyle={{ color: '#94a3b8' }}
+                      itemSorter={(item) => (typeof item.value === 'number' ? -item.value : 0)}
+                      formatter={(value) => (Array.isArray(value) ? value.join(' ~ ') : value)}
+                      labelFormatter={(label) => {
+                        const notes = annotate ? annotations.notes[label] : undefined;
+                        return notes ? (
+                          <>
+                            {label}
+                            {notes.map(note => <div key={note} className="max-w-xs whitespace-normal text-amber-300">{note}</div>)}
+                          </>
+                        ) : label;
+                      }}
+                    />
+                    {compareMode ? (
+                      <Legend content={() => <GroupedLegend series={series} hidden={hiddenSeries} onToggle={toggleSeries} />} />
+                    ) : (
+                      <Legend onClick={handleLegendClick} cursor="pointer" />
+                    )}
+                    {series.map(s => (
+                      <Line
+                        key={s.key}
+                        name={s.name}
+                        type="monotone"
+                        dataKey={s.key}
+                        stroke={s.color}
+                        strokeDasharray={s.dash}
+                        strokeWidth={2}
+                        dot={false}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                        hide={hiddenSeries.includes(s.key)}
+                      />
+                    ))}
+                    {INDICATOR_STYLES.map(({ kind, color, dash }) => {
+                      const key = indicatorLines[kind];
+                      return key && (
+                        <Line
+                          key={key}
+                          name={key}
+                          type="monotone"
+                          dataKey={key}
+                          yAxisId={kind === 'mom' || kind === 'yoy' ? 'percent' : undefined}
+                          stroke={color}
+                          strokeDasharray={dash}
+                          strokeWidth={1.5}
+                          dot={false}
+                          connectNulls
+                          hide={hiddenSeries.includes(key)}
+                        />
+                      );
+                    })}
+                    {/* 預測：虛線為預測價格，陰影為 95% 預測區間 */}
+                    {showForecast && forecastSeries && (
+                      <Area
+                        name={`${forecastSeries.name} 95% 預測區間`}
+                        dataKey={(row: AggregatedPoint) => (typeof row[forecastLines.lower] === 'number'
+                          ? [row[forecastLines.lower], row[forecastLines.upper]]
+                          : null)}
+                        stroke="none"
+                        fill={forecastSeries.color}
+                        fillOpacity={0.15}
+                        legendType="none"
+                        isAnimationActive={false}
+                        hide={hiddenSeries.includes(forecastLines.value)}
+                      />
+                    )}
+                    {showForecast && forecastSeries && (
+                      <Line
+                        name={forecastLines.value}
+                        type="monotone"
+                        dataKey={forecastLines.value}
+                        stroke={forecastSeries.color}
+                        strokeDasharray="6 4"
+                        strokeWidth={2}
+                        dot={false}
+                        hide={hiddenSeries.includes(forecastLines.value)}
+                      />
+                    )}
+                    {/* 國定假日 (含連假)：從假日前最後一個資料點到假日後第一個資料點 */}
+                    {showHolidays && holidays.map(area => (
+                      <ReferenceArea
+                        key={area.key}
+                        x1={area.x1}
+                        x2={area.x2}
+                        shape={({ x, y, width, height }: { x: number, y: number, width: number, height: number }) => (
+                          <rect x={x} y={y} width={width} height={height} fill="#f43f5e" fillOpacity={0.08}>
+                            <title>{area.title}</title>
+                          </rect>
+                        )}
+                      />
+                    ))}
+                    {/* 缺漏的交易日：灰色為整個市場沒有資料，彩色為該線條的品種沒有成交 (線條以 connectNulls 跨過) */}
+                    {annotate && annotations.areas.filter(visibleAnnotation).map(area => (
+                      <ReferenceArea
+                        key={area.key}
+                        x1={area.x1}
+                        x2={area.x2}
+                        shape={({ x, y, width, height }: { x: number, y: number, width: number, height: number }) => (
+                          <rect x={x} y={y} width={width} height={height} fill={seriesColor(area.series)} fillOpacity={0.12}>
+                            <title>{area.title}</title>
+                          </rect>
+                        )}
+                      />
+                    ))}
+                    {annotate && annotations.dots.filter(visibleAnnotation).map(dot => (
+                      <ReferenceDot
+                        key={dot.key}
+                        x={dot.x}
+                        y={dot.y}
+                        shape={(props: { cx: number, cy: number }) => (
+                          <circle cx={props.cx} cy={props.cy} r={5} fill="#0f172a" stroke={seriesColor(dot.series)} strokeWidth={2}>
+                            <title>{dot.title}</title>
+                          </circle>
+                        )}
+                      />
+                    ))}
+                    {refAreaLeft && refAreaRight ? (
+                      <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill="#3b82f6" fillOpacity={0.1} />
+                    ) : null}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
             </div>
           </div>
 
+          {/* 市場價差圖 */}
+          {spreadData.length > 0 && (
+            <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl shadow-black/20">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                  <ArrowLeftRight className="w-5 h-5 text-amber-400" />
+                  市場價差 (Spread)
+                </h3>
+                <span className="text-xs text-slate-500">以 {spreadBaseline} 的加權平均價為基準</span>
+              </div>
+              <div className="h-[200px] w-full relative">
+                <div className="absolute bottom-2 right-2 text-xs text-slate-500 pointer-events-none z-10">
+                  (元/公斤)
+                </div>
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={spreadData} syncId="dashboard">
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                    <XAxis
+                      dataKey="Date"
+                      stroke="#64748b"
+                      tick={{ fill: '#64748b', fontSize: 12 }}
+                      tickLine={false}
+                    />
+                    <YAxis
+                      stroke="#64748b"
+                      tick={{ fill: '#64748b', fontSize: 12 }}
+                      tickLine={false}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#f1f5f9', fontSize: '12px' }}
+                      itemStyle={{ color: '#f1f5f9' }}
+                      labelStyle={{ color: '#94a3b8' }}
+                    />
+                    <Legend />
+                    <ReferenceLine y={0} stroke="#475569" />
+                    {compareMarkets.slice(1).map((market, index) => (
+                      <Line
+                        key={market}
+                        name={spreadKey(market, spreadBaseline)}
+                        type="monotone"
+                        dataKey={spreadKey(market, spreadBaseline)}
+                        stroke={COLORS[(COLORS.length - 1 - index) % COLORS.length]}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
           {/* 交易量分析圖 */}
           <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl shadow-black/20">
             <div className="flex items-center justify-between mb-6">
@@ -614,8 +1174,24 @@ const App = () => {
                 <BarChart3 className="w-5 h-5 text-purple-400" />
                 交易量分析 (Volume Analysis)
               </h3>
+              {compareMode && (
+                <div className="flex bg-slate-800 border border-slate-700 rounded p-0.5 text-xs">
+                  {(['stack', 'group'] as const).map(layout => (
+                    <button
+                      key={layout}
+                      onClick={() => setVolumeLayout(layout)}
+                      className={cn(
+                        "px-2 py-0.5 rounded transition-all",
+                        volumeLayout === layout ? "bg-blue-600 text-white" : "text-slate-400 hover:text-slate-200"
+                      )}
+                    >
+                      {layout === 'stack' ? '堆疊' : '依市場並列'}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
-            <div className="h-[240px] w-full relative">
+            <div ref={volumeChartRef} className="h-[240px] w-full relative">
               <div className="absolute bottom-2 right-2 text-xs text-slate-500 pointer-events-none z-10">
                 (公斤)
               </div>
@@ -638,15 +1214,20 @@ const App = () => {
                     contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#f1f5f9', fontSize: '12px' }}
                     labelStyle={{ color: '#94a3b8' }}
                   />
-                  <Legend onClick={handleLegendClick} cursor="pointer" />
-                  {selectedVarieties.map((variety, index) => (
+                  {compareMode ? (
+                    <Legend content={() => <GroupedLegend series={series} hidden={hiddenSeries} onToggle={toggleSeries} shape="bar" />} />
+                  ) : (
+                    <Legend onClick={handleLegendClick} cursor="pointer" />
+                  )}
+                  {series.map(s => (
                     <Bar
-                      key={`${variety}_Volume`}
-                      name={variety}
-                      dataKey={`${variety}_Volume`}
-                      stackId="a"
-                      fill={COLORS[index % COLORS.length]}
-                      hide={hiddenSeries.includes(variety)}
+                      key={`${s.key}_Volume`}
+                      name={s.name}
+                      dataKey={`${s.key}_Volume`}
+                      stackId={compareMode && volumeLayout === 'group' ? s.market : 'a'}
+                      fill={s.color}
+                      fillOpacity={s.opacity}
+                      hide={hiddenSeries.includes(s.key)}
                     />
                   ))}
                 </BarChart>
@@ -654,41 +1235,23 @@ const App = () => {
             </div>
           </div>
 
-        </div>
+          {/* 品種結構 */}
+          <VarietyMixPanel mix={mix} period={`${exportMarkets} ${selectedProduct} ${exportPeriod}`} colorOf={varietyColor} />
+
+          {/* 季節性熱圖 */}
+          <SeasonalityPanel
+            open={seasonalityOpen}
+            onOpenChange={setSeasonalityOpen}
+            heatmapOf={seasonalityHeatmap}
+            markets={selectedMarkets}
+            varieties={selectedVarieties}
+          />
 
-        {/* 數據表格預覽 */}
-        <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
-          <div className="p-4 border-b border-slate-800 bg-slate-900/50">
-            <h3 className="font-semibold text-slate-300">近期數據 (Recent Data)</h3>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm text-left text-slate-400">
-              <thead className="text-xs text-slate-500 uppercase bg-slate-950">
-                <tr>
-                  <th className="px-6 py-3">日期</th>
-                  <th className="px-6 py-3">市場</th>
-                  <th className="px-6 py-3">產品</th>
-                  <th className="px-6 py-3">品種</th>
-                  <th className="px-6 py-3 text-right">平均價</th>
-                  <th className="px-6 py-3 text-right">交易量</th>
-                </tr>
-              </thead>
-              <tbody>
-                {chartData.slice().reverse().slice(0, 5).map((row, i) => (
-                  <tr key={i} className="border-b border-slate-800 hover:bg-slate-800/50 transition-colors">
-                    <td className="px-6 py-4">{row.Date}</td>
-                    <td className="px-6 py-4">{row.Market}</td>
-                    <td className="px-6 py-4 font-medium text-slate-200">{row.Name}</td>
-                    <td className="px-6 py-4">{row.Variety}</td>
-                    <td className="px-6 py-4 text-right text-emerald-400">${row.Avg}</td>
-                    <td className="px-6 py-4 text-right">{row.Volume}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
         </div>
 
+        {/* 資料瀏覽 */}
+        <DataExplorer rows={explorerRows} />
+
       </div>
     </div>
   );
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { BellRing, ChevronDown, ChevronUp } from 'lucide-react';
+import { loadAlerts } from '../data/loader';
+import { isoToRoc } from '../data/rocDate';
+import type { PriceAlert } from '../data/schema';
+import { cn } from '../lib/utils';
+
+const COLLAPSED_COUNT = 3;
+
+// 爬蟲依 alert-rules.json 觸發的價格警示，預設只顯示目前市場與產品的警示
+const AlertsPanel = ({ market, product }: { market: string, product: string }) => {
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    loadAlerts()
+      .then(feed => setAlerts(feed?.alerts ?? []))
+      .catch(error => console.error('Error fetching alerts:', error));
+  }, []);
+
+  if (alerts.length === 0) return null;
+
+  const relevant = showAll ? alerts : alerts.filter(a => a.market === market && a.product === product);
+  const visible = expanded ? relevant : relevant.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <section className="bg-slate-900/50 border border-amber-500/30 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-amber-300 flex items-center gap-2">
+          <BellRing className="w-4 h-4" />
+          價格警示 (Alerts)
+          <span className="text-xs font-normal text-slate-500">{relevant.length} 則</span>
+        </h3>
+        <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          顯示所有市場與產品
+        </label>
+      </div>
+      {relevant.length === 0 ? (
+        <p className="text-xs text-slate-500">目前的市場與產品沒有警示</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {visible.map(alert => (
+            <li key={alert.id} className="flex items-baseline gap-3">
+              <span className="text-xs text-slate-500 whitespace-nowrap">{isoToRoc(alert.date)}</span>
+              <span className={cn(alert.metric === 'change' && alert.value < 0 ? "text-emerald-300" : "text-slate-200")}>
+                {alert.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {relevant.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200"
+        >
+          {expanded ? <><ChevronUp className="w-3 h-3" /> 收合</> : <><ChevronDown className="w-3 h-3" /> 顯示全部 {relevant.length} 則</>}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,48 @@
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+const chipClass = (active: boolean) => cn(
+  "flex items-center gap-1 px-2 py-1 rounded border transition-colors",
+  active ? "bg-amber-500/20 border-amber-500/50 text-amber-200" : "bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200"
+);
+
+// 異常值、缺漏交易日與國定假日的標註選項；排除異常值時所有統計區間的聚合都不包含這些資料
+const AnomalyControls = ({
+  outliers,
+  gaps,
+  annotate,
+  onAnnotateChange,
+  exclude,
+  onExcludeChange,
+  holidays,
+  onHolidaysChange
+}: {
+  outliers: number,
+  gaps: number,
+  annotate: boolean,
+  onAnnotateChange: (annotate: boolean) => void,
+  exclude: boolean,
+  onExcludeChange: (exclude: boolean) => void,
+  holidays: boolean,
+  onHolidaysChange: (holidays: boolean) => void
+}) => (
+  <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+    <span className="flex items-center gap-1 text-slate-400">
+      <AlertTriangle className="w-3 h-3" /> 資料檢查
+    </span>
+    <button onClick={() => onAnnotateChange(!annotate)} className={chipClass(annotate)}>
+      標註異常值與缺漏
+    </button>
+    <button onClick={() => onExcludeChange(!exclude)} className={chipClass(exclude)} disabled={outliers === 0 && !exclude}>
+      排除異常值
+    </button>
+    <button onClick={() => onHolidaysChange(!holidays)} className={chipClass(holidays)} title="日檢視與週檢視以陰影標示連假，市場在連假期間通常休市">
+      標示國定假日
+    </button>
+    <span className="text-slate-500">
+      {outliers} 個異常值、{gaps} 段缺漏 (日檢視標示缺漏，滑鼠移到標註上可查看原因)
+    </span>
+  </div>
+);
+
+export default AnomalyControls;
@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Table } from 'lucide-react';
+import { applyColumnFilters, DEFAULT_SORT, sortRows, type ColumnFilters, type SortState } from '../data/explorer';
+import { DATASET_COLUMNS, NUMERIC_COLUMNS, type DataPoint, type DatasetColumn } from '../data/schema';
+import { cn } from '../lib/utils';
+
+const COLUMN_LABELS: Record<DatasetColumn, string> = {
+  Date: '日期',
+  Market: '市場',
+  Code: '代號',
+  Name: '產品',
+  Variety: '品種',
+  High: '上價',
+  Mid: '中價',
+  Low: '下價',
+  Avg: '平均價',
+  Volume: '交易量'
+};
+
+const FILTER_PLACEHOLDERS: Partial<Record<DatasetColumn, string>> = {
+  Date: '114/11',
+  Avg: '>100'
+};
+
+const PAGE_SIZES = [25, 50, 100];
+
+const isNumeric = (column: DatasetColumn) => (NUMERIC_COLUMNS as readonly string[]).includes(column);
+
+const pageButtonClass = "p-1 rounded border border-slate-700 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800";
+
+// 原始資料列的瀏覽表格：點擊欄位標題排序，標題下方輸入欄位篩選條件 (數值欄位可用 >、<=、10-20 等)
+const DataExplorer = ({ rows }: { rows: DataPoint[] }) => {
+  const [filters, setFilters] = useState<ColumnFilters>({});
+  const [sort, setSort] = useState<SortState>(DEFAULT_SORT);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+
+  const visible = useMemo(() => sortRows(applyColumnFilters(rows, filters), sort), [rows, filters, sort]);
+  const pageCount = Math.max(Math.ceil(visible.length / pageSize), 1);
+  // 篩選後的頁數變少時停留在最後一頁
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visible.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const toggleSort = (column: DatasetColumn) => {
+    setSort(sort.column === column
+      ? { column, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+      : { column, direction: isNumeric(column) || column === 'Date' ? 'desc' : 'asc' });
+  };
+
+  const setFilter = (column: DatasetColumn, value: string) => {
+    setFilters({ ...filters, [column]: value });
+    setPage(0);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+      <div className="p-4 border-b border-slate-800 bg-slate-900/50 flex items-center justify-between">
+        <h3 className="font-semibold text-slate-300 flex items-center gap-2">
+          <Table className="w-4 h-4 text-slate-400" />
+          資料瀏覽 (Data Explorer)
+        </h3>
+        <span className="text-xs text-slate-500">
+          {visible.length.toLocaleString()} / {rows.length.toLocaleString()} 筆
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-400">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-950">
+            <tr>
+              {DATASET_COLUMNS.map(column => (
+                <th key={column} className={cn("px-4 py-3 whitespace-nowrap", isNumeric(column) && "text-right")}>
+                  <button
+                    onClick={() => toggleSort(column)}
+                    className={cn("inline-flex items-center gap-1 hover:text-slate-300", sort.column === column && "text-slate-200")}
+                  >
+                    {COLUMN_LABELS[column]}
+                    {sort.column === column && (sort.direction === 'asc'
+                      ? <ArrowUp className="w-3 h-3" />
+                      : <ArrowDown className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+            <tr>
+              {DATASET_COLUMNS.map(column => (
+                <th key={column} className="px-2 pb-2 font-normal normal-case">
+                  <input
+                    value={filters[column] ?? ''}
+                    onChange={(e) => setFilter(column, e.target.value)}
+                    placeholder={FILTER_PLACEHOLDERS[column] ?? '篩選'}
+                    aria-label={`篩選${COLUMN_LABELS[column]}`}
+                    className={cn(
+                      "w-full min-w-16 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-300 placeholder:text-slate-600",
+                      isNumeric(column) && "text-right"
+                    )}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map(row => (
+              <tr key={`${row.Date}|${row.Market}|${row.Code}|${row.Variety}`} className="border-b border-slate-800 hover:bg-slate-800/50 transition-colors">
+                <td className="px-4 py-2 whitespace-nowrap">{row.Date}</td>
+                <td className="px-4 py-2">{row.Market}</td>
+                <td className="px-4 py-2">{row.Code}</td>
+                <td className="px-4 py-2 font-medium text-slate-200">{row.Name}</td>
+                <td className="px-4 py-2">{row.Variety}</td>
+                <td className="px-4 py-2 text-right">{row.High}</td>
+                <td className="px-4 py-2 text-right">{row.Mid}</td>
+                <td className="px-4 py-2 text-right">{row.Low}</td>
+                <td className="px-4 py-2 text-right text-emerald-400">${row.Avg}</td>
+                <td className="px-4 py-2 text-right">{row.Volume.toLocaleString()}</td>
+              </tr>
+            ))}
+            {pageRows.length === 0 && (
+              <tr>
+                <td colSpan={DATASET_COLUMNS.length} className="px-4 py-6 text-center text-slate-500">沒有符合條件的資料</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-end gap-3 p-3 text-xs text-slate-400 border-t border-slate-800">
+        <select
+          value={pageSize}
+          onChange={(e) => { setPageSize(Number(e.target.value)); setPage(0); }}
+          className="bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1"
+        >
+          {PAGE_SIZES.map(size => <option key={size} value={size}>每頁 {size} 筆</option>)}
+        </select>
+        <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className={pageButtonClass} aria-label="上一頁">
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span>第 {currentPage + 1} / {pageCount} 頁</span>
+        <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className={pageButtonClass} aria-label="下一頁">
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DataExplorer;
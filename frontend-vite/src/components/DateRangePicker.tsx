@@ -0,0 +1,93 @@
+import { useEffect, useState, type KeyboardEvent } from 'react';
+import { presetRange, RANGE_PRESETS } from '../data/dateRange';
+import { isoToRoc, parseDateInput } from '../data/rocDate';
+import { cn } from '../lib/utils';
+
+type Range = { from: string; to: string };
+
+const inputClass = "w-28 bg-slate-800 border rounded px-2 py-1 text-slate-200 placeholder:text-slate-500";
+
+// 起訖日期可輸入民國或西元日期，顯示為民國日期；快速選項以資料的最新日期為終點
+const DateRangePicker = ({
+  range,
+  bounds,
+  onChange
+}: {
+  range: Range | null,
+  bounds: Range | null,
+  onChange: (range: Range) => void
+}) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    setFrom(range ? isoToRoc(range.from) : '');
+    setTo(range ? isoToRoc(range.to) : '');
+    setInvalid(false);
+  }, [range]);
+
+  // 只填一端時另一端以資料的起訖日期補上
+  const commit = () => {
+    if (!from.trim() && !to.trim()) return;
+    const start = from.trim() ? parseDateInput(from) : bounds?.from ?? null;
+    const end = to.trim() ? parseDateInput(to) : bounds?.to ?? null;
+    if (!start || !end) {
+      setInvalid(true);
+      return;
+    }
+    setInvalid(false);
+    const next = start <= end ? { from: start, to: end } : { from: end, to: start };
+    if (next.from !== range?.from || next.to !== range?.to) onChange(next);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commit();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <input
+        value={from}
+        onChange={(e) => setFrom(e.target.value)}
+        onBlur={commit}
+        onKeyDown={onKeyDown}
+        placeholder={bounds ? isoToRoc(bounds.from) : '起始日期'}
+        aria-label="起始日期"
+        className={cn(inputClass, invalid ? "border-red-500" : "border-slate-700")}
+      />
+      <span className="text-slate-500">~</span>
+      <input
+        value={to}
+        onChange={(e) => setTo(e.target.value)}
+        onBlur={commit}
+        onKeyDown={onKeyDown}
+        placeholder={bounds ? isoToRoc(bounds.to) : '結束日期'}
+        aria-label="結束日期"
+        className={cn(inputClass, invalid ? "border-red-500" : "border-slate-700")}
+      />
+      <div className="flex bg-slate-800 border border-slate-700 rounded p-0.5">
+        {RANGE_PRESETS.map(preset => {
+          const presetValue = bounds && presetRange(preset.id, bounds);
+          const active = Boolean(presetValue && range && presetValue.from === range.from && presetValue.to === range.to);
+          return (
+            <button
+              key={preset.id}
+              disabled={!presetValue}
+              onClick={() => presetValue && onChange(presetValue)}
+              className={cn(
+                "px-2 py-0.5 rounded transition-all disabled:opacity-40",
+                active ? "bg-blue-600 text-white" : "text-slate-400 hover:text-slate-200"
+              )}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+      </div>
+      {invalid && <span className="text-red-400">無法辨識的日期，請輸入如 114/11/26 或 2025-11-26</span>}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { ChevronDown, Download, FileImage, FileSpreadsheet, FileText } from 'lucide-react';
+import { toCsv } from '../data/export';
+import { toXlsx, type Cell } from '../data/xlsx';
+import { chartImage, downloadBlob, svgToPng, type ChartImageOptions } from '../lib/download';
+
+export interface ExportChart extends ChartImageOptions {
+  id: string;
+  container: RefObject<HTMLDivElement>;
+}
+
+const itemClass = "w-full flex items-center gap-2 px-3 py-2 text-left text-slate-300 hover:bg-slate-700 transition-colors";
+
+// 匯出目前檢視：資料為圖表顯示的統計區間 (CSV / Excel)，圖表為目前畫面上的價格與交易量圖 (PNG / SVG)
+const ExportMenu = ({
+  table,
+  fileName,
+  charts
+}: {
+  table: () => Cell[][],
+  fileName: string,
+  charts: ExportChart[]
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const run = async (task: () => Promise<void> | void) => {
+    setIsOpen(false);
+    setError('');
+    try {
+      await task();
+    } catch (e) {
+      console.error('Export failed:', e);
+      setError('匯出失敗');
+    }
+  };
+
+  const exportCsv = () => downloadBlob(new Blob([toCsv(table())], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+
+  const exportXlsx = () => downloadBlob(
+    new Blob([toXlsx(table(), fileName)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${fileName}.xlsx`
+  );
+
+  const exportChart = async (chart: ExportChart, format: 'png' | 'svg') => {
+    const image = chart.container.current && chartImage(chart.container.current, chart);
+    if (!image) throw new Error(`Chart ${chart.id} is not rendered`);
+    const blob = format === 'png' ? await svgToPng(image) : new Blob([image.svg], { type: 'image/svg+xml' });
+    downloadBlob(blob, `${fileName}_${chart.id}.${format}`);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-1.5 rounded border border-slate-700 transition-colors"
+      >
+        <Download className="w-3 h-3" /> 匯出 <ChevronDown className="w-3 h-3" />
+      </button>
+      {error && <span className="absolute right-0 top-full mt-1 text-xs text-red-400 whitespace-nowrap">{error}</span>}
+      {isOpen && (
+        <div className="absolute right-0 z-40 mt-1 w-48 bg-slate-800 border border-slate-700 rounded-lg shadow-xl overflow-hidden text-xs">
+          <button onClick={() => run(exportCsv)} className={itemClass}>
+            <FileText className="w-3 h-3" /> 資料 (CSV)
+          </button>
+          <button onClick={() => run(exportXlsx)} className={itemClass}>
+            <FileSpreadsheet className="w-3 h-3" /> 資料 (Excel)
+          </button>
+          {charts.map(chart => (['png', 'svg'] as const).map(format => (
+            <button key={`${chart.id}-${format}`} onClick={() => run(() => exportChart(chart, format))} className={itemClass}>
+              <FileImage className="w-3 h-3" /> {chart.title} ({format.toUpperCase()})
+            </button>
+          )))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,71 @@
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { FORECAST_HORIZONS, type BacktestResult } from '../data/forecast';
+import { cn } from '../lib/utils';
+
+const chipClass = (active: boolean) => cn(
+  "flex items-center gap-1 px-2 py-1 rounded border transition-colors",
+  active ? "bg-blue-600/20 border-blue-500/50 text-blue-200" : "bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200"
+);
+
+// 價格預測選項：選取一條線條與預測天數，並顯示同樣天數的回測結果供判斷預測的可信度
+const ForecastControls = ({
+  target,
+  targets,
+  onTargetChange,
+  horizon,
+  onHorizonChange,
+  backtest,
+  unavailable
+}: {
+  target: string | null,
+  targets: { key: string, label: string }[],
+  onTargetChange: (key: string | null) => void,
+  horizon: number,
+  onHorizonChange: (days: number) => void,
+  backtest: BacktestResult | null,
+  // 無法在圖表上顯示預測的原因
+  unavailable: string
+}) => (
+  <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+    <span className="flex items-center gap-1 text-slate-400">
+      <LineChartIcon className="w-3 h-3" /> 預測
+    </span>
+    <button
+      onClick={() => onTargetChange(target ? null : targets[0]?.key ?? null)}
+      className={chipClass(target !== null)}
+      disabled={targets.length === 0}
+    >
+      {target ? '關閉預測' : '開啟預測'}
+    </button>
+    {target && (
+      <>
+        <select
+          value={target}
+          onChange={(e) => onTargetChange(e.target.value)}
+          className="bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1"
+        >
+          {targets.map(t => <option key={t.key} value={t.key}>{t.label}</option>)}
+        </select>
+        <select
+          value={horizon}
+          onChange={(e) => onHorizonChange(Number(e.target.value))}
+          className="bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1"
+        >
+          {FORECAST_HORIZONS.map(days => <option key={days} value={days}>未來 {days / 7} 週</option>)}
+        </select>
+        {unavailable ? (
+          <span className="text-slate-500">{unavailable}</span>
+        ) : backtest ? (
+          <span className="text-slate-500" title="以過去的資料預測同樣天數後與實際價格比較；不變預測以預測起點當天的價格作為之後每天的價格">
+            回測 {backtest.origins} 次：平均誤差 {backtest.mape}% (不變預測 {backtest.naiveMape}%)，
+            實際價格落在 95% 區間內 {backtest.coverage}%
+          </span>
+        ) : (
+          <span className="text-slate-500">資料不足，無法回測</span>
+        )}
+      </>
+    )}
+  </div>
+);
+
+export default ForecastControls;
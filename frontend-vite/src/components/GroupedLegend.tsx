@@ -0,0 +1,56 @@
+import { cn } from '../lib/utils';
+
+export interface ChartSeries {
+  key: string;
+  // name 顯示於提示框，label 顯示於市場分組內
+  name: string;
+  label: string;
+  market: string;
+  color: string;
+  // 比較模式中以線條樣式與透明度區分市場
+  dash?: string;
+  opacity?: number;
+}
+
+// 依市場分組的圖例，點擊項目切換該線條的顯示
+const GroupedLegend = ({
+  series,
+  hidden,
+  onToggle,
+  shape = 'line'
+}: {
+  series: ChartSeries[],
+  hidden: string[],
+  onToggle: (key: string) => void,
+  shape?: 'line' | 'bar'
+}) => {
+  const markets = Array.from(new Set(series.map(s => s.market)));
+
+  return (
+    <div className="flex flex-wrap justify-center gap-x-6 gap-y-1 pt-2 text-xs">
+      {markets.map(market => (
+        <div key={market} className="flex items-center gap-3">
+          <span className="font-semibold text-slate-400">{market}</span>
+          {series.filter(s => s.market === market).map(s => (
+            <button
+              key={s.key}
+              onClick={() => onToggle(s.key)}
+              className={cn("flex items-center gap-1 text-slate-300", hidden.includes(s.key) && "opacity-40 line-through")}
+            >
+              <svg width="16" height="8">
+                {shape === 'line' ? (
+                  <line x1="0" y1="4" x2="16" y2="4" stroke={s.color} strokeWidth="2" strokeDasharray={s.dash} />
+                ) : (
+                  <rect width="16" height="8" fill={s.color} fillOpacity={s.opacity ?? 1} />
+                )}
+              </svg>
+              {s.label}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default GroupedLegend;
@@ -0,0 +1,72 @@
+import { Activity } from 'lucide-react';
+import type { IndicatorSettings } from '../data/indicators';
+import { cn } from '../lib/utils';
+
+type WindowIndicator = 'sma' | 'ema' | 'volatility';
+
+// 勾選時使用的預設視窗大小
+const DEFAULT_WINDOWS: Record<WindowIndicator, number> = { sma: 7, ema: 20, volatility: 20 };
+
+const WINDOW_LABELS: Record<WindowIndicator, string> = { sma: '移動平均', ema: '指數平均', volatility: '波動度' };
+
+const chipClass = (active: boolean) => cn(
+  "flex items-center gap-1 px-2 py-1 rounded border transition-colors",
+  active ? "bg-blue-600/20 border-blue-500/50 text-blue-200" : "bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200"
+);
+
+// 價格走勢圖的技術指標選項：指標以選取的基準線條 (整體平均或單一品種) 計算
+const IndicatorControls = ({
+  settings,
+  onChange,
+  base,
+  bases,
+  onBaseChange
+}: {
+  settings: IndicatorSettings,
+  onChange: (settings: IndicatorSettings) => void,
+  base: string,
+  bases: { key: string, label: string }[],
+  onBaseChange: (key: string) => void
+}) => {
+  const toggleWindow = (kind: WindowIndicator) =>
+    onChange({ ...settings, [kind]: settings[kind] ? null : DEFAULT_WINDOWS[kind] });
+
+  const setWindow = (kind: WindowIndicator, value: number) => {
+    if (Number.isInteger(value) && value >= 2) onChange({ ...settings, [kind]: Math.min(value, 365) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+      <span className="flex items-center gap-1 text-slate-400">
+        <Activity className="w-3 h-3" /> 指標
+      </span>
+      <select
+        value={base}
+        onChange={(e) => onBaseChange(e.target.value)}
+        className="bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1"
+      >
+        {bases.map(b => <option key={b.key} value={b.key}>{b.label}</option>)}
+      </select>
+      {(Object.keys(WINDOW_LABELS) as WindowIndicator[]).map(kind => (
+        <div key={kind} className={chipClass(settings[kind] !== null)}>
+          <button onClick={() => toggleWindow(kind)}>{WINDOW_LABELS[kind]}</button>
+          {settings[kind] !== null && (
+            <input
+              type="number"
+              min={2}
+              max={365}
+              value={settings[kind] ?? ''}
+              onChange={(e) => setWindow(kind, Number(e.target.value))}
+              className="w-12 bg-slate-900 border border-slate-700 rounded px-1 text-slate-200"
+              aria-label={`${WINDOW_LABELS[kind]}期數`}
+            />
+          )}
+        </div>
+      ))}
+      <button onClick={() => onChange({ ...settings, mom: !settings.mom })} className={chipClass(settings.mom)}>月增率</button>
+      <button onClick={() => onChange({ ...settings, yoy: !settings.yoy })} className={chipClass(settings.yoy)}>年增率</button>
+    </div>
+  );
+};
+
+export default IndicatorControls;
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { checkDatasetUpdate, requestDatasetCache, type DatasetUpdate } from '../data/offline';
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('zh-TW', { dateStyle: 'short', timeStyle: 'short' });
+
+// 離線快取的狀態：有較新的資料版本時提示更新，離線時說明目前顯示的是何時保存的資料
+const OfflineBanner = () => {
+  const [update, setUpdate] = useState<DatasetUpdate>({ status: 'unavailable' });
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const check = () => checkDatasetUpdate()
+      .then(async result => {
+        setUpdate(result);
+        // 第一次開啟 (或快取被清除) 時在背景保存目前的資料，之後離線也能使用
+        if (result.status === 'uncached') {
+          setUpdate({ status: 'current', cached: await requestDatasetCache() });
+        }
+      })
+      .catch(error => console.error('Error checking dataset version:', error));
+
+    check();
+    window.addEventListener('online', check);
+    window.addEventListener('offline', check);
+    return () => {
+      window.removeEventListener('online', check);
+      window.removeEventListener('offline', check);
+    };
+  }, []);
+
+  // 下載新版本的所有資料檔後重新載入頁面，失敗時繼續使用快取的資料
+  const refresh = async () => {
+    setRefreshing(true);
+    setError(null);
+    try {
+      await requestDatasetCache();
+      window.location.reload();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+      setRefreshing(false);
+    }
+  };
+
+  if (update.status === 'offline') {
+    return (
+      <section className="flex items-center gap-2 bg-slate-900/50 border border-amber-500/30 rounded-xl px-4 py-3 text-sm text-amber-300">
+        <CloudOff className="w-4 h-4 shrink-0" />
+        目前離線，顯示{update.cached ? ` ${formatTime(update.cached.generatedAt)} ` : '先前'}保存的資料
+      </section>
+    );
+  }
+
+  if (update.status !== 'available') return null;
+
+  return (
+    <section className="flex flex-wrap items-center justify-between gap-3 bg-slate-900/50 border border-blue-500/30 rounded-xl px-4 py-3 text-sm">
+      <span className="flex items-center gap-2 text-blue-300">
+        <RefreshCw className="w-4 h-4 shrink-0" />
+        有新的市場資料 (更新於 {formatTime(update.latest.generatedAt)})
+      </span>
+      <div className="flex items-center gap-3">
+        {error && <span className="text-xs text-red-400">更新失敗：{error}</span>}
+        <button
+          onClick={refresh}
+          disabled={refreshing}
+          className="text-xs px-3 py-1 rounded border border-blue-500/50 text-blue-200 hover:bg-blue-500/10 disabled:opacity-50"
+        >
+          {refreshing ? '下載中...' : '更新資料'}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default OfflineBanner;
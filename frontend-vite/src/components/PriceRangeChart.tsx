@@ -0,0 +1,86 @@
+import { Area, Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { CandlePoint } from '../data/aggregate';
+
+// 台灣市場慣例：上漲為紅、下跌為綠
+const UP_COLOR = '#ef4444';
+const DOWN_COLOR = '#10b981';
+
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: CandlePoint;
+}
+
+// Bar 的資料為 [Low, High]，y / height 即為最高到最低價的像素範圍，再依比例換算開盤與收盤的位置
+const Candle = (props: unknown) => {
+  const { x, y, width, height, payload } = props as CandleShapeProps;
+  const { Open, Close, High, Low } = payload;
+  const toY = (value: number) => (High === Low ? y : y + height * (High - value) / (High - Low));
+  const color = Close >= Open ? UP_COLOR : DOWN_COLOR;
+  const center = x + width / 2;
+  const bodyTop = toY(Math.max(Open, Close));
+  const bodyHeight = Math.max(toY(Math.min(Open, Close)) - bodyTop, 1);
+  const bodyWidth = Math.max(Math.min(width * 0.6, 16), 2);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const CandleTooltip = ({ active, payload }: { active?: boolean, payload?: { payload: CandlePoint }[] }) => {
+  if (!active || !payload?.length) return null;
+  const d = payload[0].payload;
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded px-3 py-2 text-xs text-slate-200 space-y-0.5">
+      <div className="text-slate-400">{d.Date}</div>
+      <div className="flex gap-3"><span>開 {d.Open}</span><span>收 {d.Close}</span></div>
+      <div className="flex gap-3"><span>高 {d.High}</span><span>低 {d.Low}</span></div>
+      <div className="flex gap-3"><span>均 {d.Avg}</span><span>量 {d.Volume.toLocaleString()} kg</span></div>
+    </div>
+  );
+};
+
+// 單一品種的價格區間：日檢視以陰影帶呈現上下價區間並疊加平均價，其餘以 K 線 (開高低收) 呈現
+const PriceRangeChart = ({
+  data,
+  mode,
+  color
+}: {
+  data: CandlePoint[],
+  mode: 'band' | 'candle',
+  color: string
+}) => (
+  <ResponsiveContainer width="100%" height="100%">
+    <ComposedChart data={data} syncId="dashboard">
+      <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+      <XAxis
+        dataKey="Date"
+        stroke="#64748b"
+        tick={{ fill: '#64748b', fontSize: 12 }}
+        tickLine={false}
+      />
+      <YAxis
+        stroke="#64748b"
+        tick={{ fill: '#64748b', fontSize: 12 }}
+        tickLine={false}
+        domain={['auto', 'auto']}
+      />
+      <Tooltip content={<CandleTooltip />} />
+      {mode === 'band' ? (
+        <>
+          <Area type="monotone" dataKey="Range" stroke="none" fill={color} fillOpacity={0.2} isAnimationActive={false} />
+          <Line type="monotone" dataKey="Avg" stroke={color} strokeWidth={2} dot={false} activeDot={{ r: 6 }} />
+        </>
+      ) : (
+        <Bar dataKey="Range" shape={Candle} isAnimationActive={false} />
+      )}
+    </ComposedChart>
+  </ResponsiveContainer>
+);
+
+export default PriceRangeChart;
@@ -0,0 +1,124 @@
+import { useRef, useState } from 'react';
+import { Bookmark, Download, Link, Save, Trash2, Upload } from 'lucide-react';
+import { loadSavedViews, mergeSavedViews, parseSavedViews, serializeSavedViews, storeSavedViews, type SavedView, type ViewState } from '../data/viewState';
+import { downloadBlob } from '../lib/download';
+
+const buttonClass = "flex items-center gap-1 text-xs bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 text-slate-300 px-2 py-1.5 rounded border border-slate-700 transition-colors";
+
+// 具名檢視：儲存於 localStorage，可匯出 / 匯入為 JSON 檔案分享
+const SavedViews = ({
+  current,
+  onApply
+}: {
+  current: ViewState,
+  onApply: (view: ViewState) => void
+}) => {
+  const [views, setViews] = useState<SavedView[]>(() => loadSavedViews());
+  const [selectedName, setSelectedName] = useState('');
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const update = (next: SavedView[]) => {
+    setViews(next);
+    storeSavedViews(next);
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    update(mergeSavedViews(views, [{ name: trimmed, savedAt: new Date().toISOString(), view: current }]));
+    setSelectedName(trimmed);
+    setName('');
+    setMessage(`已儲存「${trimmed}」`);
+  };
+
+  const apply = () => {
+    const saved = views.find(v => v.name === selectedName);
+    if (saved) onApply(saved.view);
+  };
+
+  const remove = () => {
+    update(views.filter(v => v.name !== selectedName));
+    setSelectedName('');
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage('已複製目前檢視的連結');
+    } catch {
+      setMessage('無法存取剪貼簿，請直接複製網址列');
+    }
+  };
+
+  const exportViews = () => {
+    downloadBlob(new Blob([serializeSavedViews(views)], { type: 'application/json' }), 'saved-views.json');
+  };
+
+  const importViews = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseSavedViews(await file.text());
+      update(mergeSavedViews(views, imported));
+      setMessage(`已匯入 ${imported.length} 個檢視`);
+    } catch (error) {
+      setMessage(`匯入失敗：${(error as Error).message}`);
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <section className="bg-slate-900/50 p-4 rounded-xl border border-slate-800 backdrop-blur-sm flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2 mr-2">
+        <Bookmark className="w-3 h-3" /> 檢視 (Views)
+      </span>
+      <select
+        value={selectedName}
+        onChange={(e) => setSelectedName(e.target.value)}
+        className="h-8 bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 text-sm"
+      >
+        <option value="">選擇已儲存的檢視...</option>
+        {views.map(v => <option key={v.name} value={v.name}>{v.name}</option>)}
+      </select>
+      <button onClick={apply} disabled={!selectedName} className={buttonClass}>套用</button>
+      <button onClick={remove} disabled={!selectedName} className={buttonClass}>
+        <Trash2 className="w-3 h-3" /> 刪除
+      </button>
+
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && save()}
+        placeholder="檢視名稱"
+        className="h-8 w-36 bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 text-sm ml-2"
+      />
+      <button onClick={save} disabled={!name.trim()} className={buttonClass}>
+        <Save className="w-3 h-3" /> 儲存目前檢視
+      </button>
+
+      <div className="flex items-center gap-2 ml-auto">
+        {message && <span className="text-xs text-slate-500">{message}</span>}
+        <button onClick={copyLink} className={buttonClass}>
+          <Link className="w-3 h-3" /> 複製連結
+        </button>
+        <button onClick={exportViews} disabled={views.length === 0} className={buttonClass}>
+          <Download className="w-3 h-3" /> 匯出
+        </button>
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+          <Upload className="w-3 h-3" /> 匯入
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => importViews(e.target.files?.[0])}
+        />
+      </div>
+    </section>
+  );
+};
+
+export default SavedViews;
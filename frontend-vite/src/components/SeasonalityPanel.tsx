@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { CalendarDays, ChevronDown } from 'lucide-react';
+import { isoToRoc } from '../data/rocDate';
+import { SEASONAL_METRIC_LABELS, SEASONAL_PERIOD_LABELS, type SeasonalCell, type SeasonalHeatmap, type SeasonalMetric, type SeasonalPeriod } from '../data/seasonality';
+import { cn } from '../lib/utils';
+
+// 低值為藍、高值為紅
+const heatColor = (value: number, min: number, max: number) => {
+  const t = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsl(${Math.round(220 - 220 * t)}, 70%, ${Math.round(35 + 15 * t)}%)`;
+};
+
+const toggleClass = (active: boolean) => cn(
+  "px-2 py-0.5 rounded transition-all",
+  active ? "bg-blue-600 text-white" : "text-slate-400 hover:text-slate-200"
+);
+
+const cellTitle = (year: string, cell: SeasonalCell, metric: SeasonalMetric) => [
+  `${year} ${cell.label} (${isoToRoc(cell.from)} ~ ${isoToRoc(cell.to)})`,
+  cell.value === null
+    ? '沒有交易'
+    : `${SEASONAL_METRIC_LABELS[metric]} ${cell.value.toLocaleString()}${metric === 'price' ? ' 元' : ' 公斤'} (${cell.days} 個交易日)`,
+  ...cell.holidays
+].join('\n');
+
+// 熱圖顯示的市場、品種、數值與週期
+export interface SeasonalitySelection {
+  market: string;
+  variety: string;
+  metric: SeasonalMetric;
+  period: SeasonalPeriod;
+}
+
+// 季節性熱圖：單一市場與品種的完整歷史，每年一列、每週或每月一格，
+// 有假日的格子以外框標示，方便比較春節、颱風季等季節性的價格變化
+const SeasonalityPanel = ({
+  open,
+  onOpenChange,
+  heatmapOf,
+  markets,
+  varieties
+}: {
+  // 展開時才載入並計算完整歷史
+  open: boolean,
+  onOpenChange: (open: boolean) => void,
+  // 計算熱圖 (在資料 Worker 中進行)，尚未載入資料時回傳 null
+  heatmapOf: (selection: SeasonalitySelection) => Promise<SeasonalHeatmap | null>,
+  markets: string[],
+  varieties: string[]
+}) => {
+  const [market, setMarket] = useState('');
+  const [variety, setVariety] = useState('');
+  const [metric, setMetric] = useState<SeasonalMetric>('price');
+  const [period, setPeriod] = useState<SeasonalPeriod>('week');
+
+  // 選取的市場或品種不在目前的篩選條件中時改用第一個
+  const activeMarket = markets.includes(market) ? market : markets[0] ?? '';
+  const activeVariety = varieties.includes(variety) ? variety : varieties[0] ?? '';
+
+  const [heatmap, setHeatmap] = useState<SeasonalHeatmap | null>(null);
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    heatmapOf({ market: activeMarket, variety: activeVariety, metric, period })
+      .then(result => { if (!cancelled) setHeatmap(result); })
+      .catch(error => console.error("Error computing seasonality:", error));
+    return () => { cancelled = true; };
+  }, [open, heatmapOf, activeMarket, activeVariety, metric, period]);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl shadow-black/20">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button onClick={() => onOpenChange(!open)} className="text-lg font-semibold flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-rose-400" />
+          季節性 (Seasonality)
+          <ChevronDown className={cn("w-4 h-4 text-slate-500 transition-transform", open && "rotate-180")} />
+        </button>
+        {open && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              value={activeMarket}
+              onChange={(e) => setMarket(e.target.value)}
+              className="bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1"
+            >
+              {markets.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+            <select
+              value={activeVariety}
+              onChange={(e) => setVariety(e.target.value)}
+              className="bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1"
+            >
+              {varieties.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+            <div className="flex bg-slate-800 border border-slate-700 rounded p-0.5">
+              {(Object.keys(SEASONAL_METRIC_LABELS) as SeasonalMetric[]).map(m => (
+                <button key={m} onClick={() => setMetric(m)} className={toggleClass(metric === m)}>
+                  {SEASONAL_METRIC_LABELS[m]}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-slate-800 border border-slate-700 rounded p-0.5">
+              {(Object.keys(SEASONAL_PERIOD_LABELS) as SeasonalPeriod[]).map(p => (
+                <button key={p} onClick={() => setPeriod(p)} className={toggleClass(period === p)}>
+                  {SEASONAL_PERIOD_LABELS[p]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {open && heatmap && (
+        heatmap.rows.length === 0 ? (
+          <p className="text-xs text-slate-500 mt-4">選取的市場與品種沒有資料</p>
+        ) : (
+          <div className="mt-6 overflow-x-auto">
+            <table className="w-full border-separate border-spacing-0.5 text-[10px] text-slate-500">
+              <thead>
+                <tr>
+                  <th />
+                  {heatmap.labels.map((label, i) => (
+                    <th key={label} className="font-normal">
+                      {/* 週檢視每 4 週標示一次 */}
+                      {period === 'month' || i % 4 === 0 ? label : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.rows.map(({ year, cells }) => (
+                  <tr key={year}>
+                    <th className="font-normal text-right pr-2 text-xs text-slate-400">{year}</th>
+                    {cells.map(cell => (
+                      <td
+                        key={cell.slot}
+                        title={cellTitle(year, cell, metric)}
+                        className={cn(
+                          "h-6 min-w-[10px] rounded-sm",
+                          cell.value === null && "bg-slate-800/50",
+                          cell.holidays.length > 0 && "outline outline-1 outline-rose-300/70"
+                        )}
+                        style={cell.value === null ? undefined : { backgroundColor: heatColor(cell.value, heatmap.min, heatmap.max) }}
+                      />
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-slate-500">
+              <span className="flex items-center gap-2">
+                {heatmap.min.toLocaleString()}
+                <span
+                  className="inline-block w-24 h-2 rounded"
+                  style={{ background: `linear-gradient(to right, ${heatColor(0, 0, 1)}, ${heatColor(0.5, 0, 1)}, ${heatColor(1, 0, 1)})` }}
+                />
+                {heatmap.max.toLocaleString()} {metric === 'price' ? '元' : '公斤'}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="inline-block w-3 h-3 rounded-sm outline outline-1 outline-rose-300/70" />
+                國定假日或農曆節日 (滑鼠移到格子上可查看)
+              </span>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default SeasonalityPanel;
@@ -0,0 +1,52 @@
+import type { VarietyColor, VarietyOrigin } from '../data/schema';
+import { COLOR_CLASS_LABELS, ORIGIN_LABELS, VARIETY_GROUPING_LABELS, VARIETY_GROUPINGS, type VarietyGrouping } from '../data/taxonomy';
+
+const selectClass = "flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-1";
+
+// 品種分組 (依品種、合併國產與進口、產地或顏色) 與產地 / 顏色篩選，依品種分類設定 (taxonomy.json)
+const VarietyGroupControls = ({
+  grouping,
+  onGroupingChange,
+  origin,
+  onOriginChange,
+  color,
+  onColorChange
+}: {
+  grouping: VarietyGrouping,
+  onGroupingChange: (grouping: VarietyGrouping) => void,
+  origin: VarietyOrigin | null,
+  onOriginChange: (origin: VarietyOrigin | null) => void,
+  color: VarietyColor | null,
+  onColorChange: (color: VarietyColor | null) => void
+}) => (
+  <div className="flex gap-2 mt-2 text-xs">
+    <select
+      value={grouping}
+      onChange={(e) => onGroupingChange(e.target.value as VarietyGrouping)}
+      className={selectClass}
+      title="分組方式"
+    >
+      {VARIETY_GROUPINGS.map(g => <option key={g} value={g}>依{VARIETY_GROUPING_LABELS[g]}</option>)}
+    </select>
+    <select
+      value={origin ?? ''}
+      onChange={(e) => onOriginChange((e.target.value || null) as VarietyOrigin | null)}
+      className={selectClass}
+      title="產地"
+    >
+      <option value="">所有產地</option>
+      {(Object.keys(ORIGIN_LABELS) as VarietyOrigin[]).map(o => <option key={o} value={o}>{ORIGIN_LABELS[o]}</option>)}
+    </select>
+    <select
+      value={color ?? ''}
+      onChange={(e) => onColorChange((e.target.value || null) as VarietyColor | null)}
+      className={selectClass}
+      title="顏色"
+    >
+      <option value="">所有顏色</option>
+      {(Object.keys(COLOR_CLASS_LABELS) as VarietyColor[]).map(c => <option key={c} value={c}>{COLOR_CLASS_LABELS[c]}</option>)}
+    </select>
+  </div>
+);
+
+export default VarietyGroupControls;
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { Area, AreaChart, CartesianGrid, Cell, Legend, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { PieChart as PieChartIcon } from 'lucide-react';
+import { MIX_METRIC_LABELS, type MixMetric, type MixPoint, type VarietyMix } from '../data/mix';
+import { ORIGIN_LABELS } from '../data/taxonomy';
+import { cn } from '../lib/utils';
+
+const ORIGIN_COLORS: Record<string, string> = { [ORIGIN_LABELS.domestic]: '#10b981', [ORIGIN_LABELS.imported]: '#f59e0b' };
+
+const tooltipProps = {
+  contentStyle: { backgroundColor: '#0f172a', borderColor: '#1e293b', color: '#f1f5f9', fontSize: '12px' },
+  itemStyle: { color: '#f1f5f9' },
+  labelStyle: { color: '#94a3b8' },
+  formatter: (value: unknown) => `${value}%`
+};
+
+// 每月各組別百分比的 100% 堆疊面積圖
+const MixChart = ({ points, groups, colorOf }: { points: MixPoint[], groups: string[], colorOf: (group: string) => string }) => (
+  <ResponsiveContainer width="100%" height="100%">
+    <AreaChart data={points}>
+      <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+      <XAxis dataKey="Date" stroke="#64748b" tick={{ fill: '#64748b', fontSize: 12 }} tickLine={false} />
+      <YAxis
+        stroke="#64748b"
+        tick={{ fill: '#64748b', fontSize: 12 }}
+        tickLine={false}
+        domain={[0, 100]}
+        tickFormatter={(v: number) => `${v}%`}
+      />
+      <Tooltip {...tooltipProps} />
+      <Legend />
+      {groups.map(group => (
+        <Area
+          key={group}
+          type="monotone"
+          dataKey={group}
+          stackId="mix"
+          stroke={colorOf(group)}
+          fill={colorOf(group)}
+          fillOpacity={0.6}
+          isAnimationActive={false}
+        />
+      ))}
+    </AreaChart>
+  </ResponsiveContainer>
+);
+
+// 品種結構：期間內各品種佔交易量 / 交易金額的比例、每月的變化，以及國產與進口品種的比例
+const VarietyMixPanel = ({
+  mix,
+  period,
+  colorOf
+}: {
+  // 目前市場、產品與日期範圍內所有品種的比例 (由資料 Worker 計算)
+  mix: VarietyMix,
+  period: string,
+  colorOf: (variety: string) => string
+}) => {
+  const [metric, setMetric] = useState<MixMetric>('volume');
+
+  const { shares } = mix;
+  const byVariety = mix.varieties[metric];
+  const origins = mix.origins[metric];
+  const shareKey = metric === 'volume' ? 'volumeShare' : 'valueShare';
+  const unit = metric === 'volume' ? '公斤' : '元';
+
+  if (shares.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-xl shadow-black/20">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <PieChartIcon className="w-5 h-5 text-emerald-400" />
+          品種結構 (Variety Mix)
+          <span className="text-xs font-normal text-slate-500">{period}</span>
+        </h3>
+        <div className="flex bg-slate-800 border border-slate-700 rounded p-0.5 text-xs">
+          {(Object.keys(MIX_METRIC_LABELS) as MixMetric[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={cn(
+                "px-2 py-0.5 rounded transition-all",
+                metric === m ? "bg-blue-600 text-white" : "text-slate-400 hover:text-slate-200"
+              )}
+            >
+              {MIX_METRIC_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <div className="h-[180px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie
+                  data={shares}
+                  dataKey={shareKey}
+                  nameKey="variety"
+                  innerRadius="55%"
+                  outerRadius="90%"
+                  stroke="#0f172a"
+                  isAnimationActive={false}
+                >
+                  {shares.map(s => <Cell key={s.variety} fill={colorOf(s.variety)} />)}
+                </Pie>
+                <Tooltip {...tooltipProps} />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+          <table className="w-full text-xs">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="text-left font-normal pb-1">品種</th>
+                <th className="text-right font-normal pb-1">{MIX_METRIC_LABELS[metric]} ({unit})</th>
+                <th className="text-right font-normal pb-1">佔比</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {shares.map(s => (
+                <tr key={s.variety}>
+                  <td className="py-0.5">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: colorOf(s.variety) }} />
+                    {s.variety}
+                  </td>
+                  <td className="text-right">{s[metric].toLocaleString()}</td>
+                  <td className="text-right">{s[shareKey]}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <div>
+            <h4 className="text-sm text-slate-400 mb-2">每月品種佔比</h4>
+            {byVariety.points.length < 2 ? (
+              <p className="text-xs text-slate-500">選取跨越多個月份的日期區間以查看每月的變化</p>
+            ) : (
+              <div className="h-[200px]">
+                <MixChart points={byVariety.points} groups={byVariety.groups} colorOf={colorOf} />
+              </div>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm text-slate-400 mb-2">國產與進口佔比</h4>
+            {!origins.groups.includes(ORIGIN_LABELS.imported) ? (
+              <p className="text-xs text-slate-500">期間內沒有進口品種的交易</p>
+            ) : origins.points.length < 2 ? (
+              <p className="text-xs text-slate-500">
+                期間內進口品種佔 {origins.points[0]?.[ORIGIN_LABELS.imported] ?? 0}%，選取跨越多個月份的日期區間以查看每月的變化
+              </p>
+            ) : (
+              <div className="h-[160px]">
+                <MixChart points={origins.points} groups={origins.groups} colorOf={group => ORIGIN_COLORS[group]} />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VarietyMixPanel;
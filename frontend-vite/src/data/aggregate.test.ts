@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { aggregate, aggregateMarkets, candles, marketSpread, weightedAvg } from './aggregate';
+import { makePoint } from './testing';
+
+const point = (Date: string, Variety: string, Avg: number, Volume: number) => makePoint({ Date, Variety, Avg, Volume });
+
+const data = [
+  point('114/11/03', '紅小', 100, 10),
+  point('114/11/04', '紅小', 40, 30),
+  point('114/11/04', '青小', 60, 20),
+  point('114/12/01', '紅小', 80, 0),
+  point('114/12/02', '紅小', 60, 0)
+];
+
+describe('weightedAvg', () => {
+  it('weights prices by volume', () => {
+    expect(weightedAvg(data.slice(0, 2))).toBe(55);
+  });
+
+  it('falls back to a simple mean when there is no volume', () => {
+    expect(weightedAvg(data.slice(3))).toBe(70);
+  });
+});
+
+describe('aggregate', () => {
+  const options = { market: '一市', product: '辣椒', varieties: ['紅小', '青小'] };
+
+  it('groups by day', () => {
+    const result = aggregate(data, { ...options, granularity: 'day' });
+    expect(result.map(r => r.Date)).toEqual(['114/11/03', '114/11/04', '114/12/01', '114/12/02']);
+    expect(result[1]).toMatchObject({ 紅小: 40, 青小: 60, 紅小_Volume: 30, Volume: 50, Avg: 48 });
+    expect(result[0].青小).toBeNull();
+  });
+
+  it('groups by week, month, quarter and year with volume-weighted averages', () => {
+    const weeks = aggregate(data, { ...options, granularity: 'week' });
+    expect(weeks.map(r => r.ISODate)).toEqual(['2025-11-03', '2025-12-01']);
+
+    const months = aggregate(data, { ...options, granularity: 'month' });
+    expect(months[0]).toMatchObject({ Date: '114/11', ISODate: '2025-11-01', 紅小: 55, Volume: 60 });
+    expect(months[1]).toMatchObject({ Date: '114/12', 紅小: 70 });
+
+    const quarters = aggregate(data, { ...options, granularity: 'quarter' });
+    expect(quarters).toHaveLength(1);
+    expect(quarters[0]).toMatchObject({ Date: '114 Q4', ISODate: '2025-10-01' });
+
+    const years = aggregate(data, { ...options, granularity: 'year' });
+    expect(years).toHaveLength(1);
+    expect(years[0]).toMatchObject({ Date: '114', ISODate: '2025-01-01' });
+  });
+
+  it('returns nothing when no variety is selected', () => {
+    expect(aggregate(data, { ...options, varieties: [], granularity: 'day' })).toEqual([]);
+  });
+});
+
+describe('aggregateMarkets', () => {
+  const markets = [...data, { ...point('114/11/04', '紅小', 70, 10), Market: '二市' }];
+
+  it('puts every market and variety side by side with the spread to the first market', () => {
+    const rows = aggregateMarkets(markets, {
+      markets: ['一市', '二市'], product: '辣椒', varieties: ['紅小'], granularity: 'day'
+    });
+    expect(rows.map(r => r.Date)).toEqual(['114/11/03', '114/11/04', '114/12/01', '114/12/02']);
+    expect(rows[1]).toMatchObject({
+      '一市·紅小': 40, '一市·紅小_Volume': 30, '二市·紅小': 70, '二市·紅小_Volume': 10,
+      一市: 40, 二市: 70, Volume: 40, Avg: 48, Market: '一市、二市'
+    });
+    expect(rows[0]['二市·紅小']).toBeNull();
+
+    const spread = marketSpread(rows, ['一市', '二市']);
+    expect(spread.map(r => r['二市 − 一市'])).toEqual([null, 30, null, null]);
+  });
+});
+
+describe('candles', () => {
+  const ranged = [
+    { ...point('114/11/03', '紅小', 100, 10), High: 130, Low: 70 },
+    { ...point('114/11/04', '紅小', 40, 30), High: 60, Low: 20 },
+    { ...point('114/11/05', '紅小', 50, 10), High: 90, Low: 0 }
+  ];
+
+  it('draws a high-low band per day and opens and closes on the first and last day of a month', () => {
+    const options = { market: '一市', product: '辣椒', variety: '紅小' };
+    expect(candles(ranged, { ...options, granularity: 'day' })[0]).toMatchObject({
+      Date: '114/11/03', Open: 100, Close: 100, High: 130, Low: 70, Range: [70, 130]
+    });
+    expect(candles(ranged, { ...options, granularity: 'month' })).toEqual([{
+      Date: '114/11', ISODate: '2025-11-01', Open: 100, High: 130, Low: 20, Close: 50, Avg: 54, Volume: 50, Range: [20, 130]
+    }]);
+  });
+});
@@ -0,0 +1,292 @@
+import type { AggregatedPoint, DataPoint, Granularity } from './schema';
+import { isoMonthToRoc, isoQuarter, isoQuarterToRoc, isoToRoc, isoWeekStart, isoYearToRoc, rocToIso } from './rocDate';
+
+export interface AggregateOptions {
+  market: string;
+  product: string;
+  varieties: string[];
+  granularity: Granularity;
+}
+
+const isoOf = (d: DataPoint) => d.ISODate || rocToIso(d.Date);
+
+// 依統計區間取得分組鍵 (皆為 ISO 格式，可直接排序)
+export const periodKey = (isoDate: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'week':
+      return isoWeekStart(isoDate);
+    case 'month':
+      return isoDate.substring(0, 7);
+    case 'quarter':
+      return isoQuarter(isoDate);
+    case 'year':
+      return isoDate.substring(0, 4);
+    default:
+      return isoDate;
+  }
+};
+
+// 分組鍵 -> 顯示用的民國日期與代表該區間的 ISO 日期
+export const periodLabel = (key: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'month':
+      return { Date: isoMonthToRoc(key), ISODate: `${key}-01` };
+    case 'quarter': {
+      const month = (parseInt(key.substring(6)) - 1) * 3 + 1;
+      return { Date: isoQuarterToRoc(key), ISODate: `${key.substring(0, 4)}-${String(month).padStart(2, '0')}-01` };
+    }
+    case 'year':
+      return { Date: isoYearToRoc(key), ISODate: `${key}-01-01` };
+    default:
+      return { Date: isoToRoc(key), ISODate: key };
+  }
+};
+
+export const sumVolume = (points: DataPoint[]) => points.reduce((sum, d) => sum + d.Volume, 0);
+
+// 交易量加權平均價；若交易量皆為 0 則退回簡單平均
+export const weightedAvg = (points: DataPoint[]) => {
+  if (points.length === 0) return 0;
+  const vol = sumVolume(points);
+  return vol > 0
+    ? points.reduce((sum, d) => sum + (d.Avg * d.Volume), 0) / vol
+    : points.reduce((sum, d) => sum + d.Avg, 0) / points.length;
+};
+
+export interface SeriesSelection {
+  markets: string[];
+  product: string;
+  varieties: string[];
+}
+
+// 各市場×品種每日的交易量加權平均價，依日期排序
+export const dailySeries = (data: DataPoint[], { markets, product, varieties }: SeriesSelection) => {
+  const series = new Map<string, { market: string; variety: string; days: Map<string, DataPoint[]> }>();
+  data.forEach(d => {
+    if (d.Name !== product || !markets.includes(d.Market) || !varieties.includes(d.Variety)) return;
+    const key = `${d.Market}|${d.Variety}`;
+    if (!series.has(key)) series.set(key, { market: d.Market, variety: d.Variety, days: new Map() });
+    const days = series.get(key)!.days;
+    const iso = isoOf(d);
+    if (!days.has(iso)) days.set(iso, []);
+    days.get(iso)!.push(d);
+  });
+  return Array.from(series.values()).map(({ market, variety, days }) => ({
+    market,
+    variety,
+    points: Array.from(days.keys()).sort().map(iso => ({ iso, value: weightedAvg(days.get(iso)!) }))
+  }));
+};
+
+export const distinct = <K extends keyof DataPoint>(data: DataPoint[], field: K) =>
+  Array.from(new Set(data.map(d => d[field]))) as DataPoint[K][];
+
+export const filterPoints = (data: DataPoint[], market: string, product: string, varieties: string[]) =>
+  data.filter(d => d.Market === market && d.Name === product && varieties.includes(d.Variety));
+
+// 聚合過程中累計的交易量、交易金額與平均價總和，結果與 sumVolume / weightedAvg 相同
+interface Totals {
+  volume: number;
+  value: number;
+  avgSum: number;
+  count: number;
+}
+
+const emptyTotals = (): Totals => ({ volume: 0, value: 0, avgSum: 0, count: 0 });
+
+const addPoint = (totals: Totals, d: DataPoint) => {
+  totals.volume += d.Volume;
+  totals.value += d.Avg * d.Volume;
+  totals.avgSum += d.Avg;
+  totals.count++;
+};
+
+const totalsAvg = (totals: Totals) => (totals.volume > 0 ? totals.value / totals.volume : totals.avgSum / totals.count);
+
+// 依市場、產品、品種篩選後，按統計區間聚合為圖表資料；
+// 每列資料只走訪一次，同時累計區間整體與各品種的合計
+export const aggregate = (data: DataPoint[], options: AggregateOptions): AggregatedPoint[] => {
+  const { market, product, varieties, granularity } = options;
+  if (!market || !product || varieties.length === 0) return [];
+
+  const groups = new Map<string, { total: Totals; varieties: Map<string, Totals> }>();
+  filterPoints(data, market, product, varieties).forEach(d => {
+    const key = periodKey(isoOf(d), granularity);
+    let group = groups.get(key);
+    if (!group) {
+      group = { total: emptyTotals(), varieties: new Map() };
+      groups.set(key, group);
+    }
+    addPoint(group.total, d);
+    let variety = group.varieties.get(d.Variety);
+    if (!variety) {
+      variety = emptyTotals();
+      group.varieties.set(d.Variety, variety);
+    }
+    addPoint(variety, d);
+  });
+
+  const aggregated: AggregatedPoint[] = [];
+
+  groups.forEach((group, key) => {
+    const entry: AggregatedPoint = {
+      ...periodLabel(key, granularity),
+      Volume: Math.round(group.total.volume),
+      Avg: Math.round(totalsAvg(group.total)),
+      Market: market,
+      Name: product
+    };
+
+    // 為每個選取的品種計算價格和交易量
+    varieties.forEach(v => {
+      const totals = group.varieties.get(v);
+      if (totals) {
+        entry[v] = Math.round(totalsAvg(totals));
+        entry[`${v}_Volume`] = Math.round(totals.volume);
+      } else {
+        entry[v] = null;
+        entry[`${v}_Volume`] = 0;
+      }
+    });
+
+    aggregated.push(entry);
+  });
+
+  return aggregated.sort((a, b) => a.ISODate.localeCompare(b.ISODate));
+};
+
+export interface MarketComparisonOptions extends Omit<AggregateOptions, 'market'> {
+  markets: string[];
+}
+
+// 比較模式中每條線的鍵，例如「二市·紅小」
+export const seriesKey = (market: string, variety: string) => `${market}·${variety}`;
+
+// 多市場比較：每個統計區間一列，包含各市場×品種的價格與交易量 (seriesKey)，
+// 以及各市場所有選取品種的加權平均價 (市場名稱) 與交易量 (<市場>_Volume)
+export const aggregateMarkets = (data: DataPoint[], options: MarketComparisonOptions): AggregatedPoint[] => {
+  const { markets, product, varieties, granularity } = options;
+  const rows = new Map<string, AggregatedPoint>();
+
+  markets.forEach(market => {
+    aggregate(data, { market, product, varieties, granularity }).forEach(point => {
+      if (!rows.has(point.ISODate)) {
+        const row: AggregatedPoint = {
+          Date: point.Date,
+          ISODate: point.ISODate,
+          Volume: 0,
+          Avg: 0,
+          Market: markets.join('、'),
+          Name: product
+        };
+        // 該區間沒有交易的市場保持 null，線條會略過
+        markets.forEach(m => {
+          row[m] = null;
+          row[`${m}_Volume`] = 0;
+          varieties.forEach(v => {
+            row[seriesKey(m, v)] = null;
+            row[`${seriesKey(m, v)}_Volume`] = 0;
+          });
+        });
+        rows.set(point.ISODate, row);
+      }
+      const row = rows.get(point.ISODate)!;
+      row[market] = point.Avg;
+      row[`${market}_Volume`] = point.Volume;
+      varieties.forEach(v => {
+        row[seriesKey(market, v)] = point[v];
+        row[`${seriesKey(market, v)}_Volume`] = point[`${v}_Volume`];
+      });
+    });
+  });
+
+  // 整體交易量與跨市場的交易量加權平均價
+  rows.forEach(row => {
+    const traded = markets.filter(m => row[m] !== null);
+    const volume = traded.reduce((sum, m) => sum + (row[`${m}_Volume`] as number), 0);
+    row.Volume = volume;
+    row.Avg = Math.round(volume > 0
+      ? traded.reduce((sum, m) => sum + (row[m] as number) * (row[`${m}_Volume`] as number), 0) / volume
+      : traded.reduce((sum, m) => sum + (row[m] as number), 0) / Math.max(traded.length, 1));
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.ISODate.localeCompare(b.ISODate));
+};
+
+// 價差的鍵，例如「二市 − 一市」
+export const spreadKey = (market: string, baseline: string) => `${market} − ${baseline}`;
+
+// 以第一個市場為基準，其他市場的加權平均價與基準的差額；任一方沒有交易時為 null
+export const marketSpread = (rows: AggregatedPoint[], markets: string[]) => {
+  const [baseline, ...others] = markets;
+  return rows.map(row => {
+    const spread: AggregatedPoint = { ...row };
+    others.forEach(m => {
+      const price = row[m];
+      const base = row[baseline];
+      spread[spreadKey(m, baseline)] = typeof price === 'number' && typeof base === 'number' ? price - base : null;
+    });
+    return spread;
+  });
+};
+
+export interface CandleOptions {
+  market: string;
+  product: string;
+  variety: string;
+  granularity: Granularity;
+}
+
+// 單一品種每個統計區間的價格區間：開盤 / 收盤為區間第一天 / 最後一天的平均價，
+// 最高 / 最低為區間內上價 / 下價的極值，Range 為 [Low, High] 供區間圖使用
+export interface CandlePoint {
+  Date: string;
+  ISODate: string;
+  Open: number;
+  High: number;
+  Low: number;
+  Close: number;
+  Avg: number;
+  Volume: number;
+  Range: [number, number];
+}
+
+export const candles = (data: DataPoint[], options: CandleOptions): CandlePoint[] => {
+  const { market, product, variety, granularity } = options;
+  if (!market || !product || !variety) return [];
+
+  const days = new Map<string, DataPoint[]>();
+  filterPoints(data, market, product, [variety]).forEach(d => {
+    const iso = isoOf(d);
+    if (!days.has(iso)) days.set(iso, []);
+    days.get(iso)!.push(d);
+  });
+
+  const periods = new Map<string, string[]>();
+  Array.from(days.keys()).sort().forEach(iso => {
+    const key = periodKey(iso, granularity);
+    if (!periods.has(key)) periods.set(key, []);
+    periods.get(key)!.push(iso);
+  });
+
+  return Array.from(periods, ([key, isoDates]) => {
+    const points = isoDates.flatMap(iso => days.get(iso)!);
+    // 沒有報價 (0) 的上價 / 下價不列入極值
+    const highs = points.map(d => d.High).filter(v => v > 0);
+    const lows = points.map(d => d.Low).filter(v => v > 0);
+    const avg = Math.round(weightedAvg(points));
+    const high = highs.length > 0 ? Math.max(...highs) : avg;
+    const low = lows.length > 0 ? Math.min(...lows) : avg;
+
+    return {
+      ...periodLabel(key, granularity),
+      Open: Math.round(weightedAvg(days.get(isoDates[0])!)),
+      High: high,
+      Low: low,
+      Close: Math.round(weightedAvg(days.get(isoDates[isoDates.length - 1])!)),
+      Avg: avg,
+      Volume: Math.round(sumVolume(points)),
+      Range: [low, high] as [number, number]
+    };
+  });
+};
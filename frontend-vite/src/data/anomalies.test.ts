@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { aggregate } from './aggregate';
+import { chartAnnotations, detectOutliers, excludeOutliers, findGaps, tradingWeekdays } from './anomalies';
+import { addDays, isoToRoc } from './rocDate';
+import type { DataPoint } from './schema';
+import { makePoint } from './testing';
+
+const point = (iso: string, Variety: string, Avg: number, Volume = 10) =>
+  makePoint({ Date: isoToRoc(iso), Variety, Avg, Volume, spread: 10 });
+
+// 2025-11-04 (週二) 至 11-23：週一休市，11-13 (週四) 整個市場沒有資料，
+// 紅小在 11-15 從 40 跳到 290，青小在 11-19 沒有成交
+const days: string[] = [];
+for (let day = '2025-11-04'; day <= '2025-11-23'; day = addDays(day, 1)) {
+  if (day !== '2025-11-10' && day !== '2025-11-17' && day !== '2025-11-13') days.push(day);
+}
+const data = days.flatMap((day, i) => [
+  point(day, '紅小', day === '2025-11-15' ? 290 : 40 + (i % 3)),
+  ...(day === '2025-11-19' ? [] : [point(day, '青小', 30)])
+]);
+
+const selection = { markets: ['一市'], product: '辣椒', varieties: ['紅小', '青小'] };
+
+describe('detectOutliers', () => {
+  it('flags a single-day spike against the surrounding median', () => {
+    const outliers = detectOutliers(data, selection);
+    expect(outliers).toHaveLength(1);
+    expect(outliers[0]).toMatchObject({ variety: '紅小', ISODate: '2025-11-15', Date: '114/11/15', value: 290, median: 41 });
+    expect(outliers[0].reason).toContain('為前後 14 個交易日中位數 41 元的 7.1 倍');
+  });
+
+  it('does not flag a sustained level change', () => {
+    const shifted = days.map((day, i) => point(day, '紅小', i < 8 ? 40 : 80));
+    expect(detectOutliers(shifted, selection)).toEqual([]);
+  });
+
+  it('removes outliers from the aggregates when excluded', () => {
+    const options = { market: '一市', product: '辣椒', varieties: ['紅小'], granularity: 'week' as const };
+    const week = (rows: DataPoint[]) => aggregate(rows, options).find(r => r.ISODate === '2025-11-10')!['紅小'];
+    expect(week(data)).toBe(91);
+    expect(week(excludeOutliers(data, detectOutliers(data, selection)))).toBe(41);
+  });
+});
+
+describe('findGaps', () => {
+  it('learns the weekly closing day of a market', () => {
+    expect(Array.from(tradingWeekdays(days)).sort()).toEqual([0, 2, 3, 4, 5, 6]);
+  });
+
+  it('reports market-wide missing days and days a variety did not trade', () => {
+    expect(findGaps(data, selection).map(g => [g.variety ?? '', g.from, g.to, g.days])).toEqual([
+      ['', '2025-11-13', '2025-11-13', 1],
+      ['青小', '2025-11-19', '2025-11-19', 1]
+    ]);
+  });
+});
+
+describe('chartAnnotations', () => {
+  const outliers = detectOutliers(data, selection);
+  const gaps = findGaps(data, selection);
+  const seriesOf = (_market: string, variety: string) => variety;
+
+  it('marks outliers and the segments bridging gaps in the day view', () => {
+    const rows = aggregate(data, { market: '一市', product: '辣椒', varieties: ['紅小', '青小'], granularity: 'day' });
+    const { dots, areas, notes } = chartAnnotations(rows, outliers, gaps, 'day', seriesOf);
+    expect(dots).toEqual([expect.objectContaining({ series: '紅小', x: '114/11/15', y: 290 })]);
+    expect(areas.map(a => [a.series, a.x1, a.x2])).toEqual([
+      [undefined, '114/11/12', '114/11/14'],
+      ['青小', '114/11/18', '114/11/20']
+    ]);
+    expect(notes['114/11/14']).toEqual([expect.stringContaining('114/11/13 一市：1 個交易日整個市場沒有資料')]);
+  });
+
+  it('places outliers on their period in coarser views without gap areas', () => {
+    const rows = aggregate(data, { market: '一市', product: '辣椒', varieties: ['紅小'], granularity: 'week' });
+    const { dots, areas } = chartAnnotations(rows, outliers, gaps, 'week', seriesOf);
+    expect(dots.map(d => [d.x, d.y])).toEqual([['114/11/10', 91]]);
+    expect(areas).toEqual([]);
+  });
+});
@@ -0,0 +1,253 @@
+import type { AggregatedPoint, DataPoint, Granularity } from './schema';
+import { dailySeries, periodKey, type SeriesSelection } from './aggregate';
+import { addDays, isoToRoc, parseIsoDate, rocToIso } from './rocDate';
+
+export interface OutlierOptions {
+  // 前後各取幾個交易日作為比較基準
+  window: number;
+  // 穩健 z 分數 (與中位數的差距 / 1.4826 × MAD) 的門檻
+  threshold: number;
+  // 與中位數的相對差距下限，避免價格平穩 (MAD 接近 0) 時的小幅波動被標記
+  minChange: number;
+}
+
+export const DEFAULT_OUTLIER_OPTIONS: OutlierOptions = { window: 7, threshold: 3.5, minChange: 0.3 };
+
+// 前後可比較的交易日少於此數時不判斷
+const MIN_NEIGHBOURS = 4;
+
+export interface Outlier {
+  market: string;
+  product: string;
+  variety: string;
+  ISODate: string;
+  Date: string;
+  value: number;
+  median: number;
+  score: number;
+  reason: string;
+}
+
+// 缺漏的交易日：variety 為空時整個市場沒有資料 (休市或爬蟲失敗)，否則為市場有交易但該品種沒有成交
+export interface DataGap {
+  market: string;
+  variety?: string;
+  from: string;
+  to: string;
+  days: number;
+  reason: string;
+}
+
+const isoOf = (d: DataPoint) => d.ISODate || rocToIso(d.Date);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const outlierKey = (market: string, product: string, variety: string, isoDate: string) =>
+  `${market}|${product}|${variety}|${isoDate}`;
+
+// 以前後各 window 個交易日的中位數與 MAD (中位數絕對離差) 判斷單日的異常價格；
+// 以前後而非只以之前的資料為基準，價格持續上漲或下跌時只有單日的跳動會被標記
+export const detectOutliers = (
+  data: DataPoint[],
+  selection: SeriesSelection,
+  options: OutlierOptions = DEFAULT_OUTLIER_OPTIONS
+): Outlier[] => {
+  const { window, threshold, minChange } = options;
+  const outliers: Outlier[] = [];
+
+  dailySeries(data, selection).forEach(({ market, variety, points }) => {
+    const values = points.map(p => p.value);
+    points.forEach(({ iso, value }, i) => {
+      const neighbours = [...values.slice(Math.max(0, i - window), i), ...values.slice(i + 1, i + 1 + window)];
+      if (neighbours.length < MIN_NEIGHBOURS) return;
+
+      const m = median(neighbours);
+      if (m <= 0) return;
+      const mad = median(neighbours.map(v => Math.abs(v - m)));
+      const deviation = value - m;
+      const score = Math.abs(deviation) / Math.max(1.4826 * mad, 0.05 * m);
+      if (score < threshold || Math.abs(deviation) / m < minChange) return;
+
+      const comparison = deviation > 0
+        ? `為前後 ${neighbours.length} 個交易日中位數 ${round(m)} 元的 ${(value / m).toFixed(1)} 倍`
+        : `比前後 ${neighbours.length} 個交易日中位數 ${round(m)} 元低 ${Math.round((1 - value / m) * 100)}%`;
+      outliers.push({
+        market,
+        product: selection.product,
+        variety,
+        ISODate: iso,
+        Date: isoToRoc(iso),
+        value: round(value),
+        median: round(m),
+        score: round(score),
+        reason: `平均價 ${round(value)} 元，${comparison} (穩健 z 分數 ${round(score)})`
+      });
+    });
+  });
+
+  return outliers.sort((a, b) => a.ISODate.localeCompare(b.ISODate));
+};
+
+// 移除異常值所在的資料列，之後的聚合 (各統計區間的加權平均) 不包含這些資料
+export const excludeOutliers = (data: DataPoint[], outliers: Outlier[]) => {
+  if (outliers.length === 0) return data;
+  const keys = new Set(outliers.map(o => outlierKey(o.market, o.product, o.variety, o.ISODate)));
+  return data.filter(d => !keys.has(outlierKey(d.Market, d.Name, d.Variety, isoOf(d))));
+};
+
+// 市場通常開市的星期 (0 為週日)：交易日數達到最多的星期一半以上者，例如週一休市的市場不包含 1
+export const tradingWeekdays = (isoDates: string[]) => {
+  const counts = new Array(7).fill(0) as number[];
+  isoDates.forEach(iso => counts[parseIsoDate(iso).getUTCDay()]++);
+  const max = Math.max(...counts);
+  return new Set(counts.flatMap((count, day) => (count > 0 && count >= max / 2 ? [day] : [])));
+};
+
+// 找出資料中缺漏的交易日：市場通常開市的日子整個市場沒有資料，或市場有交易但選取的品種沒有成交；
+// 市場的交易日以同一資料集中所有產品的資料判斷
+export const findGaps = (data: DataPoint[], { markets, product, varieties }: SeriesSelection): DataGap[] => {
+  const gaps: DataGap[] = [];
+
+  markets.forEach(market => {
+    const rows = data.filter(d => d.Market === market);
+    const marketDays = Array.from(new Set(rows.map(isoOf))).sort();
+    if (marketDays.length < 2) return;
+
+    const weekdays = tradingWeekdays(marketDays);
+    for (let i = 1; i < marketDays.length; i++) {
+      const missing: string[] = [];
+      for (let day = addDays(marketDays[i - 1], 1); day < marketDays[i]; day = addDays(day, 1)) {
+        if (weekdays.has(parseIsoDate(day).getUTCDay())) missing.push(day);
+      }
+      if (missing.length > 0) {
+        gaps.push({
+          market,
+          from: missing[0],
+          to: missing[missing.length - 1],
+          days: missing.length,
+          reason: `${missing.length} 個交易日整個市場沒有資料 (休市、假日或爬蟲失敗)`
+        });
+      }
+    }
+
+    varieties.forEach(variety => {
+      const traded = new Set(rows.filter(d => d.Name === product && d.Variety === variety).map(isoOf));
+      if (traded.size === 0) return;
+      const tradedIndexes = marketDays.flatMap((day, i) => (traded.has(day) ? [i] : []));
+      const first = tradedIndexes[0];
+      const last = tradedIndexes[tradedIndexes.length - 1];
+
+      let run: string[] = [];
+      for (let i = first; i <= last; i++) {
+        if (!traded.has(marketDays[i])) {
+          run.push(marketDays[i]);
+          continue;
+        }
+        if (run.length > 0) {
+          gaps.push({
+            market,
+            variety,
+            from: run[0],
+            to: run[run.length - 1],
+            days: run.length,
+            reason: `市場有交易但${variety}沒有成交 (${run.length} 個交易日)`
+          });
+          run = [];
+        }
+      }
+    });
+  });
+
+  return gaps.sort((a, b) => a.from.localeCompare(b.from));
+};
+
+export interface AnnotationDot {
+  key: string;
+  series: string;
+  x: string;
+  y: number;
+  title: string;
+}
+
+export interface AnnotationArea {
+  key: string;
+  // 整個市場的缺漏沒有對應的線條
+  series?: string;
+  x1: string;
+  x2: string;
+  title: string;
+}
+
+export interface ChartAnnotations {
+  dots: AnnotationDot[];
+  areas: AnnotationArea[];
+  // 圖表 X 軸標籤 -> 該日 (區間) 的標註說明，供提示框顯示
+  notes: Record<string, string[]>;
+}
+
+// 將異常值與缺漏對應到圖表資料列：異常值標在所屬統計區間 (日檢視為當日價格，其他為該區間的聚合價格)，
+// 缺漏只在日檢視標示，範圍為線條跨過缺漏的前後兩個資料點
+export const chartAnnotations = (
+  rows: AggregatedPoint[],
+  outliers: Outlier[],
+  gaps: DataGap[],
+  granularity: Granularity,
+  seriesOf: (market: string, variety: string) => string
+): ChartAnnotations => {
+  const annotations: ChartAnnotations = { dots: [], areas: [], notes: {} };
+  if (rows.length === 0) return annotations;
+
+  const addNote = (label: string, note: string) => {
+    annotations.notes[label] = [...(annotations.notes[label] ?? []), note];
+  };
+
+  const rowsByPeriod = new Map(rows.map(row => [periodKey(row.ISODate, granularity), row]));
+  const groups = new Map<string, { series: string; row: AggregatedPoint; outliers: Outlier[] }>();
+  outliers.forEach(outlier => {
+    const row = rowsByPeriod.get(periodKey(outlier.ISODate, granularity));
+    if (!row) return;
+    const series = seriesOf(outlier.market, outlier.variety);
+    const key = `${series}|${row.ISODate}`;
+    if (!groups.has(key)) groups.set(key, { series, row, outliers: [] });
+    groups.get(key)!.outliers.push(outlier);
+  });
+  groups.forEach(({ series, row, outliers: group }, key) => {
+    const value = granularity === 'day' ? group[0].value : row[series];
+    if (typeof value !== 'number') return;
+    const lines = group.map(o => `${o.Date} ${o.market} ${o.variety}：${o.reason}`);
+    annotations.dots.push({ key, series, x: row.Date, y: value, title: lines.join('\n') });
+    lines.forEach(line => addNote(row.Date, `異常值 ${line}`));
+  });
+
+  if (granularity !== 'day') return annotations;
+
+  const first = rows[0].ISODate;
+  const last = rows[rows.length - 1].ISODate;
+  gaps.forEach(gap => {
+    if (gap.to < first || gap.from > last) return;
+    // rows 依日期排序，缺漏之前的資料列數即為前一個資料點的位置 + 1
+    const before = rows.filter(row => row.ISODate < gap.from).length - 1;
+    const after = rows.findIndex(row => row.ISODate > gap.to);
+    const x1 = rows[Math.max(before, 0)].Date;
+    const x2 = rows[after === -1 ? rows.length - 1 : after].Date;
+    const subject = gap.variety ? `${gap.market} ${gap.variety}` : gap.market;
+    const period = gap.from === gap.to ? isoToRoc(gap.from) : `${isoToRoc(gap.from)} ~ ${isoToRoc(gap.to)}`;
+    const title = `${period} ${subject}：${gap.reason}`;
+    annotations.areas.push({
+      key: `${gap.market}|${gap.variety ?? ''}|${gap.from}`,
+      ...(gap.variety ? { series: seriesOf(gap.market, gap.variety) } : {}),
+      x1,
+      x2,
+      title
+    });
+    addNote(x2, `缺漏 ${title}`);
+  });
+
+  return annotations;
+};
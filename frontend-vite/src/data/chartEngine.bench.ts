@@ -0,0 +1,98 @@
+import { bench, describe } from 'vitest';
+import { aggregate, periodKey, periodLabel, sumVolume, weightedAvg, type AggregateOptions } from './aggregate';
+import { createChartEngine, type ChartRequest } from './chartEngine';
+import { addDays, isoToRoc } from './rocDate';
+import { filterVarieties, groupVarieties, normalizeVarieties } from './taxonomy';
+import type { AggregatedPoint, DataPoint } from './schema';
+
+// 圖表資料的計算方式比較 (npm run bench)：合成 5 年 × 3 市場 × 2 產品 × 10 品種的每日資料 (約 11 萬列)
+
+const YEARS = 5;
+const MARKETS = ['一市', '二市', '三市'];
+const PRODUCTS = ['辣椒', '甘藍'];
+const VARIETIES = Array.from({ length: 10 }, (_, i) => `品種${i + 1}`);
+
+const syntheticDataset = (): DataPoint[] => {
+  const points: DataPoint[] = [];
+  for (let day = 0; day < YEARS * 365; day++) {
+    const iso = addDays('2021-01-01', day);
+    MARKETS.forEach((Market, m) => PRODUCTS.forEach(Name => VARIETIES.forEach((Variety, v) => {
+      const Avg = 40 + v * 5 + m * 3 + 20 * Math.sin(day / 58);
+      points.push({
+        Date: isoToRoc(iso), ISODate: iso, Market, Code: `X${v}`, Name, Variety,
+        High: Avg * 1.2, Mid: Avg, Low: Avg * 0.8, Avg, Volume: 100 + ((day * 7 + v) % 50)
+      });
+    })));
+  }
+  return normalizeVarieties(points);
+};
+
+// 改寫前的 aggregate：每個統計區間對每個品種各篩選一次
+const legacyAggregate = (data: DataPoint[], { market, product, varieties, granularity }: AggregateOptions) => {
+  const groups = new Map<string, DataPoint[]>();
+  data.filter(d => d.Market === market && d.Name === product && varieties.includes(d.Variety)).forEach(d => {
+    const key = periodKey(d.ISODate!, granularity);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(d);
+  });
+  const aggregated: AggregatedPoint[] = [];
+  groups.forEach((groupData, key) => {
+    const entry: AggregatedPoint = {
+      ...periodLabel(key, granularity),
+      Volume: Math.round(sumVolume(groupData)),
+      Avg: Math.round(weightedAvg(groupData)),
+      Market: market,
+      Name: product
+    };
+    varieties.forEach(v => {
+      const vData = groupData.filter(d => d.Variety === v);
+      entry[v] = vData.length > 0 ? Math.round(weightedAvg(vData)) : null;
+      entry[`${v}_Volume`] = Math.round(sumVolume(vData));
+    });
+    aggregated.push(entry);
+  });
+  return aggregated.sort((a, b) => a.ISODate.localeCompare(b.ISODate));
+};
+
+const data = syntheticDataset();
+
+// 45 種兩兩品種的組合，多於引擎快取的數量，輪流使用時每次都不會命中快取
+const requests: ChartRequest[] = VARIETIES.flatMap((a, i) => VARIETIES.slice(i + 1).map(b => ({
+  markets: ['二市'],
+  compare: false,
+  product: '辣椒',
+  varieties: [a, b],
+  granularity: 'week' as const,
+  grouping: 'variety' as const,
+  filter: { origin: null, color: null },
+  excludeOutliers: false
+})));
+
+let next = 0;
+const nextRequest = () => requests[next++ % requests.length];
+
+const inComponent = (request: ChartRequest, aggregateFn: typeof aggregate) => {
+  const grouped = groupVarieties(filterVarieties(data, request.filter), request.grouping);
+  return aggregateFn(grouped, { ...request, market: request.markets[0] });
+};
+
+describe(`chart data for ${data.length.toLocaleString()} rows`, () => {
+  const engine = createChartEngine(data);
+  const cachedEngine = createChartEngine(data);
+
+  bench('in component, per-variety filter passes (before)', () => {
+    inComponent(nextRequest(), legacyAggregate);
+  });
+
+  bench('in component, single-pass aggregate', () => {
+    inComponent(nextRequest(), aggregate);
+  });
+
+  bench('chart engine, indexed (cache misses)', () => {
+    engine.chartData(nextRequest());
+  });
+
+  bench('chart engine, same filter (cache hits)', () => {
+    cachedEngine.chartData(requests[0]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { aggregate, aggregateMarkets } from './aggregate';
+import { chartRequestKey, createChartEngine, indexPoints, selectIndexed, type ChartRequest } from './chartEngine';
+import { detectOutliers, excludeOutliers, findGaps } from './anomalies';
+import { selectRows } from './explorer';
+import { forecastPrices } from './forecast';
+import { varietyShares } from './mix';
+import { addDays, isoToRoc } from './rocDate';
+import { groupVarieties, normalizeVarieties } from './taxonomy';
+import type { DataPoint } from './schema';
+
+const VARIETIES: [string, string][] = [['FV1', '紅小'], ['FV2', '青小'], ['FV91', '進口紅小']];
+
+// 兩個市場、三個品種各 90 天的資料，第 45 天的紅小價格異常
+const points: DataPoint[] = normalizeVarieties(['一市', '二市'].flatMap((Market, m) =>
+  Array.from({ length: 90 }, (_, day) => {
+    const iso = addDays('2025-01-01', day);
+    return VARIETIES.map(([Code, Variety], v) => {
+      const Avg = (day === 45 && v === 0 ? 400 : 50 + v * 10 + m * 5) + (day % 3);
+      return { Date: isoToRoc(iso), ISODate: iso, Market, Code, Name: '辣椒', Variety, High: Avg, Mid: Avg, Low: Avg, Avg, Volume: 100 + v };
+    });
+  }).flat()
+));
+
+const request: ChartRequest = {
+  markets: ['一市'],
+  compare: false,
+  product: '辣椒',
+  varieties: ['紅小', '青小'],
+  granularity: 'week',
+  grouping: 'variety',
+  filter: { origin: null, color: null },
+  excludeOutliers: false
+};
+
+describe('point index', () => {
+  it('selects the rows of the chosen markets and varieties', () => {
+    const rows = selectIndexed(indexPoints(points), { markets: ['二市'], product: '辣椒', varieties: ['青小'] });
+    expect(rows).toHaveLength(90);
+    expect(rows.every(d => d.Market === '二市' && d.Variety === '青小')).toBe(true);
+  });
+});
+
+describe('createChartEngine', () => {
+  it('matches aggregating the full data in the component', () => {
+    const engine = createChartEngine(points);
+    expect(engine.chartData(request).rows).toEqual(aggregate(points, { ...request, market: '一市' }));
+
+    const compared = { ...request, markets: ['一市', '二市'], compare: true, granularity: 'month' as const };
+    expect(engine.chartData(compared).rows).toEqual(aggregateMarkets(points, compared));
+  });
+
+  it('applies the variety grouping and outlier exclusion', () => {
+    const engine = createChartEngine(points);
+    const grouped = groupVarieties(points, 'canonical');
+    const selection = { markets: ['一市'], product: '辣椒', varieties: ['紅小'] };
+    const expected = aggregate(excludeOutliers(grouped, detectOutliers(grouped, selection)), { ...selection, market: '一市', granularity: 'day' });
+    const rows = engine.chartData({ ...request, ...selection, granularity: 'day', grouping: 'canonical', excludeOutliers: true }).rows;
+    expect(rows).toEqual(expected);
+    expect(rows).toHaveLength(89);
+  });
+
+  it('caches results per filter key', () => {
+    const engine = createChartEngine(points);
+    const first = engine.chartData(request);
+    expect(first.cached).toBe(false);
+    const again = engine.chartData({ ...request, varieties: [...request.varieties] });
+    expect(again).toEqual({ rows: first.rows, cached: true });
+    expect(again.rows).toBe(first.rows);
+    expect(chartRequestKey({ ...request, filter: { origin: 'imported', color: null } })).not.toBe(chartRequestKey(request));
+  });
+
+  it('answers the dashboard analyses from the same rows', () => {
+    const engine = createChartEngine(points);
+    const selection = { markets: ['一市', '二市'], product: '辣椒', varieties: ['紅小'] };
+    const view = { ...selection, grouping: 'variety' as const, filter: { origin: null, color: null }, excludeOutliers: false };
+
+    expect(engine.summary()).toMatchObject({ rows: points.length, markets: ['一市', '二市'], products: ['辣椒'], from: '2025-01-01', to: '2025-03-31' });
+    expect(engine.varieties({ ...view, grouping: 'origin' })).toEqual(['國產', '進口']);
+
+    const outliers = detectOutliers(points, selection);
+    expect(engine.analysis({ ...view, excludeOutliers: true })).toEqual({ outliers, gaps: findGaps(points, selection) });
+    expect(outliers).toHaveLength(2);
+
+    const range = { ...view, from: '2025-02-01', to: '2025-02-28' };
+    expect(engine.rows(range)).toEqual(expect.arrayContaining(selectRows(points, range)));
+    expect(engine.rows(range)).toHaveLength(56);
+    expect(engine.mix(range).shares).toEqual(varietyShares(selectRows(points, range)));
+
+    const options = { horizon: 7, history: 365, backtests: 2 };
+    expect(engine.forecast({ ...view, excludeOutliers: true, options }))
+      .toEqual(forecastPrices(excludeOutliers(points, outliers), selection, options));
+    expect(engine.candles({ ...view, market: '一市', variety: '紅小', granularity: 'month', excludeOutliers: true })[1]).toMatchObject({ High: 52 });
+  });
+});
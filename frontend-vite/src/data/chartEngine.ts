@@ -0,0 +1,200 @@
+import type { AggregatedPoint, DataPoint, Granularity } from './schema';
+import { aggregate, aggregateMarkets, candles, distinct, type CandleOptions, type CandlePoint, type SeriesSelection } from './aggregate';
+import { detectOutliers, excludeOutliers, findGaps, type DataGap, type Outlier } from './anomalies';
+import { selectRows, type ExplorerSelection } from './explorer';
+import { forecastPrices, type Forecast, type ForecastOptions } from './forecast';
+import { varietyMix, type VarietyMix } from './mix';
+import { seasonalHeatmap, type SeasonalHeatmap, type SeasonalMetric, type SeasonalPeriod } from './seasonality';
+import { filterVarieties, groupVarieties, type VarietyFilter, type VarietyGrouping } from './taxonomy';
+
+// 圖表資料與分析的計算：資料列依市場×產品×品種建立索引，篩選條件改變時只需取出選取的部分計算，
+// 相同的圖表篩選條件直接回傳快取的結果。在 Web Worker 中執行 (見 dataset.worker.ts)，
+// 資料列只存在 Worker 中，主執行緒只收到計算結果；也可直接在主執行緒使用
+
+// 所有請求共用的品種分組、產地 / 顏色篩選與是否排除異常值
+export interface DatasetView {
+  grouping: VarietyGrouping;
+  filter: VarietyFilter;
+  excludeOutliers: boolean;
+}
+
+export interface SelectionRequest extends SeriesSelection, DatasetView {}
+
+export interface ChartRequest extends SelectionRequest {
+  // 比較模式依市場×品種分列 (aggregateMarkets)，否則聚合第一個市場 (aggregate)
+  compare: boolean;
+  granularity: Granularity;
+}
+
+// 資料瀏覽表格與品種結構：日期範圍內的原始資料列
+export interface RowsRequest extends ExplorerSelection, DatasetView {}
+
+export interface CandleRequest extends CandleOptions, DatasetView {}
+
+export interface ForecastRequest extends SelectionRequest {
+  options: ForecastOptions;
+}
+
+export interface SeasonalityRequest extends SelectionRequest {
+  metric: SeasonalMetric;
+  period: SeasonalPeriod;
+}
+
+// 產品在分組與篩選後的品種 (依第一次出現的順序)
+export interface VarietiesRequest extends Omit<DatasetView, 'excludeOutliers'> {
+  product: string;
+}
+
+// 已載入資料的摘要，取代完整的資料列送回主執行緒
+export interface DatasetSummary {
+  rows: number;
+  markets: string[];
+  products: string[];
+  // 最早與最新資料的 ISO 日期與最新資料的民國日期，沒有資料時為 undefined
+  from?: string;
+  to?: string;
+  latest?: string;
+}
+
+// 異常值與缺漏以未排除異常值的完整每日資料判斷
+export interface SeriesAnalysis {
+  outliers: Outlier[];
+  gaps: DataGap[];
+}
+
+export interface ChartResult {
+  rows: AggregatedPoint[];
+  cached: boolean;
+}
+
+export interface ChartEngine {
+  summary: () => DatasetSummary;
+  varieties: (request: VarietiesRequest) => string[];
+  chartData: (request: ChartRequest) => ChartResult;
+  analysis: (request: SelectionRequest) => SeriesAnalysis;
+  rows: (request: RowsRequest) => DataPoint[];
+  mix: (request: RowsRequest) => VarietyMix;
+  candles: (request: CandleRequest) => CandlePoint[];
+  forecast: (request: ForecastRequest) => Forecast[];
+  seasonality: (request: SeasonalityRequest) => SeasonalHeatmap;
+}
+
+// 市場|產品|品種 -> 該組合的資料列 (保持原本的順序)
+export type PointIndex = Map<string, DataPoint[]>;
+
+// 快取最近使用的篩選條件數
+const CACHE_SIZE = 32;
+
+const indexKey = (market: string, product: string, variety: string) => `${market}|${product}|${variety}`;
+
+export const indexPoints = (points: DataPoint[]): PointIndex => {
+  const index: PointIndex = new Map();
+  points.forEach(d => {
+    const key = indexKey(d.Market, d.Name, d.Variety);
+    const series = index.get(key);
+    if (series) series.push(d);
+    else index.set(key, [d]);
+  });
+  return index;
+};
+
+export const selectIndexed = (index: PointIndex, { markets, product, varieties }: SeriesSelection) =>
+  markets.flatMap(market => varieties.flatMap(variety => index.get(indexKey(market, product, variety)) ?? []));
+
+export const chartRequestKey = (request: ChartRequest) => JSON.stringify([
+  request.markets,
+  request.compare,
+  request.product,
+  request.varieties,
+  request.granularity,
+  request.grouping,
+  request.filter.origin,
+  request.filter.color,
+  request.excludeOutliers
+]);
+
+// 與儀表板相同的流程：產地 / 顏色篩選、品種分組、(選擇時) 排除異常值，再依請求計算
+export const createChartEngine = (points: DataPoint[]): ChartEngine => {
+  // 每種分組與篩選組合各建立一次分組後的資料列與索引
+  const views = new Map<string, { rows: DataPoint[]; index: PointIndex }>();
+  const cache = new Map<string, AggregatedPoint[]>();
+
+  const viewFor = ({ grouping, filter }: Omit<DatasetView, 'excludeOutliers'>) => {
+    const key = `${grouping}|${filter.origin ?? ''}|${filter.color ?? ''}`;
+    if (!views.has(key)) {
+      const rows = groupVarieties(filterVarieties(points, filter), grouping);
+      views.set(key, { rows, index: indexPoints(rows) });
+    }
+    return views.get(key)!;
+  };
+
+  // 選取的市場×品種的資料列，異常值以同樣的資料列判斷
+  const select = (request: SelectionRequest) => {
+    const { markets, product, varieties } = request;
+    const selection = { markets, product, varieties };
+    const rows = selectIndexed(viewFor(request).index, selection);
+    return request.excludeOutliers ? excludeOutliers(rows, detectOutliers(rows, selection)) : rows;
+  };
+
+  const compute = (request: ChartRequest) => {
+    const { markets, compare, product, varieties, granularity } = request;
+    const rows = select(request);
+    return compare
+      ? aggregateMarkets(rows, { markets, product, varieties, granularity })
+      : aggregate(rows, { market: markets[0] ?? '', product, varieties, granularity });
+  };
+
+  const chartData = (request: ChartRequest): ChartResult => {
+    const key = chartRequestKey(request);
+    const hit = cache.get(key);
+    if (hit) {
+      // 重新插入，讓 Map 的順序維持最近使用的在最後
+      cache.delete(key);
+      cache.set(key, hit);
+      return { rows: hit, cached: true };
+    }
+    const rows = compute(request);
+    cache.set(key, rows);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    return { rows, cached: false };
+  };
+
+  // 資料列依日期升序載入，第一筆與最後一筆即為資料的起訖
+  const summary = (): DatasetSummary => ({
+    rows: points.length,
+    markets: distinct(points, 'Market'),
+    products: distinct(points, 'Name'),
+    from: points[0]?.ISODate,
+    to: points[points.length - 1]?.ISODate,
+    latest: points[points.length - 1]?.Date
+  });
+
+  const varieties = (request: VarietiesRequest) =>
+    distinct(viewFor(request).rows.filter(d => d.Name === request.product), 'Variety');
+
+  // 缺漏的交易日以市場中所有產品的資料判斷，因此使用完整的分組資料列
+  const analysis = (request: SelectionRequest): SeriesAnalysis => {
+    const selection = { markets: request.markets, product: request.product, varieties: request.varieties };
+    return {
+      outliers: detectOutliers(select({ ...request, excludeOutliers: false }), selection),
+      gaps: findGaps(viewFor(request).rows, selection)
+    };
+  };
+
+  const rows = (request: RowsRequest) => selectRows(select(request), request);
+
+  const candlesOf = (request: CandleRequest) =>
+    candles(select({ ...request, markets: [request.market], varieties: [request.variety] }), request);
+
+  return {
+    summary,
+    varieties,
+    chartData,
+    analysis,
+    rows,
+    mix: request => varietyMix(rows(request)),
+    candles: candlesOf,
+    forecast: request => forecastPrices(select(request), request, request.options),
+    seasonality: request => seasonalHeatmap(select(request), request.metric, request.period)
+  };
+};
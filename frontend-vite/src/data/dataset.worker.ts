@@ -0,0 +1,8 @@
+import { createDatasetWorkerHandler, type DatasetWorkerRequest } from './workerProtocol';
+
+// 資料 Worker 的進入點 (由 App 以 new Worker(new URL(...)) 建立)
+const handle = createDatasetWorkerHandler();
+
+self.addEventListener('message', async (event: MessageEvent<DatasetWorkerRequest>) => {
+  self.postMessage(await handle(event.data));
+});
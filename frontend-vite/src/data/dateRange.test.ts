@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { periodEnd, presetRange, rowsInRange } from './dateRange';
+
+const bounds = { from: '2024-03-15', to: '2025-11-26' };
+
+describe('presetRange', () => {
+  it('ends every preset at the latest data date', () => {
+    expect(presetRange('7d', bounds)).toEqual({ from: '2025-11-20', to: '2025-11-26' });
+    expect(presetRange('ytd', bounds)).toEqual({ from: '2025-01-01', to: '2025-11-26' });
+    expect(presetRange('1y', bounds)).toEqual({ from: '2024-11-27', to: '2025-11-26' });
+    expect(presetRange('all', bounds)).toEqual(bounds);
+  });
+
+  it('does not start before the earliest data date', () => {
+    expect(presetRange('1y', { from: '2025-06-01', to: '2025-11-26' })).toEqual({ from: '2025-06-01', to: '2025-11-26' });
+  });
+
+  it('counts a year back from a leap day to the end of February', () => {
+    expect(presetRange('1y', { from: '2020-01-01', to: '2024-02-29' })).toEqual({ from: '2023-03-01', to: '2024-02-29' });
+  });
+});
+
+describe('rowsInRange', () => {
+  it('keeps every period that overlaps the range', () => {
+    const months = ['2025-10-01', '2025-11-01', '2025-12-01'].map(ISODate => ({ ISODate }));
+    expect(rowsInRange(months, { from: '2025-11-15', to: '2025-12-10' }, 'month')).toEqual(months.slice(1));
+
+    const days = ['2025-11-14', '2025-11-15', '2025-12-10', '2025-12-11'].map(ISODate => ({ ISODate }));
+    expect(rowsInRange(days, { from: '2025-11-15', to: '2025-12-10' }, 'day')).toEqual(days.slice(1, 3));
+  });
+
+  it('finds the last day of a period', () => {
+    expect(periodEnd('2025-11-24', 'week')).toBe('2025-11-30');
+    expect(periodEnd('2024-02-01', 'month')).toBe('2024-02-29');
+    expect(periodEnd('2025-10-01', 'quarter')).toBe('2025-12-31');
+    expect(periodEnd('2025-01-01', 'year')).toBe('2025-12-31');
+  });
+});
@@ -0,0 +1,74 @@
+import { periodKey } from './aggregate';
+import type { AggregatedPoint, Granularity } from './schema';
+import { addDays, monthsBefore, parseIsoDate } from './rocDate';
+
+export type RangePreset = '7d' | '30d' | '90d' | 'ytd' | '1y' | 'all';
+
+export const RANGE_PRESETS: { id: RangePreset; label: string }[] = [
+  { id: '7d', label: '7 天' },
+  { id: '30d', label: '30 天' },
+  { id: '90d', label: '90 天' },
+  { id: 'ytd', label: '今年' },
+  { id: '1y', label: '1 年' },
+  { id: 'all', label: '全部' }
+];
+
+// 以資料的最新日期為終點計算快速選項的區間 (含頭尾)，起點不早於最早的資料日期
+export const presetRange = (preset: RangePreset, bounds: { from: string; to: string }) => {
+  const { to } = bounds;
+  let from: string;
+  switch (preset) {
+    case '7d':
+      from = addDays(to, -6);
+      break;
+    case '30d':
+      from = addDays(to, -29);
+      break;
+    case '90d':
+      from = addDays(to, -89);
+      break;
+    case 'ytd':
+      from = `${to.substring(0, 4)}-01-01`;
+      break;
+    case '1y':
+      from = addDays(monthsBefore(to, 12).toISOString().substring(0, 10), 1);
+      break;
+    default:
+      from = bounds.from;
+  }
+  return { from: from < bounds.from ? bounds.from : from, to };
+};
+
+// 統計區間 (以 periodLabel 的 ISODate 表示) 的最後一天，拖曳縮放時作為區間終點
+export const periodEnd = (isoDate: string, granularity: Granularity) => {
+  const date = parseIsoDate(isoDate);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const lastDayOf = (m: number) => new Date(Date.UTC(year, m + 1, 0)).toISOString().substring(0, 10);
+  switch (granularity) {
+    case 'week':
+      return addDays(isoDate, 6);
+    case 'month':
+      return lastDayOf(month);
+    case 'quarter':
+      return lastDayOf(month - (month % 3) + 2);
+    case 'year':
+      return `${year}-12-31`;
+    default:
+      return isoDate;
+  }
+};
+
+// 與日期區間重疊的統計區間，例如月檢視中 11/15 ~ 12/10 包含 11 月與 12 月
+export const rowsInRange = <T extends Pick<AggregatedPoint, 'ISODate'>>(
+  rows: T[],
+  range: { from: string; to: string },
+  granularity: Granularity
+) => {
+  const first = periodKey(range.from, granularity);
+  const last = periodKey(range.to, granularity);
+  return rows.filter(r => {
+    const key = periodKey(r.ISODate, granularity);
+    return key >= first && key <= last;
+  });
+};
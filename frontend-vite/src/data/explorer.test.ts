@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { applyColumnFilters, parseNumericFilter, selectRows, sortRows } from './explorer';
+import { makePoint } from './testing';
+
+const point = (Date: string, Market: string, Variety: string, Avg: number, Volume: number) =>
+  makePoint({ Date, Market, Variety, Avg, Volume, spread: 10 });
+
+const data = [
+  point('114/11/03', '一市', '紅小', 100, 10),
+  point('114/11/04', '一市', '青小', 60, 20),
+  point('114/11/04', '二市', '紅小', 90, 30),
+  point('114/12/01', '一市', '紅小', 80, 40),
+  { ...point('114/12/01', '一市', '甜椒', 50, 50), Name: '甜椒' }
+];
+
+describe('selectRows', () => {
+  it('keeps raw rows of the selected markets, product, varieties and dates', () => {
+    const rows = selectRows(data, { markets: ['一市'], product: '辣椒', varieties: ['紅小', '青小'], to: '2025-11-30' });
+    expect(rows.map(r => `${r.Date} ${r.Variety}`)).toEqual(['114/11/03 紅小', '114/11/04 青小']);
+  });
+});
+
+describe('column filters', () => {
+  it('parses comparisons and ranges', () => {
+    expect([50, 100, 150].filter(parseNumericFilter('>=100')!)).toEqual([100, 150]);
+    expect([50, 100, 150].filter(parseNumericFilter('120-40')!)).toEqual([50, 100]);
+    expect([50, 100].filter(parseNumericFilter('50')!)).toEqual([50]);
+    expect(parseNumericFilter('cheap')).toBeNull();
+  });
+
+  it('matches text, date prefixes and numbers together', () => {
+    expect(applyColumnFilters(data, { Date: '2025-11', Market: '一' })).toHaveLength(2);
+    expect(applyColumnFilters(data, { Date: '114/12', Avg: '<60' })).toEqual([data[4]]);
+    expect(applyColumnFilters(data, { Volume: 'lots' })).toBe(data);
+  });
+});
+
+describe('sortRows', () => {
+  it('sorts by any column with newest rows first on ties', () => {
+    expect(sortRows(data, { column: 'Low', direction: 'desc' }).map(r => r.Low)).toEqual([90, 80, 70, 50, 40]);
+    expect(sortRows(data, { column: 'Date', direction: 'asc' })[0]).toBe(data[0]);
+    expect(sortRows(data, { column: 'Market', direction: 'asc' }).map(r => r.Date)).toEqual([
+      '114/12/01', '114/12/01', '114/11/04', '114/11/03', '114/11/04'
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { NUMERIC_COLUMNS, type DataPoint, type DatasetColumn, type NumericColumn } from './schema';
+import { rocToIso } from './rocDate';
+
+// 資料瀏覽表格：原始資料列依目前的篩選條件、欄位篩選與排序呈現
+
+export interface ExplorerSelection {
+  markets: string[];
+  product: string;
+  varieties: string[];
+  // 含頭尾的 ISO 日期，未指定的一端不設限
+  from?: string;
+  to?: string;
+}
+
+export type ColumnFilters = Partial<Record<DatasetColumn, string>>;
+
+export interface SortState {
+  column: DatasetColumn;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_SORT: SortState = { column: 'Date', direction: 'desc' };
+
+const isoOf = (d: DataPoint) => d.ISODate || rocToIso(d.Date);
+
+const isNumericColumn = (column: DatasetColumn): column is NumericColumn =>
+  (NUMERIC_COLUMNS as readonly string[]).includes(column);
+
+export const selectRows = (data: DataPoint[], selection: ExplorerSelection) => {
+  const { markets, product, varieties, from, to } = selection;
+  return data.filter(d => {
+    if (d.Name !== product || !markets.includes(d.Market) || !varieties.includes(d.Variety)) return false;
+    const iso = isoOf(d);
+    return (!from || iso >= from) && (!to || iso <= to);
+  });
+};
+
+const NUMERIC_FILTER = /^(>=|<=|>|<|=)?\s*(-?\d+(?:\.\d+)?)$/;
+const NUMERIC_RANGE = /^(-?\d+(?:\.\d+)?)\s*(?:-|~)\s*(-?\d+(?:\.\d+)?)$/;
+
+// 數值欄位的篩選條件：「>100」、「<=50」、「=30」、「30」或區間「10-20」(含頭尾)，無法辨識時回傳 null
+export const parseNumericFilter = (text: string): ((value: number) => boolean) | null => {
+  const value = text.trim();
+  const range = value.match(NUMERIC_RANGE);
+  if (range) {
+    const [low, high] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b);
+    return v => v >= low && v <= high;
+  }
+  const match = value.match(NUMERIC_FILTER);
+  if (!match) return null;
+  const target = Number(match[2]);
+  switch (match[1]) {
+    case '>': return v => v > target;
+    case '>=': return v => v >= target;
+    case '<': return v => v < target;
+    case '<=': return v => v <= target;
+    default: return v => v === target;
+  }
+};
+
+// 文字欄位不分大小寫比對部分字串，日期欄位可輸入民國或西元日期的開頭 (例如 114/11 或 2025-11)；
+// 無法辨識的數值條件不套用
+export const applyColumnFilters = (rows: DataPoint[], filters: ColumnFilters) => {
+  const active = (Object.entries(filters) as [DatasetColumn, string][])
+    .filter(([, text]) => text.trim() !== '')
+    .map(([column, text]): ((d: DataPoint) => boolean) | null => {
+      if (isNumericColumn(column)) {
+        const predicate = parseNumericFilter(text);
+        return predicate && (d => predicate(d[column]));
+      }
+      const needle = text.trim().toLowerCase();
+      if (column === 'Date') {
+        return d => d.Date.startsWith(needle) || isoOf(d).startsWith(needle);
+      }
+      return d => d[column].toLowerCase().includes(needle);
+    })
+    .filter((predicate): predicate is (d: DataPoint) => boolean => predicate !== null);
+
+  return active.length > 0 ? rows.filter(d => active.every(predicate => predicate(d))) : rows;
+};
+
+// 日期依 ISO 日期排序，相同時依市場、品種排序，讓分頁結果穩定
+export const sortRows = (rows: DataPoint[], sort: SortState) => {
+  const { column, direction } = sort;
+  const sign = direction === 'asc' ? 1 : -1;
+  const compare = (a: DataPoint, b: DataPoint) => {
+    if (column === 'Date') return isoOf(a).localeCompare(isoOf(b));
+    if (isNumericColumn(column)) return a[column] - b[column];
+    return a[column].localeCompare(b[column], 'zh-Hant');
+  };
+  return rows.slice().sort((a, b) =>
+    sign * compare(a, b) ||
+    isoOf(b).localeCompare(isoOf(a)) ||
+    a.Market.localeCompare(b.Market, 'zh-Hant') ||
+    a.Variety.localeCompare(b.Variety, 'zh-Hant')
+  );
+};
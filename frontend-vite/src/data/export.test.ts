@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { exportFileName, exportTable, toCsv } from './export';
+import type { AggregatedPoint } from './schema';
+
+const rows: AggregatedPoint[] = [
+  { Date: '114/11/03', ISODate: '2025-11-03', Volume: 40, Avg: 55, Market: '一市', Name: '辣椒', 紅小: 55, 紅小_Volume: 40 },
+  { Date: '114/11/04', ISODate: '2025-11-04', Volume: 0, Avg: 0, Market: '一市', Name: '辣椒', 紅小: null, 紅小_Volume: 0 }
+];
+
+describe('export', () => {
+  it('lists ROC and ISO dates before the selected columns', () => {
+    const table = exportTable(rows, [{ key: '紅小', header: '紅小 平均價' }, { key: 'Missing', header: '其他' }]);
+    expect(table).toEqual([
+      ['日期 (民國)', '日期 (西元)', '紅小 平均價', '其他'],
+      ['114/11/03', '2025-11-03', 55, null],
+      ['114/11/04', '2025-11-04', null, null]
+    ]);
+  });
+
+  it('writes CSV with a byte order mark for Excel', () => {
+    const csv = toCsv([['日期', '價格'], ['114/11/03', 55], ['a,b', null]]);
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(csv.slice(1).split('\r\n')).toEqual(['日期,價格', '114/11/03,55', '"a,b",']);
+  });
+
+  it('builds file names without path separators', () => {
+    expect(exportFileName(['二市', '辣椒', 'day', '', '2025-10-01'])).toBe('二市_辣椒_day_2025-10-01');
+    expect(exportFileName(['一市、二市', 'a/b c'])).toBe('一市、二市_a-b-c');
+  });
+});
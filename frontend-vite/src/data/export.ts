@@ -0,0 +1,22 @@
+import Papa from 'papaparse';
+import type { AggregatedPoint } from './schema';
+import type { Cell } from './xlsx';
+
+// 匯出目前圖表顯示的資料：每個統計區間一列，日期同時提供民國與西元格式
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export const exportTable = (rows: AggregatedPoint[], columns: ExportColumn[]): Cell[][] => [
+  ['日期 (民國)', '日期 (西元)', ...columns.map(c => c.header)],
+  ...rows.map(row => [row.Date, row.ISODate, ...columns.map(c => row[c.key] ?? null)])
+];
+
+// 加上 BOM，Excel 直接開啟時才會以 UTF-8 解讀中文
+export const toCsv = (table: Cell[][]) => `\ufeff${Papa.unparse(table)}`;
+
+// 例如 二市_辣椒_day_2025-10-01_2025-11-30
+export const exportFileName = (parts: string[]) =>
+  parts.filter(Boolean).join('_').replace(/[\\/:*?"<>|\s]+/g, '-');
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { forecastKeys, forecastPrices, futureTradingDays, withForecast } from './forecast';
+import { aggregate } from './aggregate';
+import { addDays, isoToRoc, parseIsoDate } from './rocDate';
+import type { DataPoint } from './schema';
+import { makePoint } from './testing';
+
+const point = (iso: string, Avg: number) => makePoint({ Date: isoToRoc(iso), Avg });
+
+// 週一休市，從 2025-06-03 (週二) 起 price(i, day) 為第 i 個交易日的價格
+const series = (days: number, price: (i: number, weekday: number) => number) => {
+  const data: DataPoint[] = [];
+  for (let day = '2025-06-03'; data.length < days; day = addDays(day, 1)) {
+    const weekday = parseIsoDate(day).getUTCDay();
+    if (weekday !== 1) data.push(point(day, price(data.length, weekday)));
+  }
+  return data;
+};
+
+const selection = { markets: ['一市'], product: '辣椒', varieties: ['紅小'] };
+
+describe('futureTradingDays', () => {
+  it('skips the days the market is usually closed', () => {
+    expect(futureTradingDays('2025-11-14', 7, new Set([0, 2, 3, 4, 5, 6]))).toEqual([
+      '2025-11-15', '2025-11-16', '2025-11-18', '2025-11-19', '2025-11-20', '2025-11-21'
+    ]);
+  });
+});
+
+describe('forecastPrices', () => {
+  it('keeps the weekly pattern of a stable price', () => {
+    // 週六的價格固定比其他日子高 20%
+    const data = series(120, (_i, weekday) => (weekday === 6 ? 60 : 50));
+    const [forecast] = forecastPrices(data, selection, { horizon: 7, history: 365, backtests: 4 });
+    expect(forecast.points).toHaveLength(6);
+    forecast.points.forEach(p => {
+      expect(p.value).toBeCloseTo(parseIsoDate(p.ISODate).getUTCDay() === 6 ? 60 : 50, 0);
+      expect(p.lower).toBeLessThanOrEqual(p.value);
+      expect(p.upper).toBeGreaterThanOrEqual(p.value);
+    });
+    expect(forecast.backtest).toMatchObject({ origins: 4, coverage: 100 });
+    expect(forecast.backtest!.mape).toBeLessThan(1);
+  });
+
+  it('follows a trend with widening intervals and beats the naive forecast', () => {
+    // 每個交易日上漲 1%，加上固定的上下波動
+    const data = series(200, i => 40 * 1.01 ** i * (i % 2 === 0 ? 1.03 : 0.97));
+    const [forecast] = forecastPrices(data, selection, { horizon: 28, history: 365, backtests: 8 });
+    const values = forecast.points.map(p => p.value);
+    expect(values[values.length - 1]).toBeGreaterThan(data[data.length - 1].Avg);
+    const widths = forecast.points.map(p => p.upper - p.lower);
+    expect(widths[widths.length - 1]).toBeGreaterThan(widths[0]);
+    expect(forecast.backtest!.origins).toBe(8);
+    expect(forecast.backtest!.mape).toBeLessThan(forecast.backtest!.naiveMape);
+  });
+
+  it('needs at least six weeks of data', () => {
+    expect(forecastPrices(series(30, () => 50), selection)).toEqual([]);
+  });
+});
+
+describe('withForecast', () => {
+  it('appends forecast rows starting from the last actual value', () => {
+    const data = series(60, () => 50);
+    const rows = aggregate(data, { market: '一市', product: '辣椒', varieties: ['紅小'], granularity: 'day' });
+    const [forecast] = forecastPrices(data, selection, { horizon: 7, history: 365, backtests: 1 });
+    const keys = forecastKeys('紅小');
+    const extended = withForecast(rows, '紅小', forecast);
+
+    expect(extended).toHaveLength(rows.length + forecast.points.length);
+    expect(extended[rows.length - 1]).toMatchObject({ 紅小: 50, [keys.value]: 50, [keys.lower]: 50, [keys.upper]: 50 });
+    expect(extended[rows.length]).toMatchObject({ ISODate: forecast.points[0].ISODate, [keys.value]: forecast.points[0].value });
+    expect(extended[rows.length]['紅小']).toBeUndefined();
+  });
+});
@@ -0,0 +1,231 @@
+import type { AggregatedPoint, DataPoint } from './schema';
+import { dailySeries, type SeriesSelection } from './aggregate';
+import { tradingWeekdays } from './anomalies';
+import { addDays, isoToRoc, parseIsoDate } from './rocDate';
+
+export interface ForecastOptions {
+  // 預測未來幾個日曆天，只預測市場通常開市的日子
+  horizon: number;
+  // 擬合模型使用的最近交易日數
+  history: number;
+  // 回測次數，每次的預測起點往前移 BACKTEST_STEP 個交易日
+  backtests: number;
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = { horizon: 14, history: 365, backtests: 8 };
+
+// 可選的預測天數 (1 至 4 週)
+export const FORECAST_HORIZONS = [7, 14, 21, 28];
+
+// 少於 6 週的資料不預測
+const MIN_HISTORY = 36;
+const BACKTEST_STEP = 5;
+// 阻尼趨勢：趨勢的影響隨預測天數遞減，避免短期漲跌被無限延伸
+const DAMPING = 0.9;
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+// 95% 預測區間
+const Z_95 = 1.96;
+
+export interface ForecastPoint {
+  ISODate: string;
+  Date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BacktestResult {
+  origins: number;
+  // 平均絕對百分比誤差 (%)
+  mape: number;
+  // 以預測起點當天的價格作為之後每天的預測 (不變預測) 的誤差，作為比較基準
+  naiveMape: number;
+  // 實際價格落在 95% 預測區間內的比例 (%)
+  coverage: number;
+}
+
+export interface Forecast {
+  market: string;
+  variety: string;
+  points: ForecastPoint[];
+  backtest: BacktestResult | null;
+}
+
+interface Observation {
+  iso: string;
+  value: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const weekday = (iso: string) => parseIsoDate(iso).getUTCDay();
+
+// 週內的季節性：log 價格與一週 (period 個交易日) 中心移動平均的差，依星期平均後中心化；
+// 一週的交易日數為偶數時以 2×period 移動平均 (頭尾權重減半) 取得中心
+const weekdayEffects = (observations: Observation[], logs: number[], period: number) => {
+  const half = Math.floor(period / 2);
+  const weights = Array.from({ length: 2 * half + 1 }, (_, j) => (period % 2 === 0 && (j === 0 || j === 2 * half) ? 0.5 : 1) / period);
+  const sums = new Array(7).fill(0) as number[];
+  const counts = new Array(7).fill(0) as number[];
+  for (let i = half; i < logs.length - half; i++) {
+    const trend = weights.reduce((sum, w, j) => sum + w * logs[i - half + j], 0);
+    const day = weekday(observations[i].iso);
+    sums[day] += logs[i] - trend;
+    counts[day]++;
+  }
+  const effects = sums.map((sum, day) => (counts[day] > 0 ? sum / counts[day] : 0));
+  const seen = counts.filter(count => count > 0).length;
+  const mean = seen > 0 ? effects.reduce((sum, v) => sum + v, 0) / seen : 0;
+  return effects.map((effect, day) => (counts[day] > 0 ? effect - mean : 0));
+};
+
+// 阻尼趨勢的 Holt 指數平滑，回傳最後的水準、趨勢與一步預測誤差的平方和
+const holt = (series: number[], alpha: number, beta: number) => {
+  let level = series[0];
+  let trend = 0;
+  let sse = 0;
+  for (let t = 1; t < series.length; t++) {
+    const expected = level + DAMPING * trend;
+    const error = series[t] - expected;
+    sse += error * error;
+    const next = expected + alpha * error;
+    trend = beta * (next - level) + (1 - beta) * DAMPING * trend;
+    level = next;
+  }
+  return { level, trend, sse };
+};
+
+// 以 log 價格擬合：先扣除星期效應，再以一步預測誤差最小的平滑參數做 Holt 指數平滑；
+// 回傳的函式依序預測之後的交易日 (第 h 個日期為 h 步預測)
+const fitModel = (observations: Observation[]) => {
+  const logs = observations.map(o => Math.log(o.value));
+  const period = tradingWeekdays(observations.map(o => o.iso)).size;
+  const effects = weekdayEffects(observations, logs, period);
+  const adjusted = logs.map((v, i) => v - effects[weekday(observations[i].iso)]);
+
+  let best = { alpha: ALPHAS[0], beta: BETAS[0], ...holt(adjusted, ALPHAS[0], BETAS[0]) };
+  ALPHAS.forEach(alpha => BETAS.forEach(beta => {
+    const fit = holt(adjusted, alpha, beta);
+    if (fit.sse < best.sse) best = { alpha, beta, ...fit };
+  }));
+  const { alpha, beta, level, trend, sse } = best;
+  const sigma = Math.sqrt(sse / (adjusted.length - 1));
+
+  return (dates: string[]): ForecastPoint[] => {
+    // h 步預測的變異數為 σ² × (1 + Σ (α × (1 + β × (φ + … + φ^j)))², j = 1 … h − 1)
+    let damped = 0;
+    let spread = 1;
+    return dates.map((iso, i) => {
+      if (i > 0) spread += (alpha * (1 + beta * damped)) ** 2;
+      damped += DAMPING ** (i + 1);
+      const mean = level + damped * trend + effects[weekday(iso)];
+      const margin = Z_95 * sigma * Math.sqrt(spread);
+      return {
+        ISODate: iso,
+        Date: isoToRoc(iso),
+        value: round(Math.exp(mean)),
+        lower: round(Math.exp(mean - margin)),
+        upper: round(Math.exp(mean + margin))
+      };
+    });
+  };
+};
+
+// 最後一個資料日之後 horizon 天內，市場通常開市的日子
+export const futureTradingDays = (lastIso: string, horizon: number, weekdays: Set<number>) => {
+  const days: string[] = [];
+  for (let i = 1; i <= horizon; i++) {
+    const day = addDays(lastIso, i);
+    if (weekdays.has(weekday(day))) days.push(day);
+  }
+  return days;
+};
+
+// 滾動起點回測：從資料最後往前取 backtests 個起點，只以起點之前的資料擬合，比較之後 steps 個交易日的實際價格
+const backtest = (observations: Observation[], steps: number, options: ForecastOptions): BacktestResult | null => {
+  let error = 0;
+  let naiveError = 0;
+  let covered = 0;
+  let total = 0;
+  let origins = 0;
+
+  for (let k = 0; k < options.backtests; k++) {
+    const end = observations.length - steps - k * BACKTEST_STEP;
+    if (end < MIN_HISTORY) break;
+    const train = observations.slice(Math.max(0, end - options.history), end);
+    const actual = observations.slice(end, end + steps);
+    const last = train[train.length - 1].value;
+    fitModel(train)(actual.map(o => o.iso)).forEach((predicted, i) => {
+      const value = actual[i].value;
+      error += Math.abs(predicted.value - value) / value;
+      naiveError += Math.abs(last - value) / value;
+      if (value >= predicted.lower && value <= predicted.upper) covered++;
+      total++;
+    });
+    origins++;
+  }
+
+  if (total === 0) return null;
+  return {
+    origins,
+    mape: round(error / total * 100),
+    naiveMape: round(naiveError / total * 100),
+    coverage: round(covered / total * 100)
+  };
+};
+
+// 依各市場×品種的每日平均價預測之後 horizon 天的價格與 95% 預測區間，並回測同樣天數的預測準確度；
+// 資料不足的品種不預測
+export const forecastPrices = (
+  data: DataPoint[],
+  selection: SeriesSelection,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): Forecast[] => dailySeries(data, selection).flatMap(({ market, variety, points }) => {
+  const observations = points.filter(p => p.value > 0);
+  if (observations.length < MIN_HISTORY) return [];
+
+  const last = observations[observations.length - 1].iso;
+  const dates = futureTradingDays(last, options.horizon, tradingWeekdays(observations.map(o => o.iso)));
+  return [{
+    market,
+    variety,
+    points: fitModel(observations.slice(-options.history))(dates),
+    backtest: backtest(observations, dates.length, options)
+  }];
+});
+
+// 預測線與預測區間在圖表資料列中的鍵
+export const forecastKeys = (key: string) => ({
+  value: `${key} 預測`,
+  lower: `${key} 預測下限`,
+  upper: `${key} 預測上限`
+});
+
+// 在圖表資料後加上預測的日期；最後一筆實際資料同時作為預測線的起點，讓預測線與實際線條相連
+// (品種在最後一天沒有成交時，預測的第一天可能已有資料列，只加上之後的日期)
+export const withForecast = (rows: AggregatedPoint[], key: string, forecast: Forecast): AggregatedPoint[] => {
+  if (rows.length === 0) return rows;
+  const keys = forecastKeys(key);
+  const last = rows[rows.length - 1];
+  const points = forecast.points.filter(p => p.ISODate > last.ISODate);
+  if (points.length === 0) return rows;
+  const start = typeof last[key] === 'number' ? last[key] : null;
+
+  return [
+    ...rows.slice(0, -1),
+    { ...last, [keys.value]: start, [keys.lower]: start, [keys.upper]: start },
+    // 預測的日期沒有實際交易
+    ...points.map(p => ({
+      Date: p.Date,
+      ISODate: p.ISODate,
+      Volume: 0,
+      Avg: 0,
+      Market: last.Market,
+      Name: last.Name,
+      [keys.value]: p.value,
+      [keys.lower]: p.lower,
+      [keys.upper]: p.upper
+    }))
+  ];
+};
@@ -0,0 +1,21 @@
+export * from './schema';
+export * from './rocDate';
+export * from './parse';
+export * from './aggregate';
+export * from './partition';
+export * from './loader';
+export * from './viewState';
+export * from './indicators';
+export * from './dateRange';
+export * from './explorer';
+export * from './xlsx';
+export * from './export';
+export * from './anomalies';
+export * from './forecast';
+export * from './mix';
+export * from './taxonomy';
+export * from './seasonality';
+export * from './chartEngine';
+export * from './workerProtocol';
+export * from './workerClient';
+export * from './offline';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { changeOver, ema, NO_INDICATORS, sma, volatility, withIndicators } from './indicators';
+import type { AggregatedPoint } from './schema';
+
+const row = (ISODate: string, Avg: number | null): AggregatedPoint => ({
+  Date: ISODate, ISODate, Volume: 0, Avg: 0, Market: '一市', Name: '辣椒', 紅小: Avg
+});
+
+describe('moving averages', () => {
+  it('averages the last n values and skips gaps', () => {
+    expect(sma([10, 20, null, 30, 40], 3)).toEqual([null, null, null, 20, 30]);
+  });
+
+  it('seeds the exponential average with a simple mean', () => {
+    const [, , seed, next] = ema([10, 20, 30, 40], 3);
+    expect(seed).toBe(20);
+    expect(next).toBe(30);
+  });
+
+  it('computes the rolling sample standard deviation', () => {
+    expect(volatility([2, 4, 4, 4, 5, 5, 7, 9], 8)[7]).toBeCloseTo(2.138, 3);
+    expect(volatility([5, 5], 2)).toEqual([null, 0]);
+  });
+});
+
+describe('changeOver', () => {
+  it('compares with the closest day within a week before the target', () => {
+    const rows = [row('2025-02-26', 50), row('2025-03-27', 80), row('2025-03-31', 75)];
+    const values = rows.map(r => r.紅小 as number);
+    // 03-27 與 03-31 的前一個月 (02-27、02-28) 都往前找到 02-26
+    expect(changeOver(rows, values, 1, 'day')).toEqual([null, 60, 50]);
+  });
+
+  it('requires the exact period for monthly data', () => {
+    const rows = [row('2024-01-01', 40), row('2024-03-01', 60), row('2025-01-01', 50)];
+    const values = rows.map(r => r.紅小 as number);
+    expect(changeOver(rows, values, 1, 'month')).toEqual([null, null, null]);
+    expect(changeOver(rows, values, 12, 'month')).toEqual([null, null, 25]);
+  });
+});
+
+describe('withIndicators', () => {
+  it('adds the selected indicators without touching the source rows', () => {
+    const rows = [row('2025-01-01', 10), row('2025-02-01', 20), row('2025-03-01', 40)];
+    const result = withIndicators(rows, '紅小', { ...NO_INDICATORS, sma: 2, mom: true }, 'month');
+    expect(result.map(r => r['SMA 2'])).toEqual([null, 15, 30]);
+    expect(result.map(r => r['月增率 %'])).toEqual([null, 100, 100]);
+    expect(result[0]).not.toHaveProperty('EMA 2');
+    expect(rows[0]).not.toHaveProperty('SMA 2');
+  });
+});
@@ -0,0 +1,122 @@
+import type { AggregatedPoint, Granularity } from './schema';
+import { monthsBefore } from './rocDate';
+
+// 技術指標設定，視窗大小以統計區間 (日檢視為交易日) 計算，null 表示不顯示
+export interface IndicatorSettings {
+  sma: number | null;
+  ema: number | null;
+  volatility: number | null;
+  mom: boolean;
+  yoy: boolean;
+}
+
+export const NO_INDICATORS: IndicatorSettings = { sma: null, ema: null, volatility: null, mom: false, yoy: false };
+
+// 指標在資料列中的鍵，同時作為圖例名稱
+export const indicatorKeys = (settings: IndicatorSettings) => ({
+  sma: settings.sma ? `SMA ${settings.sma}` : null,
+  ema: settings.ema ? `EMA ${settings.ema}` : null,
+  volatility: settings.volatility ? `波動度 ${settings.volatility}` : null,
+  mom: settings.mom ? '月增率 %' : null,
+  yoy: settings.yoy ? '年增率 %' : null
+});
+
+type Series = (number | null)[];
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// 以最近 window 個有值的資料點計算，沒有值的位置保持 null
+const rolling = (values: Series, window: number, fn: (recent: number[]) => number): Series => {
+  const recent: number[] = [];
+  return values.map(v => {
+    if (v === null) return null;
+    recent.push(v);
+    if (recent.length > window) recent.shift();
+    return recent.length === window ? fn(recent) : null;
+  });
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// 簡單移動平均
+export const sma = (values: Series, window: number) => rolling(values, window, mean);
+
+// 指數移動平均，以前 window 個值的簡單平均為起點
+export const ema = (values: Series, window: number): Series => {
+  const alpha = 2 / (window + 1);
+  const seed: number[] = [];
+  let current: number | null = null;
+  return values.map(v => {
+    if (v === null) return null;
+    if (current === null) {
+      seed.push(v);
+      if (seed.length < window) return null;
+      current = mean(seed);
+    } else {
+      current = alpha * v + (1 - alpha) * current;
+    }
+    return current;
+  });
+};
+
+// 滾動標準差 (樣本)
+export const volatility = (values: Series, window: number) => rolling(values, window, recent => {
+  const m = mean(recent);
+  return Math.sqrt(recent.reduce((sum, v) => sum + (v - m) ** 2, 0) / Math.max(recent.length - 1, 1));
+});
+
+const DAY_MS = 86400000;
+
+const toIso = (date: Date) => date.toISOString().substring(0, 10);
+
+// 與 months 個月前相比的變動百分比 (例如月增率、年增率)。日 / 週檢視取目標日期前
+// 7 天內最近的一筆，月 / 年檢視則需要剛好對應的區間；找不到或基期為 0 時為 null
+export const changeOver = (rows: AggregatedPoint[], values: Series, months: number, granularity: Granularity): Series => {
+  const tolerance = granularity === 'day' || granularity === 'week' ? 7 : 0;
+
+  return rows.map((row, i) => {
+    const value = values[i];
+    if (value === null) return null;
+    const target = monthsBefore(row.ISODate, months);
+    const targetIso = toIso(target);
+    const floorIso = toIso(new Date(target.getTime() - tolerance * DAY_MS));
+
+    // 資料列依日期排序，往前找第一筆不晚於目標日期且有值的資料
+    for (let j = i - 1; j >= 0 && rows[j].ISODate >= floorIso; j--) {
+      const previous = values[j];
+      if (rows[j].ISODate <= targetIso && previous !== null) {
+        return previous === 0 ? null : (value - previous) / previous * 100;
+      }
+    }
+    return null;
+  });
+};
+
+// 依設定在每列加上 key 欄位的技術指標 (回傳新的陣列，不修改原資料列)
+export const withIndicators = (
+  rows: AggregatedPoint[],
+  key: string,
+  settings: IndicatorSettings,
+  granularity: Granularity
+): AggregatedPoint[] => {
+  const keys = indicatorKeys(settings);
+  const values: Series = rows.map(r => (typeof r[key] === 'number' ? r[key] as number : null));
+  const columns: [string | null, Series | null][] = [
+    [keys.sma, settings.sma ? sma(values, settings.sma) : null],
+    [keys.ema, settings.ema ? ema(values, settings.ema) : null],
+    [keys.volatility, settings.volatility ? volatility(values, settings.volatility) : null],
+    [keys.mom, settings.mom ? changeOver(rows, values, 1, granularity) : null],
+    [keys.yoy, settings.yoy ? changeOver(rows, values, 12, granularity) : null]
+  ];
+
+  return rows.map((row, i) => {
+    const result: AggregatedPoint = { ...row };
+    columns.forEach(([name, series]) => {
+      if (name && series) {
+        const v = series[i];
+        result[name] = v === null ? null : round(v);
+      }
+    });
+    return result;
+  });
+};
@@ -0,0 +1,113 @@
+import { parseDataset } from './parse';
+import { decodePartition, partitionsInRange, type DateRange } from './partition';
+import { assertSchemaVersion, type AlertFeed, type DataPoint, type DatasetIndex, type DatasetPartition, type DatasetVersion } from './schema';
+import { normalizeVarieties } from './taxonomy';
+
+export const DATA_BASE_URL = '/data';
+export const DATASET_FILE = 'vegetables_fv.csv';
+export const DATASET_URL = `${DATA_BASE_URL}/${DATASET_FILE}`;
+export const DATASET_INDEX_URL = `${DATA_BASE_URL}/datasets.json`;
+export const ALERTS_URL = `${DATA_BASE_URL}/alerts.json`;
+export const DATASET_VERSION_URL = `${DATA_BASE_URL}/version.json`;
+
+// 載入的資料列皆已套用品種分類 (taxonomy.json)
+export const loadDataset = async (url: string = DATASET_URL): Promise<DataPoint[]> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return normalizeVarieties(parseDataset(await response.text()));
+};
+
+export const loadPartition = async (url: string): Promise<DataPoint[]> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return normalizeVarieties(decodePartition(await response.json() as DatasetPartition));
+};
+
+// 讀取資料集索引，尚未產生索引時回傳 null
+export const loadDatasetIndex = async (url: string = DATASET_INDEX_URL): Promise<DatasetIndex | null> => {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  const index = await response.json() as DatasetIndex;
+  assertSchemaVersion(index.schemaVersion);
+  return index;
+};
+
+// 讀取價格警示，爬蟲尚未產生警示時回傳 null
+export const loadAlerts = async (url: string = ALERTS_URL): Promise<AlertFeed | null> => {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as AlertFeed;
+};
+
+// 讀取最新的資料版本 (不經過瀏覽器快取)，爬蟲尚未產生時回傳 null，離線時拋出錯誤
+export const loadDatasetVersion = async (url: string = DATASET_VERSION_URL): Promise<DatasetVersion | null> => {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  const version = await response.json() as DatasetVersion;
+  assertSchemaVersion(version.schemaVersion);
+  return version;
+};
+
+const byIsoDate = (a: DataPoint, b: DataPoint) => (a.ISODate || '').localeCompare(b.ISODate || '');
+
+export interface DatasetLoader {
+  index: () => Promise<DatasetIndex | null>;
+  // 載入區間內尚未載入的分區，回傳目前已載入的所有資料 (依日期升序)
+  load: (range?: DateRange) => Promise<DataPoint[]>;
+}
+
+// 逐步載入資料集：先讀索引，再只下載所選區間需要的分區，已下載的分區不會重複請求。
+// 沒有分區的資料集 (或沒有索引時的預設 CSV) 則整份載入一次。
+export const createDatasetLoader = (baseUrl: string = DATA_BASE_URL): DatasetLoader => {
+  let indexRequest: Promise<DatasetIndex | null> | undefined;
+  const files = new Map<string, Promise<DataPoint[]>>();
+
+  const index = () => {
+    if (!indexRequest) {
+      indexRequest = loadDatasetIndex(`${baseUrl}/datasets.json`);
+      indexRequest.catch(() => { indexRequest = undefined; });
+    }
+    return indexRequest;
+  };
+
+  const fetchOnce = (file: string, load: (url: string) => Promise<DataPoint[]>) => {
+    if (!files.has(file)) {
+      const request = load(`${baseUrl}/${file}`);
+      // 失敗的請求不快取，下次載入時重試
+      request.catch(() => files.delete(file));
+      files.set(file, request);
+    }
+    return files.get(file)!;
+  };
+
+  const load = async (range: DateRange = {}) => {
+    const datasetIndex = await index();
+    const requests = datasetIndex
+      ? datasetIndex.datasets.flatMap(d => d.partitions
+        ? partitionsInRange(d.partitions, range).map(p => fetchOnce(p.file, loadPartition))
+        : [fetchOnce(d.file, loadDataset)])
+      : [fetchOnce(DATASET_FILE, loadDataset)];
+    await Promise.all(requests);
+
+    const loaded = await Promise.all(files.values());
+    return loaded.flat().sort(byIsoDate);
+  };
+
+  return { index, load };
+};
+
+// 載入索引中列出的所有產品群組資料集，並合併為依日期排序的單一陣列
+export const loadAllDatasets = (): Promise<DataPoint[]> => createDatasetLoader().load();
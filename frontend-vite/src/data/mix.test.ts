@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { mixOverTime, originOf, varietyShares } from './mix';
+import { makePoint } from './testing';
+
+const CODES: Record<string, string> = { 紅小: 'FV1', 朝天椒: 'FV4', 進口朝天椒: 'FV94' };
+
+const point = (Date: string, Variety: string, Avg: number, Volume: number) =>
+  makePoint({ Date, Code: CODES[Variety], Variety, Avg, Volume });
+
+const rows = [
+  point('114/10/01', '紅小', 50, 300),
+  point('114/10/02', '朝天椒', 100, 100),
+  point('114/11/01', '紅小', 50, 100),
+  point('114/11/01', '朝天椒', 100, 200),
+  point('114/11/02', '進口朝天椒', 40, 100)
+];
+
+describe('varietyShares', () => {
+  it('sums volume and value per variety with their shares', () => {
+    expect(varietyShares(rows)).toEqual([
+      { variety: '紅小', volume: 400, value: 20000, volumeShare: 50, valueShare: 37 },
+      { variety: '朝天椒', volume: 300, value: 30000, volumeShare: 37.5, valueShare: 55.6 },
+      { variety: '進口朝天椒', volume: 100, value: 4000, volumeShare: 12.5, valueShare: 7.4 }
+    ]);
+  });
+});
+
+describe('mixOverTime', () => {
+  it('gives the monthly share of each variety', () => {
+    const { groups, points } = mixOverTime(rows, 'volume');
+    expect(groups).toEqual(['紅小', '朝天椒', '進口朝天椒']);
+    expect(points).toEqual([
+      { Date: '114/10', ISODate: '2025-10-01', 紅小: 75, 朝天椒: 25, 進口朝天椒: 0 },
+      { Date: '114/11', ISODate: '2025-11-01', 紅小: 25, 朝天椒: 50, 進口朝天椒: 25 }
+    ]);
+  });
+
+  it('groups varieties into domestic and imported by value', () => {
+    expect(originOf(rows[4])).toBe('進口');
+    expect(originOf(rows[1])).toBe('國產');
+    const { groups, points } = mixOverTime(rows, 'value', originOf);
+    expect(groups).toEqual(['國產', '進口']);
+    expect(points.map(p => [p.Date, p['國產'], p['進口']])).toEqual([['114/10', 100, 0], ['114/11', 86.2, 13.8]]);
+  });
+});
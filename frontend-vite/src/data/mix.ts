@@ -0,0 +1,112 @@
+import type { DataPoint, Granularity } from './schema';
+import { periodKey, periodLabel } from './aggregate';
+import { rocToIso } from './rocDate';
+import { varietyGroupOf } from './taxonomy';
+
+// 品種結構：各品種 (或國產 / 進口) 佔交易量或交易金額 (平均價 × 交易量) 的比例
+
+export type MixMetric = 'volume' | 'value';
+
+export const MIX_METRIC_LABELS: Record<MixMetric, string> = { volume: '交易量', value: '交易金額' };
+
+// 依品種分類的產地分為國產與進口
+export const originOf = (d: DataPoint) => varietyGroupOf(d, 'origin');
+
+// 以 type 宣告，可直接作為 recharts 的圖表資料 (需要字串索引)
+export type VarietyShare = {
+  variety: string;
+  volume: number;
+  value: number;
+  // 百分比
+  volumeShare: number;
+  valueShare: number;
+};
+
+// 一個統計區間中各組別的百分比，沒有交易的組別為 0
+export interface MixPoint {
+  Date: string;
+  ISODate: string;
+  [group: string]: string | number;
+}
+
+const isoOf = (d: DataPoint) => d.ISODate || rocToIso(d.Date);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const share = (part: number, total: number) => (total > 0 ? round(part / total * 100) : 0);
+
+const amountOf = (d: DataPoint, metric: MixMetric) => (metric === 'volume' ? d.Volume : d.Avg * d.Volume);
+
+// 各品種在資料列中的總交易量、總交易金額與佔比，依交易量由大到小排序
+export const varietyShares = (rows: DataPoint[]): VarietyShare[] => {
+  const totals = new Map<string, { volume: number; value: number }>();
+  rows.forEach(d => {
+    const total = totals.get(d.Variety) ?? { volume: 0, value: 0 };
+    total.volume += amountOf(d, 'volume');
+    total.value += amountOf(d, 'value');
+    totals.set(d.Variety, total);
+  });
+
+  const volume = Array.from(totals.values()).reduce((sum, t) => sum + t.volume, 0);
+  const value = Array.from(totals.values()).reduce((sum, t) => sum + t.value, 0);
+  return Array.from(totals, ([variety, t]) => ({
+    variety,
+    volume: Math.round(t.volume),
+    value: Math.round(t.value),
+    volumeShare: share(t.volume, volume),
+    valueShare: share(t.value, value)
+  })).sort((a, b) => b.volume - a.volume || a.variety.localeCompare(b.variety));
+};
+
+export interface MixOverTime {
+  groups: string[];
+  points: MixPoint[];
+}
+
+// 各統計區間 (預設每月) 中各組別佔的百分比，供 100% 堆疊圖使用；
+// 組別預設為品種，依整段期間的總量由大到小排列
+export const mixOverTime = (
+  rows: DataPoint[],
+  metric: MixMetric,
+  groupOf: (d: DataPoint) => string = d => d.Variety,
+  granularity: Granularity = 'month'
+): MixOverTime => {
+  const periods = new Map<string, Map<string, number>>();
+  const overall = new Map<string, number>();
+  rows.forEach(d => {
+    const key = periodKey(isoOf(d), granularity);
+    const group = groupOf(d);
+    const amount = amountOf(d, metric);
+    if (!periods.has(key)) periods.set(key, new Map());
+    const period = periods.get(key)!;
+    period.set(group, (period.get(group) ?? 0) + amount);
+    overall.set(group, (overall.get(group) ?? 0) + amount);
+  });
+
+  const groups = Array.from(overall.keys()).sort((a, b) => overall.get(b)! - overall.get(a)! || a.localeCompare(b));
+  const points = Array.from(periods.keys()).sort().flatMap(key => {
+    const amounts = periods.get(key)!;
+    const total = Array.from(amounts.values()).reduce((sum, v) => sum + v, 0);
+    if (total <= 0) return [];
+    const point: MixPoint = periodLabel(key, granularity);
+    groups.forEach(group => {
+      point[group] = share(amounts.get(group) ?? 0, total);
+    });
+    return [point];
+  });
+
+  return { groups, points };
+};
+
+// 品種結構面板的所有圖表資料，兩種比例都先算好，切換時不需要重新計算
+export interface VarietyMix {
+  shares: VarietyShare[];
+  varieties: Record<MixMetric, MixOverTime>;
+  origins: Record<MixMetric, MixOverTime>;
+}
+
+export const varietyMix = (rows: DataPoint[]): VarietyMix => ({
+  shares: varietyShares(rows),
+  varieties: { volume: mixOverTime(rows, 'volume'), value: mixOverTime(rows, 'value') },
+  origins: { volume: mixOverTime(rows, 'volume', originOf), value: mixOverTime(rows, 'value', originOf) }
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { cacheDataset, cachedDatasetVersion, cacheStrategy, compareDatasetVersions, DATA_CACHE } from './offline';
+import type { DatasetVersion } from './schema';
+
+const ORIGIN = 'https://dashboard.example';
+
+const get = (path: string, mode: RequestMode = 'cors') => ({ method: 'GET', mode, url: `${ORIGIN}${path}` });
+
+const version = (id: string, files = ['datasets.json', 'vegetables_fv/2025-11.json']): DatasetVersion => ({
+  schemaVersion: 1, version: id, generatedAt: '2025-11-26T00:00:00.000Z', files
+});
+
+// 以 Map 模擬 Cache Storage，只實作用到的方法
+const fakeStorage = () => {
+  const caches = new Map<string, Map<string, Response>>();
+  const open = async (name: string) => {
+    if (!caches.has(name)) caches.set(name, new Map());
+    const cache = caches.get(name)!;
+    return {
+      keys: async () => Array.from(cache.keys()),
+      delete: async (key: string) => cache.delete(key),
+      put: async (key: string, response: Response) => { cache.set(key, response); }
+    };
+  };
+  const match = async (key: string, { cacheName }: { cacheName: string }) => caches.get(cacheName)?.get(key)?.clone();
+  return { caches, storage: { open, match } as unknown as CacheStorage };
+};
+
+// 回覆固定內容的 fetch，不在清單中的路徑回覆 404
+const fakeFetch = (files: Record<string, unknown>) => (async (url: string) => url in files
+  ? new Response(JSON.stringify(files[url]))
+  : new Response('', { status: 404, statusText: 'Not Found' })) as typeof fetch;
+
+describe('cacheStrategy', () => {
+  it('serves the app and data from the cache but always checks the version online', () => {
+    expect(cacheStrategy(get('/?market=二市', 'navigate'), ORIGIN)).toBe('shell');
+    expect(cacheStrategy(get('/assets/index-abc.js'), ORIGIN)).toBe('cache-first');
+    expect(cacheStrategy(get('/data/vegetables_fv/2025-11.json'), ORIGIN)).toBe('cache-first');
+    expect(cacheStrategy(get('/data/alerts.json'), ORIGIN)).toBe('network-first');
+    expect(cacheStrategy(get('/data/version.json'), ORIGIN)).toBeNull();
+    expect(cacheStrategy({ ...get('/data/datasets.json'), method: 'POST' }, ORIGIN)).toBeNull();
+    expect(cacheStrategy({ ...get('/'), url: 'https://fonts.example/font.woff2' }, ORIGIN)).toBeNull();
+  });
+});
+
+describe('compareDatasetVersions', () => {
+  it('tells whether newer data is available', () => {
+    expect(compareDatasetVersions(version('a'), version('a'))).toEqual({ status: 'current', cached: version('a') });
+    expect(compareDatasetVersions(version('a'), version('b'))).toMatchObject({ status: 'available', latest: { version: 'b' } });
+    expect(compareDatasetVersions(null, version('b'))).toMatchObject({ status: 'uncached' });
+    expect(compareDatasetVersions(version('a'), null)).toEqual({ status: 'offline', cached: version('a') });
+  });
+});
+
+describe('cacheDataset', () => {
+  it('replaces the cached files with those of the latest version and keeps the alerts', async () => {
+    const { caches, storage } = fakeStorage();
+    await cacheDataset(storage, fakeFetch({ '/data/version.json': version('a', ['vegetables_fv/2025-10.json']), '/data/vegetables_fv/2025-10.json': {} }));
+    await storage.open(DATA_CACHE).then(cache => cache.put('/data/alerts.json', new Response('{}')));
+
+    const latest = version('b');
+    const cached = await cacheDataset(storage, fakeFetch({
+      '/data/version.json': latest,
+      '/data/datasets.json': { schemaVersion: 1, datasets: [] },
+      '/data/vegetables_fv/2025-11.json': { rows: 0 }
+    }));
+    expect(cached).toEqual(latest);
+    expect(Array.from(caches.get(DATA_CACHE)!.keys()).sort())
+      .toEqual(['/data/alerts.json', '/data/datasets.json', '/data/vegetables_fv/2025-11.json', '/data/version.json']);
+    expect(await cachedDatasetVersion(storage)).toEqual(latest);
+  });
+
+  it('keeps the cached version when a file fails to download', async () => {
+    const { storage } = fakeStorage();
+    await cacheDataset(storage, fakeFetch({ '/data/version.json': version('a', ['datasets.json']), '/data/datasets.json': {} }));
+
+    await expect(cacheDataset(storage, fakeFetch({ '/data/version.json': version('b') })))
+      .rejects.toThrow('Failed to fetch /data/datasets.json: 404 Not Found');
+    expect(await cachedDatasetVersion(storage)).toMatchObject({ version: 'a' });
+  });
+
+  it('has no version before anything is cached', async () => {
+    expect(await cachedDatasetVersion(fakeStorage().storage)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { ALERTS_URL, DATA_BASE_URL, DATASET_VERSION_URL, loadDatasetVersion } from './loader';
+import { assertSchemaVersion, type DatasetVersion } from './schema';
+
+// 離線使用：Service Worker (src/sw.ts) 把 App 檔案與一個版本的資料檔存在 Cache Storage，
+// 網路不穩或離線時由快取回應；有較新的資料版本 (version.json) 時由使用者決定何時更新
+
+// App 檔案的快取依建置內容命名，新版 Service Worker 啟用後刪除其他版本
+export const SHELL_CACHE_PREFIX = 'shell-';
+// 資料檔的快取只保存一個版本 (version.json 與其列出的檔案)，另外保存最近一次的價格警示
+export const DATA_CACHE = 'data';
+
+// shell：頁面先向網路請求，離線時回應快取的 index.html；cache-first：App 檔案與資料檔；network-first：價格警示
+export type CacheStrategy = 'shell' | 'cache-first' | 'network-first';
+
+// 依請求決定快取策略，null 表示不經過快取 (其他網域、非 GET 請求與版本檢查)
+export const cacheStrategy = (request: Pick<Request, 'method' | 'mode' | 'url'>, origin: string): CacheStrategy | null => {
+  if (request.method !== 'GET') return null;
+  const url = new URL(request.url);
+  if (url.origin !== origin) return null;
+  if (request.mode === 'navigate') return 'shell';
+  if (url.pathname === DATASET_VERSION_URL) return null;
+  if (url.pathname === ALERTS_URL) return 'network-first';
+  return 'cache-first';
+};
+
+// 離線快取中的資料版本，尚未保存資料時回傳 null
+export const cachedDatasetVersion = async (storage: CacheStorage): Promise<DatasetVersion | null> => {
+  const response = await storage.match(DATASET_VERSION_URL, { cacheName: DATA_CACHE });
+  return response ? await response.json() as DatasetVersion : null;
+};
+
+// 下載最新版本的所有資料檔後才取代快取的內容，任何一個檔案失敗時保留原本的版本
+export const cacheDataset = async (storage: CacheStorage, fetchFn: typeof fetch = fetch): Promise<DatasetVersion> => {
+  const response = await fetchFn(DATASET_VERSION_URL, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${DATASET_VERSION_URL}: ${response.status} ${response.statusText}`);
+  }
+  const version = await response.clone().json() as DatasetVersion;
+  assertSchemaVersion(version.schemaVersion);
+
+  const files = await Promise.all(version.files.map(async file => {
+    const url = `${DATA_BASE_URL}/${file}`;
+    const fileResponse = await fetchFn(url, { cache: 'no-store' });
+    if (!fileResponse.ok) {
+      throw new Error(`Failed to fetch ${url}: ${fileResponse.status} ${fileResponse.statusText}`);
+    }
+    return [url, fileResponse] as const;
+  }));
+
+  // 只刪除前一個版本的資料檔，同一個快取中的價格警示保留給離線時使用
+  const previous = await cachedDatasetVersion(storage);
+  const cache = await storage.open(DATA_CACHE);
+  const stale = previous ? [DATASET_VERSION_URL, ...previous.files.map(file => `${DATA_BASE_URL}/${file}`)] : [];
+  await Promise.all(stale.map(url => cache.delete(url)));
+  await Promise.all([...files, [DATASET_VERSION_URL, response] as const].map(([url, r]) => cache.put(url, r)));
+  return version;
+};
+
+export type DatasetUpdate =
+  // 沒有離線快取 (開發模式、瀏覽器不支援或爬蟲尚未產生 version.json)
+  | { status: 'unavailable' }
+  | { status: 'uncached'; latest: DatasetVersion }
+  | { status: 'current'; cached: DatasetVersion }
+  | { status: 'available'; cached: DatasetVersion; latest: DatasetVersion }
+  | { status: 'offline'; cached: DatasetVersion | null };
+
+// 比較快取與最新的資料版本，latest 為 null 表示無法連線取得
+export const compareDatasetVersions = (cached: DatasetVersion | null, latest: DatasetVersion | null): DatasetUpdate => {
+  if (!latest) return { status: 'offline', cached };
+  if (!cached) return { status: 'uncached', latest };
+  return cached.version === latest.version ? { status: 'current', cached } : { status: 'available', cached, latest };
+};
+
+// 頁面載入時檢查是否有較新的資料版本
+export const checkDatasetUpdate = async (): Promise<DatasetUpdate> => {
+  if (!('serviceWorker' in navigator) || !await navigator.serviceWorker.getRegistration()) {
+    return { status: 'unavailable' };
+  }
+  const cached = await cachedDatasetVersion(caches);
+  let latest: DatasetVersion | null;
+  try {
+    latest = await loadDatasetVersion();
+  } catch {
+    return compareDatasetVersions(cached, null);
+  }
+  return latest ? compareDatasetVersions(cached, latest) : { status: 'unavailable' };
+};
+
+// 主執行緒與 Service Worker 之間的訊息，回覆經由隨訊息傳入的 MessagePort 送回
+export type OfflineRequest = { type: 'cache-dataset' };
+export type OfflineResponse =
+  | { type: 'cached'; version: DatasetVersion }
+  | { type: 'error'; message: string };
+
+// 請 Service Worker 保存最新版本的資料檔，完成後才 resolve
+export const requestDatasetCache = async (): Promise<DatasetVersion> => {
+  const registration = await navigator.serviceWorker.ready;
+  const channel = new MessageChannel();
+  const reply = new Promise<OfflineResponse>(resolve => {
+    channel.port1.onmessage = (event: MessageEvent<OfflineResponse>) => resolve(event.data);
+  });
+  const request: OfflineRequest = { type: 'cache-dataset' };
+  registration.active!.postMessage(request, [channel.port2]);
+  const response = await reply;
+  if (response.type === 'error') throw new Error(response.message);
+  return response.version;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseDataset, parseNum } from './parse';
+import { DatasetSchemaError } from './schema';
+
+describe('parseNum', () => {
+  it('strips thousands separators', () => {
+    expect(parseNum('1,663')).toBe(1663);
+    expect(parseNum('12,345.6')).toBe(12345.6);
+  });
+
+  it('falls back to 0 for empty or invalid values', () => {
+    expect(parseNum('')).toBe(0);
+    expect(parseNum('-')).toBe(0);
+    expect(parseNum(undefined)).toBe(0);
+    expect(parseNum(Number.NaN)).toBe(0);
+  });
+});
+
+describe('parseDataset', () => {
+  const header = 'Date,Market,Code,Name,Variety,High,Mid,Low,Avg,Volume';
+
+  it('parses, validates and sorts rows by date', () => {
+    const csv = [
+      header,
+      '114/11/26,一市,FV6,辣椒,糯米椒,52.5,"1,663",89.0,52.0,17.3',
+      '114/11/25,一市,FV1,辣椒,紅小,96.3,90,80,90.4,48.2',
+      ',一市,FV1,辣椒,紅小,1,1,1,1,1',
+      'garbage,一市,FV1,辣椒,紅小,1,1,1,1,1'
+    ].join('\n');
+
+    const points = parseDataset(csv);
+    expect(points).toHaveLength(2);
+    expect(points[0].ISODate).toBe('2025-11-25');
+    expect(points[1]).toMatchObject({ Variety: '糯米椒', Mid: 1663, ISODate: '2025-11-26' });
+  });
+
+  it('rejects files that do not match the schema', () => {
+    expect(() => parseDataset('Date,Market,Name\n114/11/26,一市,辣椒')).toThrow(DatasetSchemaError);
+  });
+});
@@ -0,0 +1,56 @@
+import Papa from 'papaparse';
+import { assertColumns, type DataPoint } from './schema';
+import { rocToIso } from './rocDate';
+
+const ROC_DATE_PATTERN = /^\d{2,3}\/\d{1,2}\/\d{1,2}$/;
+
+// 處理含千分位逗號的數字字串 (例如 "1,663")，無法解析時回傳 0
+export const parseNum = (val: unknown): number => {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : 0;
+  if (typeof val === 'string') {
+    return parseFloat(val.replace(/,/g, '')) || 0;
+  }
+  return 0;
+};
+
+const str = (val: unknown) => (val === null || val === undefined ? '' : String(val).trim());
+
+// 將一列原始資料驗證並轉換為 DataPoint，不合格的列回傳 null
+export const toDataPoint = (raw: Record<string, unknown>): DataPoint | null => {
+  const date = str(raw.Date);
+  const name = str(raw.Name);
+  const market = str(raw.Market);
+  if (!ROC_DATE_PATTERN.test(date) || !name || !market) return null;
+
+  return {
+    Date: date,
+    Market: market,
+    Code: str(raw.Code),
+    Name: name,
+    Variety: str(raw.Variety),
+    High: parseNum(raw.High),
+    Mid: parseNum(raw.Mid),
+    Low: parseNum(raw.Low),
+    Avg: parseNum(raw.Avg),
+    Volume: parseNum(raw.Volume),
+    ISODate: rocToIso(date)
+  };
+};
+
+const byIsoDate = (a: DataPoint, b: DataPoint) => (a.ISODate || '').localeCompare(b.ISODate || '');
+
+// 解析整份 CSV 並依日期升序排列
+export const parseDataset = (csv: string): DataPoint[] => {
+  const results = Papa.parse<Record<string, unknown>>(csv, {
+    header: true,
+    skipEmptyLines: true
+  });
+  assertColumns(results.meta.fields || []);
+
+  const points: DataPoint[] = [];
+  results.data.forEach(raw => {
+    const point = toDataPoint(raw);
+    if (point) points.push(point);
+  });
+  return points.sort(byIsoDate);
+};
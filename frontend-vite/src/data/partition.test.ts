@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createDatasetLoader } from './loader';
+import { decodePartition, encodePartition, partitionsInRange, recentRange } from './partition';
+import type { DatasetIndex, DatasetPartitionEntry } from './schema';
+import { makePoint } from './testing';
+
+const point = (Date: string, Market: string, Variety: string, Avg: number) => makePoint({ Date, Market, Variety, Avg, spread: 10 });
+
+const november = [
+  point('114/11/03', '一市', '紅小', 100),
+  point('114/11/03', '二市', '紅小', 90),
+  point('114/11/04', '一市', '青小', 60)
+];
+
+const entry = (period: string, from: string, to: string): DatasetPartitionEntry => ({
+  period, file: `vegetables_fv/${period}.json`, from, to, rows: 1
+});
+
+const partitions = [
+  entry('2025-10', '2025-10-01', '2025-10-31'),
+  entry('2025-11', '2025-11-03', '2025-11-04')
+];
+
+describe('encodePartition', () => {
+  it('dictionary-encodes text columns and round-trips', () => {
+    const partition = encodePartition(november);
+    expect(partition.text.Date).toEqual({ values: ['114/11/03', '114/11/04'], codes: [0, 0, 1] });
+    expect(partition.numeric.Avg).toEqual([100, 90, 60]);
+    expect(decodePartition(partition)).toEqual(november.map(p => ({ ...p, ISODate: p.Date === '114/11/03' ? '2025-11-03' : '2025-11-04' })));
+  });
+});
+
+describe('partitionsInRange', () => {
+  it('keeps partitions overlapping the range', () => {
+    expect(partitionsInRange(partitions, { from: '2025-11-01' }).map(p => p.period)).toEqual(['2025-11']);
+    expect(partitionsInRange(partitions, { to: '2025-10-15' }).map(p => p.period)).toEqual(['2025-10']);
+    expect(partitionsInRange(partitions)).toHaveLength(2);
+  });
+
+  it('starts recent ranges from the latest date in the index', () => {
+    const index: DatasetIndex = {
+      schemaVersion: 1,
+      datasets: [{ id: 'vegetables_fv', label: '辣椒', category: 'vegetable', file: 'vegetables_fv.csv', to: '2025-11-04' }]
+    };
+    expect(recentRange(index, 35)).toEqual({ from: '2025-09-30' });
+    expect(recentRange(null, 35)).toEqual({});
+  });
+});
+
+describe('createDatasetLoader', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches the index once and each partition only when first needed', async () => {
+    const index: DatasetIndex = {
+      schemaVersion: 1,
+      datasets: [{ id: 'vegetables_fv', label: '辣椒', category: 'vegetable', file: 'vegetables_fv.csv', partitions }]
+    };
+    const bodies: Record<string, unknown> = {
+      '/data/datasets.json': index,
+      '/data/vegetables_fv/2025-10.json': encodePartition([point('114/10/01', '一市', '紅小', 70)]),
+      '/data/vegetables_fv/2025-11.json': encodePartition(november)
+    };
+    const fetch = vi.fn(async (url: string) => new Response(JSON.stringify(bodies[url])));
+    vi.stubGlobal('fetch', fetch);
+
+    const loader = createDatasetLoader();
+    expect(await loader.load({ from: '2025-11-01' })).toHaveLength(3);
+    expect(fetch.mock.calls.map(c => c[0])).toEqual(['/data/datasets.json', '/data/vegetables_fv/2025-11.json']);
+
+    const all = await loader.load();
+    expect(all.map(p => p.ISODate)).toEqual(['2025-10-01', '2025-11-03', '2025-11-03', '2025-11-04']);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
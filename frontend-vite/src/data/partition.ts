@@ -0,0 +1,94 @@
+import {
+  assertSchemaVersion,
+  DATASET_SCHEMA_VERSION,
+  NUMERIC_COLUMNS,
+  TEXT_COLUMNS,
+  type DataPoint,
+  type DatasetIndex,
+  type DatasetPartition,
+  type DatasetPartitionEntry,
+  type DictionaryColumn
+} from './schema';
+import { addDays, rocToIso } from './rocDate';
+
+// 西元日期區間 (YYYY-MM-DD，含頭尾)，未指定的一端不設限
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+// 分區以月份為單位
+export const partitionPeriod = (isoDate: string) => isoDate.slice(0, 7);
+
+const encodeText = (values: string[]): DictionaryColumn => {
+  const dictionary = new Map<string, number>();
+  const codes = values.map(v => {
+    let code = dictionary.get(v);
+    if (code === undefined) {
+      code = dictionary.size;
+      dictionary.set(v, code);
+    }
+    return code;
+  });
+  return { values: Array.from(dictionary.keys()), codes };
+};
+
+// 將資料列轉為欄式編碼，供爬蟲寫入分區檔案
+export const encodePartition = (points: DataPoint[]): DatasetPartition => ({
+  schemaVersion: DATASET_SCHEMA_VERSION,
+  rows: points.length,
+  text: Object.fromEntries(
+    TEXT_COLUMNS.map(c => [c, encodeText(points.map(p => p[c]))])
+  ) as DatasetPartition['text'],
+  numeric: Object.fromEntries(
+    NUMERIC_COLUMNS.map(c => [c, points.map(p => p[c])])
+  ) as DatasetPartition['numeric']
+});
+
+// 還原分區檔案中的資料列，ISODate 每個日期只轉換一次
+export const decodePartition = (partition: DatasetPartition): DataPoint[] => {
+  assertSchemaVersion(partition.schemaVersion);
+  const { text, numeric } = partition;
+  const isoDates = text.Date.values.map(rocToIso);
+
+  const points: DataPoint[] = [];
+  for (let i = 0; i < partition.rows; i++) {
+    points.push({
+      Date: text.Date.values[text.Date.codes[i]],
+      Market: text.Market.values[text.Market.codes[i]],
+      Code: text.Code.values[text.Code.codes[i]],
+      Name: text.Name.values[text.Name.codes[i]],
+      Variety: text.Variety.values[text.Variety.codes[i]],
+      High: numeric.High[i],
+      Mid: numeric.Mid[i],
+      Low: numeric.Low[i],
+      Avg: numeric.Avg[i],
+      Volume: numeric.Volume[i],
+      ISODate: isoDates[text.Date.codes[i]]
+    });
+  }
+  return points;
+};
+
+// 與日期區間有重疊的分區
+export const partitionsInRange = (partitions: DatasetPartitionEntry[], range: DateRange = {}) =>
+  partitions.filter(p =>
+    (!range.from || p.to >= range.from) && (!range.to || p.from <= range.to)
+  );
+
+// 索引中所有資料集涵蓋的日期區間，沒有記錄涵蓋日期的一端不設限
+export const datasetBounds = (index: DatasetIndex | null): DateRange => {
+  const entries = index?.datasets || [];
+  const froms = entries.map(d => d.from || '').filter(Boolean);
+  const tos = entries.map(d => d.to || '').filter(Boolean);
+  return {
+    from: froms.length > 0 ? froms.reduce((a, b) => (a < b ? a : b)) : undefined,
+    to: tos.length > 0 ? tos.reduce((a, b) => (a > b ? a : b)) : undefined
+  };
+};
+
+// 索引中最新資料日期往前 days 天的區間，索引沒有記錄涵蓋日期時不設限
+export const recentRange = (index: DatasetIndex | null, days: number): DateRange => {
+  const { to } = datasetBounds(index);
+  return to ? { from: addDays(to, -days) } : {};
+};
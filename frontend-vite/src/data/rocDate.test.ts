@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, dateToRoc, isoQuarter, isoToRoc, isoWeekStart, parseDateInput, rocToIso } from './rocDate';
+
+describe('rocDate', () => {
+  it('converts ROC dates to ISO dates', () => {
+    expect(rocToIso('114/11/26')).toBe('2025-11-26');
+    expect(rocToIso('99/1/5')).toBe('2010-01-05');
+  });
+
+  it('returns unrecognised input unchanged', () => {
+    expect(rocToIso('not a date')).toBe('not a date');
+  });
+
+  it('converts ISO dates back to ROC dates', () => {
+    expect(isoToRoc('2025-11-26')).toBe('114/11/26');
+    expect(dateToRoc(new Date(2024, 0, 1))).toBe('113/01/01');
+  });
+
+  it('finds the Monday that starts the week', () => {
+    expect(isoWeekStart('2025-11-26')).toBe('2025-11-24');
+    expect(isoWeekStart('2025-11-30')).toBe('2025-11-24');
+    expect(isoWeekStart('2025-11-24')).toBe('2025-11-24');
+  });
+
+  it('shifts dates and names quarters', () => {
+    expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+    expect(isoQuarter('2025-11-26')).toBe('2025-Q4');
+    expect(isoQuarter('2025-03-31')).toBe('2025-Q1');
+  });
+
+  it('parses ROC and Gregorian date input', () => {
+    expect(parseDateInput('114/11/26')).toBe('2025-11-26');
+    expect(parseDateInput(' 114-1-5 ')).toBe('2025-01-05');
+    expect(parseDateInput('1141126')).toBe('2025-11-26');
+    expect(parseDateInput('2025/11/26')).toBe('2025-11-26');
+    expect(parseDateInput('20251126')).toBe('2025-11-26');
+    expect(parseDateInput('114/02/30')).toBeNull();
+    expect(parseDateInput('yesterday')).toBeNull();
+  });
+});
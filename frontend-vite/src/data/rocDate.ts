@@ -0,0 +1,96 @@
+// 民國日期 (ROC) 與 ISO 日期互轉的輔助函式
+
+const ROC_OFFSET = 1911;
+
+const pad = (n: number | string) => String(n).padStart(2, '0');
+
+// 114/11/26 -> 2025-11-26，無法辨識的格式原樣回傳
+export const rocToIso = (rocDate: string) => {
+  const parts = rocDate.trim().split('/');
+  if (parts.length === 3) {
+    const year = parseInt(parts[0]) + ROC_OFFSET;
+    return `${year}-${pad(parts[1])}-${pad(parts[2])}`;
+  }
+  return rocDate;
+};
+
+// 2025-11-26 -> 114/11/26
+export const isoToRoc = (isoDate: string) => {
+  const parts = isoDate.split('-');
+  if (parts.length === 3) {
+    return `${parseInt(parts[0]) - ROC_OFFSET}/${pad(parts[1])}/${pad(parts[2])}`;
+  }
+  return isoDate;
+};
+
+// 2025-11 -> 114/11
+export const isoMonthToRoc = (isoMonth: string) => {
+  const [y, m] = isoMonth.split('-');
+  return `${parseInt(y) - ROC_OFFSET}/${m}`;
+};
+
+export const isoYearToRoc = (isoYear: string) => String(parseInt(isoYear) - ROC_OFFSET);
+
+export const dateToRoc = (date: Date) =>
+  `${date.getFullYear() - ROC_OFFSET}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+
+export const dateToIso = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// 以 UTC 解析 ISO 日期，避免時區造成的日期偏移
+export const parseIsoDate = (isoDate: string) => {
+  const [y, m, d] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+// 取得該日所屬週 (週一起算) 的第一天
+export const isoWeekStart = (isoDate: string) => {
+  const date = parseIsoDate(isoDate);
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().substring(0, 10);
+};
+
+// 往後 (負數為往前) 推算天數
+export const addDays = (isoDate: string, days: number) => {
+  const date = parseIsoDate(isoDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+};
+
+// 往前推 months 個月，月底日期以該月最後一天為準 (例如 03-31 的前一個月為 02-28)
+export const monthsBefore = (isoDate: string, months: number) => {
+  const date = parseIsoDate(isoDate);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() - months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date;
+};
+
+// 2025-11-26 -> 2025-Q4
+export const isoQuarter = (isoDate: string) =>
+  `${isoDate.substring(0, 4)}-Q${Math.floor((parseInt(isoDate.substring(5, 7)) - 1) / 3) + 1}`;
+
+// 2025-Q4 -> 114 Q4
+export const isoQuarterToRoc = (quarter: string) => {
+  const [y, q] = quarter.split('-');
+  return `${parseInt(y) - ROC_OFFSET} ${q}`;
+};
+
+// 使用者輸入的日期，可為民國 (114/11/26、114-11-26、1141126) 或西元 (2025/11/26、2025-11-26、20251126)，
+// 年份小於 1911 視為民國年；無法辨識或不存在的日期回傳 null
+export const parseDateInput = (text: string): string | null => {
+  const value = text.trim();
+  const match = value.match(/^(\d{2,4})[/.-](\d{1,2})[/.-](\d{1,2})$/) || value.match(/^(\d{3,4})(\d{2})(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const fullYear = year < ROC_OFFSET ? year + ROC_OFFSET : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().substring(0, 10);
+};
@@ -0,0 +1,153 @@
+// 資料集結構定義
+// 爬蟲輸出與前端讀取共用同一份欄位定義，欄位有任何變動時必須同步調整 DATASET_SCHEMA_VERSION
+
+export const DATASET_SCHEMA_VERSION = 1;
+
+export const DATASET_COLUMNS = [
+  'Date', 'Market', 'Code', 'Name', 'Variety', 'High', 'Mid', 'Low', 'Avg', 'Volume'
+] as const;
+
+export type DatasetColumn = typeof DATASET_COLUMNS[number];
+
+export const NUMERIC_COLUMNS = ['High', 'Mid', 'Low', 'Avg', 'Volume'] as const;
+export const TEXT_COLUMNS = ['Date', 'Market', 'Code', 'Name', 'Variety'] as const;
+
+export type NumericColumn = typeof NUMERIC_COLUMNS[number];
+export type TextColumn = typeof TEXT_COLUMNS[number];
+
+export interface DataPoint {
+  Date: string;      // 民國日期，例如 114/11/26
+  Market: string;
+  Code: string;
+  Name: string;
+  Variety: string;
+  High: number;
+  Mid: number;
+  Low: number;
+  Avg: number;
+  Volume: number;
+  // 計算出的欄位
+  ISODate?: string;
+  // 依品種分類設定 (taxonomy.json) 補上的欄位：合併國產與進口的品種、產地與顏色
+  Canonical?: string;
+  Origin?: VarietyOrigin;
+  ColorClass?: VarietyColor;
+}
+
+export type VarietyOrigin = 'domestic' | 'imported';
+export type VarietyColor = 'red' | 'green';
+
+export interface AggregatedPoint {
+  Date: string;
+  ISODate: string;
+  Volume: number;
+  Avg: number;
+  Market: string;
+  Name: string;
+  [key: string]: string | number | undefined | null;
+}
+
+// 資料集的一個月份分區，日期皆為西元 YYYY-MM-DD
+export interface DatasetPartitionEntry {
+  period: string;    // YYYY-MM
+  file: string;      // 相對於 public/data 的路徑
+  from: string;
+  to: string;
+  rows: number;
+}
+
+// 爬蟲輸出的資料集索引 (public/data/datasets.json)，每個產品群組一個資料集
+// file 為完整的 CSV；有 partitions 時前端只需載入所選區間的分區
+export interface DatasetIndexEntry {
+  id: string;
+  label: string;
+  category: 'vegetable' | 'fruit' | 'flower';
+  file: string;
+  from?: string;
+  to?: string;
+  products?: string[];
+  markets?: string[];
+  partitions?: DatasetPartitionEntry[];
+}
+
+export interface DatasetIndex {
+  schemaVersion: number;
+  datasets: DatasetIndexEntry[];
+}
+
+// 資料版本 (version.json)：爬蟲在資料檔有變動時改寫，version 為 files 內容的雜湊。
+// 離線快取以此判斷手機上保存的資料是否已有較新的版本，files 為相對於資料目錄的路徑
+export interface DatasetVersion {
+  schemaVersion: number;
+  version: string;
+  generatedAt: string;
+  files: string[];
+}
+
+// 分區檔案的欄式編碼：每個欄位一個陣列，文字欄位再以字典編碼 (values 為不重複的值，codes 為每列的索引)
+export interface DictionaryColumn {
+  values: string[];
+  codes: number[];
+}
+
+export interface DatasetPartition {
+  schemaVersion: number;
+  rows: number;
+  text: Record<TextColumn, DictionaryColumn>;
+  numeric: Record<NumericColumn, number[]>;
+}
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+// 價格警示：爬蟲依規則檢查最新資料後寫入 alerts.json，儀表板讀取顯示
+export type AlertMetric = 'Avg' | 'Volume' | 'change';
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+export interface PriceAlert {
+  // 規則 id 與資料日期，同一規則在同一天只觸發一次
+  id: string;
+  rule: string;
+  date: string;      // 觸發時最新資料的 ISO 日期
+  market: string;
+  product: string;
+  variety?: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  window: number;    // 統計天數
+  value: number;
+  message: string;
+  triggeredAt: string;
+}
+
+export interface AlertFeed {
+  generatedAt: string;
+  alerts: PriceAlert[];
+}
+
+export class DatasetSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetSchemaError';
+  }
+}
+
+export const assertSchemaVersion = (version: number) => {
+  if (version !== DATASET_SCHEMA_VERSION) {
+    throw new DatasetSchemaError(
+      `Dataset schema v${version} is not supported, expected v${DATASET_SCHEMA_VERSION}`
+    );
+  }
+};
+
+// 檢查 CSV 標頭是否符合目前的結構版本
+export const assertColumns = (fields: readonly string[]) => {
+  const missing = DATASET_COLUMNS.filter(c => !fields.includes(c));
+  if (missing.length > 0) {
+    throw new DatasetSchemaError(
+      `Dataset does not match schema v${DATASET_SCHEMA_VERSION}: missing column(s) ${missing.join(', ')}`
+    );
+  }
+};
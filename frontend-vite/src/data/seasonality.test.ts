@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { holidayAreas, holidaysIn, seasonalHeatmap, seasonalRange, seasonalSlot } from './seasonality';
+import type { AggregatedPoint } from './schema';
+import { makePoint } from './testing';
+
+const point = (ISODate: string, Avg: number, Volume: number) => makePoint({ Date: '', ISODate, Avg, Volume });
+
+const row = (ISODate: string): AggregatedPoint => ({ Date: ISODate, ISODate, Volume: 1, Avg: 1, Market: '一市', Name: '辣椒' });
+
+describe('seasonal slots', () => {
+  it('splits the year into 52 weeks from 1 January', () => {
+    expect(seasonalSlot('2025-01-07', 'week')).toBe(0);
+    expect(seasonalSlot('2025-01-08', 'week')).toBe(1);
+    // 12/31 併入最後一週
+    expect(seasonalSlot('2024-12-31', 'week')).toBe(51);
+    expect(seasonalRange('2024', 51, 'week')).toEqual({ from: '2024-12-23', to: '2024-12-31' });
+    expect(seasonalRange('2024', 1, 'month')).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+  });
+});
+
+describe('holidaysIn', () => {
+  it('lists overlapping holidays and lunar festivals', () => {
+    expect(holidaysIn('2025-01-29', '2025-02-04')).toEqual(['春節', '農曆新年 (正月初一)']);
+    expect(holidaysIn('2025-03-10', '2025-03-16')).toEqual([]);
+  });
+});
+
+describe('seasonalHeatmap', () => {
+  const rows = [
+    point('2024-02-01', 100, 10),
+    point('2024-02-20', 40, 30),
+    point('2025-02-03', 80, 20),
+    point('2025-03-03', 60, 10)
+  ];
+
+  it('gives one row per year with weighted prices per month', () => {
+    const heatmap = seasonalHeatmap(rows, 'price', 'month');
+    expect(heatmap.rows.map(r => r.year)).toEqual(['2024', '2025']);
+    expect(heatmap.rows[0].cells).toHaveLength(12);
+    expect(heatmap.rows[0].cells[1]).toMatchObject({ label: '2月', value: 55, days: 2 });
+    expect(heatmap.rows[0].cells[0].value).toBeNull();
+    expect(heatmap.rows[1].cells[0].holidays).toContain('春節');
+    expect([heatmap.min, heatmap.max]).toEqual([55, 80]);
+  });
+
+  it('sums volume per week', () => {
+    const heatmap = seasonalHeatmap(rows, 'volume', 'week');
+    expect(heatmap.labels).toHaveLength(52);
+    expect(heatmap.rows[1].cells.filter(c => c.value !== null).map(c => [c.label, c.value])).toEqual([['W5', 20], ['W9', 10]]);
+  });
+});
+
+describe('holidayAreas', () => {
+  it('spans the trading days around a holiday in the day view', () => {
+    const rows = ['2025-01-23', '2025-01-24', '2025-02-03', '2025-02-04'].map(row);
+    expect(holidayAreas(rows, 'day')).toEqual([
+      { key: '春節|2025-01-25', x1: '2025-01-24', x2: '2025-02-03', title: '114/01/25 ~ 114/02/02 春節' }
+    ]);
+    expect(holidayAreas(rows, 'month')).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import type { AggregatedPoint, DataPoint, Granularity } from './schema';
+import { periodKey, sumVolume, weightedAvg } from './aggregate';
+import { addDays, isoToRoc, parseIsoDate, rocToIso } from './rocDate';
+import holidayCalendar from './holidays.json';
+
+// 季節性熱圖：每年一列、每週或每月一格，顏色為該格的平均價或交易量，並標示國定假日與農曆節日
+
+export type SeasonalPeriod = 'week' | 'month';
+export type SeasonalMetric = 'price' | 'volume';
+
+export const SEASONAL_PERIOD_LABELS: Record<SeasonalPeriod, string> = { week: '週', month: '月' };
+export const SEASONAL_METRIC_LABELS: Record<SeasonalMetric, string> = { price: '平均價', volume: '交易量' };
+
+// 國定假日 (含補假與調整放假的連假)，日期皆為含頭尾的 ISO 日期
+export interface Holiday {
+  name: string;
+  from: string;
+  to: string;
+  // 依農曆決定日期的節日 (春節、端午、中秋)
+  lunar?: boolean;
+}
+
+export interface LunarFestival {
+  name: string;
+  lunarDate: string;
+  dates: string[];
+}
+
+export interface HolidayCalendar {
+  holidays: Holiday[];
+  lunarFestivals: LunarFestival[];
+}
+
+// 內建 2022 年起的行事曆 (行政院人事行政總處公布的放假日)，之後的年份需隨行事曆公布更新
+export const HOLIDAY_CALENDAR: HolidayCalendar = holidayCalendar;
+
+export interface SeasonalCell {
+  slot: number;
+  label: string;
+  from: string;
+  to: string;
+  // 格內沒有交易時為 null
+  value: number | null;
+  days: number;
+  holidays: string[];
+}
+
+export interface SeasonalRow {
+  year: string;
+  cells: SeasonalCell[];
+}
+
+export interface SeasonalHeatmap {
+  rows: SeasonalRow[];
+  labels: string[];
+  min: number;
+  max: number;
+}
+
+export interface HolidayArea {
+  key: string;
+  x1: string;
+  x2: string;
+  title: string;
+}
+
+// 每年 52 週 (由 1/1 起每 7 天一格，年底剩下的 1 至 2 天併入最後一週) 或 12 個月
+const SLOTS: Record<SeasonalPeriod, number> = { week: 52, month: 12 };
+
+const isoOf = (d: DataPoint) => d.ISODate || rocToIso(d.Date);
+
+const dayOfYear = (iso: string) =>
+  Math.round((parseIsoDate(iso).getTime() - parseIsoDate(`${iso.substring(0, 4)}-01-01`).getTime()) / 86400000);
+
+export const seasonalSlot = (iso: string, period: SeasonalPeriod) =>
+  period === 'month' ? parseInt(iso.substring(5, 7)) - 1 : Math.min(Math.floor(dayOfYear(iso) / 7), SLOTS.week - 1);
+
+export const seasonalLabel = (slot: number, period: SeasonalPeriod) =>
+  period === 'month' ? `${slot + 1}月` : `W${slot + 1}`;
+
+// 一格涵蓋的日期 (含頭尾)
+export const seasonalRange = (year: string, slot: number, period: SeasonalPeriod) => {
+  if (period === 'month') {
+    const month = String(slot + 1).padStart(2, '0');
+    const next = slot === 11 ? `${parseInt(year) + 1}-01-01` : `${year}-${String(slot + 2).padStart(2, '0')}-01`;
+    return { from: `${year}-${month}-01`, to: addDays(next, -1) };
+  }
+  const from = addDays(`${year}-01-01`, slot * 7);
+  return { from, to: slot === SLOTS.week - 1 ? `${year}-12-31` : addDays(from, 6) };
+};
+
+// 與日期區間重疊的假日與區間內的農曆節日名稱
+export const holidaysIn = (from: string, to: string, calendar: HolidayCalendar = HOLIDAY_CALENDAR) => {
+  const names = [
+    ...calendar.holidays.filter(h => h.from <= to && h.to >= from).map(h => h.name),
+    ...calendar.lunarFestivals.flatMap(f => f.dates.filter(d => d >= from && d <= to).map(() => `${f.name} (${f.lunarDate})`))
+  ];
+  return Array.from(new Set(names));
+};
+
+// 依年份 × 週 / 月彙整資料列：平均價為交易量加權平均，交易量為總和；
+// min / max 為所有有交易的格子的範圍，供顏色比例尺使用
+export const seasonalHeatmap = (
+  rows: DataPoint[],
+  metric: SeasonalMetric,
+  period: SeasonalPeriod,
+  calendar: HolidayCalendar = HOLIDAY_CALENDAR
+): SeasonalHeatmap => {
+  const cells = new Map<string, DataPoint[]>();
+  rows.forEach(d => {
+    const iso = isoOf(d);
+    const key = `${iso.substring(0, 4)}|${seasonalSlot(iso, period)}`;
+    if (!cells.has(key)) cells.set(key, []);
+    cells.get(key)!.push(d);
+  });
+
+  const years = Array.from(new Set(rows.map(d => isoOf(d).substring(0, 4)))).sort();
+  const values: number[] = [];
+  const heatmapRows = years.map(year => ({
+    year,
+    cells: Array.from({ length: SLOTS[period] }, (_, slot) => {
+      const points = cells.get(`${year}|${slot}`) ?? [];
+      const value = points.length === 0 ? null : Math.round(metric === 'price' ? weightedAvg(points) : sumVolume(points));
+      if (value !== null) values.push(value);
+      const { from, to } = seasonalRange(year, slot, period);
+      return {
+        slot,
+        label: seasonalLabel(slot, period),
+        from,
+        to,
+        value,
+        days: new Set(points.map(isoOf)).size,
+        holidays: holidaysIn(from, to, calendar)
+      };
+    })
+  }));
+
+  return {
+    rows: heatmapRows,
+    labels: Array.from({ length: SLOTS[period] }, (_, slot) => seasonalLabel(slot, period)),
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0
+  };
+};
+
+// 價格走勢圖上的假日陰影 (日 / 週檢視)：市場在連假期間通常休市，
+// 陰影從假日前最後一個資料點延伸到假日後第一個資料點
+export const holidayAreas = (
+  rows: AggregatedPoint[],
+  granularity: Granularity,
+  calendar: HolidayCalendar = HOLIDAY_CALENDAR
+): HolidayArea[] => {
+  if (rows.length < 2 || (granularity !== 'day' && granularity !== 'week')) return [];
+  const first = rows[0].ISODate;
+  const last = rows[rows.length - 1].ISODate;
+
+  return calendar.holidays.flatMap(holiday => {
+    const from = periodKey(holiday.from, granularity);
+    const to = periodKey(holiday.to, granularity);
+    if (to < first || from > last) return [];
+    const before = rows.filter(row => row.ISODate < from).length - 1;
+    const after = rows.findIndex(row => row.ISODate > to);
+    const x1 = rows[Math.max(before, 0)].Date;
+    const x2 = rows[after === -1 ? rows.length - 1 : after].Date;
+    if (x1 === x2) return [];
+    const period = holiday.from === holiday.to ? isoToRoc(holiday.from) : `${isoToRoc(holiday.from)} ~ ${isoToRoc(holiday.to)}`;
+    return [{ key: `${holiday.name}|${holiday.from}`, x1, x2, title: `${period} ${holiday.name}` }];
+  });
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyVariety,
+  DEFAULT_TAXONOMY,
+  defaultVarieties,
+  filterVarieties,
+  groupVarieties,
+  normalizeVarieties,
+  parseTaxonomy,
+  TaxonomyError
+} from './taxonomy';
+import { makePoint } from './testing';
+
+const point = (Code: string, Variety: string, Avg = 50, Name = '辣椒') => makePoint({ Date: '114/11/01', Code, Name, Variety, Avg });
+
+describe('classifyVariety', () => {
+  it('maps codes and names to the configured variety', () => {
+    expect(classifyVariety(point('FV94', '進口朝天椒'))).toEqual({
+      name: '進口朝天椒', canonical: '朝天椒', origin: 'imported', color: 'red'
+    });
+    // 原始資料中以「進口」列出的 FV91 仍為進口紅小
+    expect(classifyVariety(point('FV91', '進口')).name).toBe('進口紅小');
+    expect(classifyVariety(point('', '青小')).color).toBe('green');
+  });
+
+  it('falls back to the 進口 prefix for varieties missing from the config', () => {
+    expect(classifyVariety(point('FV99', '進口雞心'))).toEqual({ name: '進口雞心', canonical: '雞心', origin: 'imported' });
+    expect(classifyVariety(point('LA1', '包心', 30, '甘藍'))).toEqual({ name: '包心', canonical: '包心', origin: 'domestic' });
+  });
+
+  it('matches aliases of the raw variety name', () => {
+    const taxonomy = parseTaxonomy({
+      products: { 辣椒: { defaults: [], varieties: [{ aliases: ['雞心椒'], name: '雞心', canonical: '雞心', origin: 'domestic' }] } }
+    });
+    expect(classifyVariety(point('FV3', '雞心椒'), taxonomy).name).toBe('雞心');
+  });
+});
+
+describe('parseTaxonomy', () => {
+  it('rejects malformed config', () => {
+    expect(() => parseTaxonomy([])).toThrow(TaxonomyError);
+    expect(() => parseTaxonomy({ products: { 辣椒: { defaults: [] } } })).toThrow(TaxonomyError);
+    expect(() => parseTaxonomy({
+      products: { 辣椒: { defaults: [], varieties: [{ name: '紅小', canonical: '紅小', origin: 'local' }] } }
+    })).toThrow(TaxonomyError);
+  });
+});
+
+describe('normalizeVarieties', () => {
+  it('renames varieties, adds the taxonomy fields and drops duplicated import rows', () => {
+    const rows = normalizeVarieties([point('FV91', '進口紅小', 80), point('FV91', '進口', 80), point('FV1', '紅小')]);
+    expect(rows.map(d => [d.Variety, d.Canonical, d.Origin, d.ColorClass])).toEqual([
+      ['進口紅小', '紅小', 'imported', 'red'],
+      ['紅小', '紅小', 'domestic', 'red']
+    ]);
+  });
+});
+
+describe('grouping and filtering', () => {
+  const rows = normalizeVarieties([point('FV1', '紅小'), point('FV91', '進口紅小'), point('FV2', '青小'), point('FV0', '其他')]);
+
+  it('replaces the variety with the group name', () => {
+    expect(groupVarieties(rows, 'canonical').map(d => d.Variety)).toEqual(['紅小', '紅小', '青小', '其他']);
+    expect(groupVarieties(rows, 'origin').map(d => d.Variety)).toEqual(['國產', '進口', '國產', '國產']);
+    expect(groupVarieties(rows, 'color').map(d => d.Variety)).toEqual(['紅椒', '紅椒', '青椒', '未分類']);
+    expect(groupVarieties(rows, 'variety')).toBe(rows);
+  });
+
+  it('keeps rows of the chosen origin and colour', () => {
+    expect(filterVarieties(rows, { origin: 'domestic', color: 'red' }).map(d => d.Variety)).toEqual(['紅小']);
+    expect(filterVarieties(rows, { origin: null, color: 'green' }).map(d => d.Variety)).toEqual(['青小']);
+  });
+});
+
+describe('defaultVarieties', () => {
+  it('selects the configured defaults present in the data, or everything', () => {
+    expect(defaultVarieties('辣椒', ['紅小', '其他', '朝天椒'])).toEqual(['紅小', '朝天椒']);
+    expect(defaultVarieties('辣椒', ['其他'])).toEqual(['其他']);
+    expect(DEFAULT_TAXONOMY.products['辣椒'].defaults).toContain('進口朝天椒');
+  });
+});
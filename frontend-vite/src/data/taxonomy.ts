@@ -0,0 +1,172 @@
+import type { DataPoint, VarietyColor, VarietyOrigin } from './schema';
+import taxonomyConfig from './taxonomy.json';
+
+// 品種分類：將原始的品種代號 / 名稱對應到顯示名稱、合併國產與進口的品種 (canonical)、產地與顏色，
+// 設定檔為 taxonomy.json，每個產品一組規則與預設選取的品種
+
+export interface VarietyRule {
+  // 符合代號 (例如 FV94) 的資料列優先套用，其次為名稱或別名符合原始品種名稱者
+  code?: string;
+  aliases?: string[];
+  name: string;
+  canonical: string;
+  origin: VarietyOrigin;
+  color?: VarietyColor;
+}
+
+export interface ProductTaxonomy {
+  // 切換到該產品時預設選取的品種 (顯示名稱)，資料中沒有的品種略過
+  defaults: string[];
+  varieties: VarietyRule[];
+}
+
+export interface Taxonomy {
+  products: Record<string, ProductTaxonomy>;
+}
+
+export interface VarietyClass {
+  name: string;
+  canonical: string;
+  origin: VarietyOrigin;
+  color?: VarietyColor;
+}
+
+export type VarietyGrouping = 'variety' | 'canonical' | 'origin' | 'color';
+
+export const VARIETY_GROUPINGS: VarietyGrouping[] = ['variety', 'canonical', 'origin', 'color'];
+
+export const VARIETY_GROUPING_LABELS: Record<VarietyGrouping, string> = {
+  variety: '品種',
+  canonical: '品種 (合併國產與進口)',
+  origin: '國產 / 進口',
+  color: '紅椒 / 青椒'
+};
+
+export const ORIGIN_LABELS: Record<VarietyOrigin, string> = { domestic: '國產', imported: '進口' };
+
+export const COLOR_CLASS_LABELS: Record<VarietyColor, string> = { red: '紅椒', green: '青椒' };
+
+// 設定檔沒有指定顏色的品種 (例如其他) 依顏色分組時的名稱
+export const UNCLASSIFIED = '未分類';
+
+export interface VarietyFilter {
+  origin: VarietyOrigin | null;
+  color: VarietyColor | null;
+}
+
+export class TaxonomyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaxonomyError';
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const assertRule = (product: string, value: unknown): VarietyRule => {
+  const rule = value as VarietyRule;
+  const valid = isString(rule?.name) && isString(rule.canonical) &&
+    (rule.origin in ORIGIN_LABELS) &&
+    (rule.color === undefined || rule.color in COLOR_CLASS_LABELS) &&
+    (rule.code === undefined || isString(rule.code)) &&
+    (rule.aliases === undefined || isStringList(rule.aliases));
+  if (!valid) {
+    throw new TaxonomyError(`Invalid variety rule for ${product}: ${JSON.stringify(value)}`);
+  }
+  return rule;
+};
+
+// 驗證品種分類設定，格式錯誤時拋出 TaxonomyError
+export const parseTaxonomy = (value: unknown): Taxonomy => {
+  const products = (value as Taxonomy)?.products;
+  if (!products || typeof products !== 'object' || Array.isArray(products)) {
+    throw new TaxonomyError('Taxonomy must have a products object');
+  }
+  return {
+    products: Object.fromEntries(Object.entries(products).map(([product, config]) => {
+      if (!isStringList(config?.defaults) || !Array.isArray(config.varieties)) {
+        throw new TaxonomyError(`Taxonomy for ${product} must have defaults and varieties arrays`);
+      }
+      return [product, { defaults: config.defaults, varieties: config.varieties.map(rule => assertRule(product, rule)) }];
+    }))
+  };
+};
+
+export const DEFAULT_TAXONOMY = parseTaxonomy(taxonomyConfig);
+
+const IMPORTED_PREFIX = '進口';
+
+// 依資料列的產品、代號與原始品種名稱分類；設定檔沒有對應的品種以名稱判斷：
+// 「進口」開頭者為進口，合併後的品種為去掉前綴的名稱
+export const classifyVariety = (
+  point: Pick<DataPoint, 'Name' | 'Code' | 'Variety'>,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): VarietyClass => {
+  const rules = taxonomy.products[point.Name]?.varieties ?? [];
+  const rule = rules.find(r => r.code !== undefined && r.code === point.Code) ??
+    rules.find(r => r.name === point.Variety || r.aliases?.includes(point.Variety));
+  if (rule) {
+    return { name: rule.name, canonical: rule.canonical, origin: rule.origin, color: rule.color };
+  }
+
+  const imported = point.Variety.startsWith(IMPORTED_PREFIX);
+  return {
+    name: point.Variety,
+    canonical: (imported && point.Variety.substring(IMPORTED_PREFIX.length)) || point.Variety,
+    origin: imported ? 'imported' : 'domestic'
+  };
+};
+
+// 載入資料時套用品種分類：品種改為顯示名稱並補上合併品種、產地與顏色。
+// 部分進口品種在原始資料中同時以「進口」與「進口紅小」等名稱各列一次，
+// 分類後同一天、市場、代號、品種且價格與交易量相同的重複列只保留第一列
+export const normalizeVarieties = (points: DataPoint[], taxonomy: Taxonomy = DEFAULT_TAXONOMY): DataPoint[] => {
+  const classes = new Map<string, VarietyClass>();
+  const seen = new Set<string>();
+  return points.flatMap(d => {
+    const classKey = `${d.Name}|${d.Code}|${d.Variety}`;
+    if (!classes.has(classKey)) classes.set(classKey, classifyVariety(d, taxonomy));
+    const { name, canonical, origin, color } = classes.get(classKey)!;
+
+    const rowKey = `${d.Date}|${d.Market}|${d.Code}|${d.Name}|${name}|${d.Avg}|${d.Volume}`;
+    if (seen.has(rowKey)) return [];
+    seen.add(rowKey);
+    return [{ ...d, Variety: name, Canonical: canonical, Origin: origin, ColorClass: color }];
+  });
+};
+
+// 切換產品時預設選取的品種：設定檔的預設品種中資料有的部分，都沒有時全選
+export const defaultVarieties = (product: string, available: string[], taxonomy: Taxonomy = DEFAULT_TAXONOMY) => {
+  const defaults = (taxonomy.products[product]?.defaults ?? []).filter(v => available.includes(v));
+  return defaults.length > 0 ? defaults : available;
+};
+
+// 資料列在指定分組下的名稱；沒有經過 normalizeVarieties 的資料列即時分類
+export const varietyGroupOf = (d: DataPoint, grouping: VarietyGrouping) => {
+  if (grouping === 'variety') return d.Variety;
+  const { canonical, origin, color } = d.Origin
+    ? { canonical: d.Canonical ?? d.Variety, origin: d.Origin, color: d.ColorClass }
+    : classifyVariety(d);
+  switch (grouping) {
+    case 'canonical':
+      return canonical;
+    case 'origin':
+      return ORIGIN_LABELS[origin];
+    default:
+      return color ? COLOR_CLASS_LABELS[color] : UNCLASSIFIED;
+  }
+};
+
+// 依分組將品種改為組別名稱，之後的聚合、預測與資料瀏覽即以組別作為「品種」
+export const groupVarieties = (points: DataPoint[], grouping: VarietyGrouping): DataPoint[] =>
+  grouping === 'variety' ? points : points.map(d => ({ ...d, Variety: varietyGroupOf(d, grouping) }));
+
+export const filterVarieties = (points: DataPoint[], { origin, color }: VarietyFilter): DataPoint[] =>
+  origin || color
+    ? points.filter(d => {
+      const variety = d.Origin ? { origin: d.Origin, color: d.ColorClass } : classifyVariety(d);
+      return (!origin || variety.origin === origin) && (!color || variety.color === color);
+    })
+    : points;
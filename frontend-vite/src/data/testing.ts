@@ -0,0 +1,12 @@
+import type { DataPoint } from './schema';
+
+// 測試用的資料列：預設為一市紅小辣椒的一筆交易，只需指定測試關心的欄位；
+// 上價 / 下價為平均價加減 spread (預設 0，三個價格相同)
+export const makePoint = ({ spread = 0, ...fields }: Partial<DataPoint> & { spread?: number } = {}): DataPoint => {
+  const Avg = fields.Avg ?? 50;
+  return {
+    Date: '114/11/26', Market: '一市', Code: 'FV1', Name: '辣椒', Variety: '紅小',
+    High: Avg + spread, Mid: Avg, Low: Avg - spread, Avg, Volume: 100,
+    ...fields
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeViewState,
+  encodeViewState,
+  loadSavedViews,
+  mergeSavedViews,
+  parseSavedViews,
+  SavedViewsError,
+  serializeSavedViews,
+  storeSavedViews,
+  type SavedView,
+  type ViewState
+} from './viewState';
+
+const view: ViewState = {
+  market: '二市',
+  compareMarkets: [],
+  product: '辣椒',
+  varieties: ['紅小', '青小'],
+  grouping: 'canonical',
+  origin: 'domestic',
+  color: null,
+  timeScale: 'day',
+  hidden: ['青小'],
+  zoom: { from: '2025-10-01', to: '2025-11-30' }
+};
+
+const saved = (name: string): SavedView => ({ name, savedAt: '2025-12-01T00:00:00.000Z', view });
+
+// 只實作測試用到的 Storage 方法
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  } as Storage;
+};
+
+describe('view state in the URL', () => {
+  it('round-trips through query parameters', () => {
+    const search = encodeViewState(view);
+    expect(search).toBe('market=%E4%BA%8C%E5%B8%82&product=%E8%BE%A3%E6%A4%92&varieties=%E7%B4%85%E5%B0%8F%2C%E9%9D%92%E5%B0%8F&group=canonical&origin=domestic&scale=day&hidden=%E9%9D%92%E5%B0%8F&zoom=2025-10-01%2C2025-11-30');
+    // 未開啟比較、未篩選顏色時網址不帶 compare 與 color
+    expect(decodeViewState(`?${search}`)).toEqual({ ...view, compareMarkets: undefined, color: undefined });
+  });
+
+  it('leaves out the default variety grouping', () => {
+    const ungrouped: ViewState = { ...view, grouping: 'variety', origin: null };
+    expect(decodeViewState(encodeViewState(ungrouped))).not.toHaveProperty('grouping');
+    expect(decodeViewState('?group=size&origin=local&color=blue')).toEqual({});
+  });
+
+  it('keeps the compared markets', () => {
+    const compared = { ...view, compareMarkets: ['一市', '二市'], color: 'red' as const };
+    expect(decodeViewState(encodeViewState(compared))).toEqual(compared);
+  });
+
+  it('keeps only valid parameters', () => {
+    expect(decodeViewState('?market=一市&scale=hour&zoom=2025-11-30,2025-10-01')).toEqual({
+      market: '一市',
+      zoom: { from: '2025-10-01', to: '2025-11-30' }
+    });
+    expect(decodeViewState('?zoom=last-week')).toEqual({});
+  });
+});
+
+describe('saved views', () => {
+  it('exports, imports and merges by name', () => {
+    const json = serializeSavedViews([saved('秋季')]);
+    expect(parseSavedViews(json)).toEqual([saved('秋季')]);
+
+    const replaced = { ...saved('秋季'), savedAt: '2026-01-01T00:00:00.000Z' };
+    expect(mergeSavedViews([saved('秋季'), saved('一市')], [replaced]).map(v => v.savedAt))
+      .toEqual(['2025-12-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z']);
+  });
+
+  it('reads views saved before market comparison and variety grouping', () => {
+    const older: Partial<ViewState> = { ...view };
+    delete older.compareMarkets;
+    delete older.grouping;
+    delete older.origin;
+    delete older.color;
+    const json = JSON.stringify({ version: 1, views: [{ name: '舊', savedAt: '2025-12-01T00:00:00.000Z', view: older }] });
+    expect(parseSavedViews(json)[0].view).toEqual({ ...view, grouping: 'variety', origin: null });
+  });
+
+  it('rejects malformed imports', () => {
+    expect(() => parseSavedViews('{')).toThrow(SavedViewsError);
+    expect(() => parseSavedViews('{"version":1,"views":[{"name":"x"}]}')).toThrow(SavedViewsError);
+  });
+
+  it('persists to storage and ignores corrupt entries', () => {
+    const storage = memoryStorage();
+    storeSavedViews([saved('秋季')], storage);
+    expect(loadSavedViews(storage)).toEqual([saved('秋季')]);
+
+    storage.setItem('market-dashboard:saved-views', 'not json');
+    expect(loadSavedViews(storage)).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { GRANULARITIES, type Granularity, type VarietyColor, type VarietyOrigin } from './schema';
+import { COLOR_CLASS_LABELS, ORIGIN_LABELS, VARIETY_GROUPINGS, type VarietyGrouping } from './taxonomy';
+
+// 儀表板的篩選與縮放狀態，可序列化為網址參數或儲存為具名檢視
+export interface ViewState {
+  market: string;
+  // 比較模式中的市場，未開啟比較時為空陣列
+  compareMarkets: string[];
+  product: string;
+  varieties: string[];
+  // 品種的分組方式與產地 / 顏色篩選 (null 為不篩選)，varieties 為分組後的名稱
+  grouping: VarietyGrouping;
+  origin: VarietyOrigin | null;
+  color: VarietyColor | null;
+  timeScale: Granularity;
+  hidden: string[];
+  // 日期區間 (含頭尾的 ISO 日期，由日期選擇器、快速選項或拖曳縮放設定)，未設定時為 null
+  zoom: { from: string; to: string } | null;
+}
+
+export interface SavedView {
+  name: string;
+  savedAt: string;
+  view: ViewState;
+}
+
+export const SAVED_VIEWS_KEY = 'market-dashboard:saved-views';
+const SAVED_VIEWS_VERSION = 1;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class SavedViewsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedViewsError';
+  }
+}
+
+const list = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+// 例如 ?market=二市&product=辣椒&varieties=紅小,青小&scale=day&zoom=2025-10-01,2025-11-30
+export const encodeViewState = (view: ViewState) => {
+  const params = new URLSearchParams();
+  if (view.market) params.set('market', view.market);
+  if (view.compareMarkets.length > 0) params.set('compare', view.compareMarkets.join(','));
+  if (view.product) params.set('product', view.product);
+  if (view.varieties.length > 0) params.set('varieties', view.varieties.join(','));
+  if (view.grouping !== 'variety') params.set('group', view.grouping);
+  if (view.origin) params.set('origin', view.origin);
+  if (view.color) params.set('color', view.color);
+  params.set('scale', view.timeScale);
+  if (view.hidden.length > 0) params.set('hidden', view.hidden.join(','));
+  if (view.zoom) params.set('zoom', `${view.zoom.from},${view.zoom.to}`);
+  return params.toString();
+};
+
+// 只回傳網址中有效的部分，其餘沿用預設值
+export const decodeViewState = (search: string): Partial<ViewState> => {
+  const params = new URLSearchParams(search);
+  const view: Partial<ViewState> = {};
+
+  const market = params.get('market');
+  const product = params.get('product');
+  if (market) view.market = market;
+  if (product) view.product = product;
+  if (params.has('compare')) view.compareMarkets = list(params.get('compare'));
+  if (params.has('varieties')) view.varieties = list(params.get('varieties'));
+  if (params.has('hidden')) view.hidden = list(params.get('hidden'));
+
+  const grouping = params.get('group') as VarietyGrouping | null;
+  if (grouping && VARIETY_GROUPINGS.includes(grouping)) view.grouping = grouping;
+  const origin = params.get('origin');
+  if (origin && origin in ORIGIN_LABELS) view.origin = origin as VarietyOrigin;
+  const color = params.get('color');
+  if (color && color in COLOR_CLASS_LABELS) view.color = color as VarietyColor;
+
+  const scale = params.get('scale') as Granularity | null;
+  if (scale && GRANULARITIES.includes(scale)) view.timeScale = scale;
+
+  const [from, to] = list(params.get('zoom'));
+  if (from && to && ISO_DATE_PATTERN.test(from) && ISO_DATE_PATTERN.test(to)) {
+    view.zoom = from <= to ? { from, to } : { from: to, to: from };
+  }
+  return view;
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// 較早儲存的檢視沒有 compareMarkets 與品種分組，視為未開啟比較、不分組也不篩選
+const assertSavedView = (value: unknown): SavedView => {
+  const saved = value as SavedView;
+  const view = saved?.view && {
+    ...saved.view,
+    compareMarkets: saved.view.compareMarkets ?? [],
+    grouping: saved.view.grouping ?? 'variety',
+    origin: saved.view.origin ?? null,
+    color: saved.view.color ?? null
+  };
+  const valid = typeof saved?.name === 'string' && saved.name.trim() !== '' &&
+    typeof view?.market === 'string' && typeof view.product === 'string' &&
+    isStringList(view.compareMarkets) && isStringList(view.varieties) && isStringList(view.hidden) &&
+    GRANULARITIES.includes(view.timeScale) && VARIETY_GROUPINGS.includes(view.grouping) &&
+    (view.origin === null || view.origin in ORIGIN_LABELS) && (view.color === null || view.color in COLOR_CLASS_LABELS) &&
+    (view.zoom === null || (ISO_DATE_PATTERN.test(view.zoom?.from) && ISO_DATE_PATTERN.test(view.zoom?.to)));
+  if (!valid) {
+    throw new SavedViewsError(`Invalid saved view: ${JSON.stringify(value)}`);
+  }
+  return { ...saved, view };
+};
+
+// 匯出的檔案與 localStorage 使用相同格式
+export const serializeSavedViews = (views: SavedView[]) =>
+  JSON.stringify({ version: SAVED_VIEWS_VERSION, views }, null, 2);
+
+export const parseSavedViews = (json: string): SavedView[] => {
+  let parsed: { version?: unknown; views?: unknown };
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new SavedViewsError('Saved views are not valid JSON');
+  }
+  if (parsed?.version !== SAVED_VIEWS_VERSION || !Array.isArray(parsed.views)) {
+    throw new SavedViewsError(`Saved views must be version ${SAVED_VIEWS_VERSION} with a views array`);
+  }
+  return parsed.views.map(assertSavedView);
+};
+
+// 同名的檢視以後者取代，其餘依名稱排序
+export const mergeSavedViews = (current: SavedView[], added: SavedView[]) => {
+  const byName = new Map(current.map(v => [v.name, v]));
+  added.forEach(v => byName.set(v.name, v));
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// 讀取失敗 (格式損毀或無法存取 localStorage) 時視為沒有儲存的檢視
+export const loadSavedViews = (storage: Storage = localStorage): SavedView[] => {
+  try {
+    const json = storage.getItem(SAVED_VIEWS_KEY);
+    return json ? parseSavedViews(json) : [];
+  } catch (error) {
+    console.warn('Ignoring saved views:', error);
+    return [];
+  }
+};
+
+export const storeSavedViews = (views: SavedView[], storage: Storage = localStorage) => {
+  storage.setItem(SAVED_VIEWS_KEY, serializeSavedViews(views));
+};
@@ -0,0 +1,85 @@
+import type { AggregatedPoint, DataPoint } from './schema';
+import type { CandlePoint } from './aggregate';
+import type {
+  CandleRequest,
+  ChartRequest,
+  DatasetSummary,
+  ForecastRequest,
+  RowsRequest,
+  SeasonalityRequest,
+  SelectionRequest,
+  SeriesAnalysis,
+  VarietiesRequest
+} from './chartEngine';
+import type { Forecast } from './forecast';
+import type { DatasetLoader } from './loader';
+import type { VarietyMix } from './mix';
+import type { DateRange } from './partition';
+import type { SeasonalHeatmap } from './seasonality';
+import type { DatasetWorkerRequest, DatasetWorkerResponse } from './workerProtocol';
+
+// Worker 需要的最小介面，測試時可用直接呼叫處理函式的假 Worker 代替
+export interface DatasetWorkerPort {
+  postMessage: (message: DatasetWorkerRequest) => void;
+  addEventListener: (type: 'message', listener: (event: MessageEvent<DatasetWorkerResponse>) => void) => void;
+}
+
+// 資料列留在 Worker 中，主執行緒只取得摘要與各項計算結果
+export interface WorkerDatasetLoader {
+  index: DatasetLoader['index'];
+  // 載入區間內尚未載入的分區，回傳目前已載入資料的摘要
+  load: (range?: DateRange) => Promise<DatasetSummary>;
+  varieties: (request: VarietiesRequest) => Promise<string[]>;
+  // 依篩選條件聚合的圖表資料，相同條件由 Worker 的快取回覆
+  chartData: (request: ChartRequest) => Promise<AggregatedPoint[]>;
+  analysis: (request: SelectionRequest) => Promise<SeriesAnalysis>;
+  rows: (request: RowsRequest) => Promise<DataPoint[]>;
+  mix: (request: RowsRequest) => Promise<VarietyMix>;
+  candles: (request: CandleRequest) => Promise<CandlePoint[]>;
+  forecast: (request: ForecastRequest) => Promise<Forecast[]>;
+  seasonality: (request: SeasonalityRequest) => Promise<SeasonalHeatmap>;
+}
+
+type Pending = { resolve: (response: DatasetWorkerResponse) => void; reject: (error: Error) => void };
+
+// 各類型請求不含 id 的部分
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = WithoutId<DatasetWorkerRequest>;
+// 與請求同類型的回覆
+type ResponseTo<T extends RequestBody> = Extract<DatasetWorkerResponse, { type: T['type'] }>;
+
+// 主執行緒端：以 Promise 包裝 Worker 的請求與回覆
+export const createWorkerDatasetLoader = (worker: DatasetWorkerPort): WorkerDatasetLoader => {
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+
+  worker.addEventListener('message', ({ data }) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if (data.type === 'error') request.reject(new Error(data.message));
+    else request.resolve(data);
+  });
+
+  const send = <T extends RequestBody>(body: T) => new Promise<ResponseTo<T>>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve: response => resolve(response as ResponseTo<T>), reject });
+    worker.postMessage({ ...body, id } as DatasetWorkerRequest);
+  });
+
+  return {
+    index: async () => (await send({ type: 'index' })).index,
+    load: async (range = {}) => (await send({ type: 'load', range })).summary,
+    varieties: async request => (await send({ type: 'varieties', request })).varieties,
+    chartData: async request => (await send({ type: 'chart', request })).rows,
+    analysis: async request => {
+      const { outliers, gaps } = await send({ type: 'analysis', request });
+      return { outliers, gaps };
+    },
+    rows: async request => (await send({ type: 'rows', request })).rows,
+    mix: async request => (await send({ type: 'mix', request })).mix,
+    candles: async request => (await send({ type: 'candles', request })).candles,
+    forecast: async request => (await send({ type: 'forecast', request })).forecasts,
+    seasonality: async request => (await send({ type: 'seasonality', request })).heatmap
+  };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createDatasetWorkerHandler, type DatasetWorkerRequest, type DatasetWorkerResponse } from './workerProtocol';
+import { createWorkerDatasetLoader, type DatasetWorkerPort } from './workerClient';
+import type { DatasetLoader } from './loader';
+import { makePoint } from './testing';
+
+const point = (ISODate: string, Avg: number) => makePoint({ Date: '', ISODate, Avg, Volume: 10 });
+
+// 第一次載入一筆資料，之後每次多一筆，模擬逐步載入分區
+const fakeLoader = (): DatasetLoader => {
+  let loads = 0;
+  return {
+    index: async () => null,
+    load: async range => {
+      if (range?.from === 'broken') throw new Error('Failed to fetch partition');
+      loads++;
+      return [point('2025-11-01', 40), point('2025-11-02', 60)].slice(0, loads);
+    }
+  };
+};
+
+// 以處理函式代替真正的 Worker，回覆以非同步方式送回
+const fakeWorker = (handle: (message: DatasetWorkerRequest) => Promise<DatasetWorkerResponse>): DatasetWorkerPort => {
+  const listeners: ((event: MessageEvent<DatasetWorkerResponse>) => void)[] = [];
+  return {
+    postMessage: message => {
+      handle(message).then(data => listeners.forEach(listener => listener({ data } as MessageEvent<DatasetWorkerResponse>)));
+    },
+    addEventListener: (_type, listener) => listeners.push(listener)
+  };
+};
+
+const request = {
+  markets: ['一市'],
+  compare: false,
+  product: '辣椒',
+  varieties: ['紅小'],
+  granularity: 'month' as const,
+  grouping: 'variety' as const,
+  filter: { origin: null, color: null },
+  excludeOutliers: false
+};
+
+describe('dataset worker handler', () => {
+  it('answers with the request id and caches chart data until new rows load', async () => {
+    const handle = createDatasetWorkerHandler(fakeLoader());
+    expect(await handle({ id: 1, type: 'index' })).toEqual({ id: 1, type: 'index', index: null });
+    expect(await handle({ id: 2, type: 'load', range: {} })).toEqual({
+      id: 2,
+      type: 'load',
+      summary: { rows: 1, markets: ['一市'], products: ['辣椒'], from: '2025-11-01', to: '2025-11-01', latest: '' }
+    });
+
+    const chart = await handle({ id: 3, type: 'chart', request });
+    expect(chart).toMatchObject({ id: 3, type: 'chart', cached: false, rows: [{ Date: '114/11', Avg: 40 }] });
+    expect(await handle({ id: 4, type: 'chart', request })).toMatchObject({ cached: true });
+
+    await handle({ id: 5, type: 'load', range: {} });
+    expect(await handle({ id: 6, type: 'chart', request })).toMatchObject({ cached: false, rows: [{ Avg: 50 }] });
+  });
+
+  it('keeps the rows in the worker and answers with analysis results', async () => {
+    const handle = createDatasetWorkerHandler(fakeLoader());
+    await handle({ id: 1, type: 'load', range: {} });
+    await handle({ id: 2, type: 'load', range: {} });
+
+    const view = { product: '辣椒', grouping: 'variety' as const, filter: { origin: null, color: null } };
+    expect(await handle({ id: 3, type: 'varieties', request: view })).toEqual({ id: 3, type: 'varieties', varieties: ['紅小'] });
+    expect(await handle({ id: 4, type: 'analysis', request })).toEqual({ id: 4, type: 'analysis', outliers: [], gaps: [] });
+    expect(await handle({ id: 5, type: 'rows', request: { ...request, from: '2025-11-02' } }))
+      .toEqual({ id: 5, type: 'rows', rows: [point('2025-11-02', 60)] });
+    expect(await handle({ id: 6, type: 'mix', request })).toMatchObject({ id: 6, type: 'mix', mix: { shares: [{ variety: '紅小', volume: 20 }] } });
+    expect(await handle({ id: 7, type: 'candles', request: { ...view, market: '一市', variety: '紅小', granularity: 'month', excludeOutliers: false } }))
+      .toMatchObject({ id: 7, type: 'candles', candles: [{ Open: 40, Close: 60 }] });
+  });
+
+  it('reports errors instead of throwing', async () => {
+    const handle = createDatasetWorkerHandler(fakeLoader());
+    expect(await handle({ id: 7, type: 'load', range: { from: 'broken' } }))
+      .toEqual({ id: 7, type: 'error', message: 'Failed to fetch partition' });
+  });
+});
+
+describe('createWorkerDatasetLoader', () => {
+  it('wraps worker messages in promises', async () => {
+    const loader = createWorkerDatasetLoader(fakeWorker(createDatasetWorkerHandler(fakeLoader())));
+    const [index, summary] = await Promise.all([loader.index(), loader.load()]);
+    expect(index).toBeNull();
+    expect(summary.rows).toBe(1);
+    expect((await loader.chartData(request))[0]).toMatchObject({ Avg: 40, Volume: 10 });
+    expect(await loader.analysis(request)).toEqual({ outliers: [], gaps: [] });
+    await expect(loader.load({ from: 'broken' })).rejects.toThrow('Failed to fetch partition');
+  });
+});
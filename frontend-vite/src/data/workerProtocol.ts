@@ -0,0 +1,91 @@
+import type { AggregatedPoint, DataPoint, DatasetIndex } from './schema';
+import type { CandlePoint } from './aggregate';
+import type { DataGap, Outlier } from './anomalies';
+import {
+  createChartEngine,
+  type CandleRequest,
+  type ChartRequest,
+  type DatasetSummary,
+  type ForecastRequest,
+  type RowsRequest,
+  type SeasonalityRequest,
+  type SelectionRequest,
+  type VarietiesRequest
+} from './chartEngine';
+import type { Forecast } from './forecast';
+import { createDatasetLoader, type DatasetLoader } from './loader';
+import type { VarietyMix } from './mix';
+import type { DateRange } from './partition';
+import type { SeasonalHeatmap } from './seasonality';
+
+// 主執行緒與資料 Worker 之間的訊息：每個請求帶有 id，Worker 以相同 id 回覆結果或錯誤。
+// 資料列只留在 Worker 中，載入只回覆摘要，其他請求回覆圖表與表格需要的計算結果
+
+export type DatasetWorkerRequest =
+  | { id: number; type: 'index' }
+  | { id: number; type: 'load'; range: DateRange }
+  | { id: number; type: 'varieties'; request: VarietiesRequest }
+  | { id: number; type: 'chart'; request: ChartRequest }
+  | { id: number; type: 'analysis'; request: SelectionRequest }
+  | { id: number; type: 'rows'; request: RowsRequest }
+  | { id: number; type: 'mix'; request: RowsRequest }
+  | { id: number; type: 'candles'; request: CandleRequest }
+  | { id: number; type: 'forecast'; request: ForecastRequest }
+  | { id: number; type: 'seasonality'; request: SeasonalityRequest };
+
+export type DatasetWorkerResponse =
+  | { id: number; type: 'index'; index: DatasetIndex | null }
+  | { id: number; type: 'load'; summary: DatasetSummary }
+  | { id: number; type: 'varieties'; varieties: string[] }
+  | { id: number; type: 'chart'; rows: AggregatedPoint[]; cached: boolean }
+  | { id: number; type: 'analysis'; outliers: Outlier[]; gaps: DataGap[] }
+  | { id: number; type: 'rows'; rows: DataPoint[] }
+  | { id: number; type: 'mix'; mix: VarietyMix }
+  | { id: number; type: 'candles'; candles: CandlePoint[] }
+  | { id: number; type: 'forecast'; forecasts: Forecast[] }
+  | { id: number; type: 'seasonality'; heatmap: SeasonalHeatmap }
+  | { id: number; type: 'error'; message: string };
+
+// Worker 端的處理：下載、解析 CSV / 分區與品種分類都在 Worker 中進行，
+// 已載入的資料列建立圖表引擎 (索引與快取)，載入新的分區後重建
+export const createDatasetWorkerHandler = (loader: DatasetLoader = createDatasetLoader()) => {
+  let loadedRows = -1;
+  let engine = createChartEngine([]);
+
+  return async (message: DatasetWorkerRequest): Promise<DatasetWorkerResponse> => {
+    const { id } = message;
+    try {
+      switch (message.type) {
+        case 'index':
+          return { id, type: 'index', index: await loader.index() };
+        case 'load': {
+          const points = await loader.load(message.range);
+          // 分區只會增加，筆數不變表示沒有新的資料，沿用原本的索引與快取
+          if (points.length !== loadedRows) {
+            loadedRows = points.length;
+            engine = createChartEngine(points);
+          }
+          return { id, type: 'load', summary: engine.summary() };
+        }
+        case 'varieties':
+          return { id, type: 'varieties', varieties: engine.varieties(message.request) };
+        case 'chart':
+          return { id, type: 'chart', ...engine.chartData(message.request) };
+        case 'analysis':
+          return { id, type: 'analysis', ...engine.analysis(message.request) };
+        case 'rows':
+          return { id, type: 'rows', rows: engine.rows(message.request) };
+        case 'mix':
+          return { id, type: 'mix', mix: engine.mix(message.request) };
+        case 'candles':
+          return { id, type: 'candles', candles: engine.candles(message.request) };
+        case 'forecast':
+          return { id, type: 'forecast', forecasts: engine.forecast(message.request) };
+        case 'seasonality':
+          return { id, type: 'seasonality', heatmap: engine.seasonality(message.request) };
+      }
+    } catch (error) {
+      return { id, type: 'error', message: error instanceof Error ? error.message : String(error) };
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { columnName, crc32, toXlsx, zipStore } from './xlsx';
+
+const decoder = new TextDecoder();
+
+// 依序讀出 ZIP 中的檔案 (STORE 格式，內容未壓縮)
+const unzip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    files[name] = decoder.decode(zip.subarray(start, start + size));
+    offset = start + size;
+  }
+  return files;
+};
+
+describe('zip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('stores files with a central directory', () => {
+    const zip = zipStore([{ name: 'a.txt', data: '辣椒' }, { name: 'b.txt', data: '' }]);
+    expect(unzip(zip)).toEqual({ 'a.txt': '辣椒', 'b.txt': '' });
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(zip.length - 12, true)).toBe(2);
+  });
+});
+
+describe('toXlsx', () => {
+  it('names columns like a spreadsheet', () => {
+    expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+
+  it('writes numbers as values and text as escaped inline strings', () => {
+    const files = unzip(toXlsx([['日期', '價格'], ['114/11/26', 85.5], ['<R&D>', null]], '二市/辣椒'));
+    expect(Object.keys(files)).toContain('xl/worksheets/sheet1.xml');
+    expect(files['xl/workbook.xml']).toContain('name="二市 辣椒"');
+
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<c r="B2"><v>85.5</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">&lt;R&amp;D&gt;</t>');
+    expect(sheet).not.toContain('r="B3"');
+  });
+});
@@ -0,0 +1,114 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // 立即撤銷網址時 Safari 與 Firefox 可能取消下載，等點擊處理完再撤銷
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export interface ChartImageOptions {
+  title: string;
+  legend: { label: string; color: string; dash?: string }[];
+  background?: string;
+}
+
+export interface ChartImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const TITLE_HEIGHT = 32;
+const LEGEND_ROW_HEIGHT = 20;
+
+// 圖例以 HTML 呈現不在 SVG 中，依字元寬度估算後另外畫在圖表下方
+const textWidth = (text: string) => Array.from(text).reduce((sum, ch) => sum + (ch.charCodeAt(0) > 255 ? 12 : 7), 0);
+
+const svgElement = (name: string, attributes: Record<string, string | number | undefined>) => {
+  const element = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => {
+    if (value !== undefined) element.setAttribute(key, String(value));
+  });
+  return element;
+};
+
+// 複製圖表容器中 recharts 產生的 SVG，加上標題、圖例與背景色，成為可獨立開啟的圖檔
+export function chartImage(container: HTMLElement, options: ChartImageOptions): ChartImage | null {
+  const source = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!source) return null;
+
+  const { width, height: chartHeight } = source.getBoundingClientRect();
+  const legendItems: { x: number; row: number; label: string; color: string; dash?: string }[] = [];
+  let x = 16;
+  let row = 0;
+  options.legend.forEach(item => {
+    const itemWidth = 28 + textWidth(item.label) + 16;
+    if (x + itemWidth > width && x > 16) {
+      x = 16;
+      row++;
+    }
+    legendItems.push({ ...item, x, row });
+    x += itemWidth;
+  });
+  const legendHeight = legendItems.length > 0 ? (row + 1) * LEGEND_ROW_HEIGHT + 8 : 0;
+  const height = TITLE_HEIGHT + chartHeight + legendHeight;
+
+  const svg = svgElement('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}` });
+  svg.setAttribute('font-family', 'system-ui, sans-serif');
+  svg.appendChild(svgElement('rect', { width, height, fill: options.background ?? '#0f172a' }));
+
+  const title = svgElement('text', { x: 16, y: 22, fill: '#e2e8f0', 'font-size': 14, 'font-weight': 600 });
+  title.textContent = options.title;
+  svg.appendChild(title);
+
+  const chart = source.cloneNode(true) as SVGSVGElement;
+  chart.setAttribute('y', String(TITLE_HEIGHT));
+  chart.setAttribute('width', String(width));
+  chart.setAttribute('height', String(chartHeight));
+  svg.appendChild(chart);
+
+  legendItems.forEach(item => {
+    const y = TITLE_HEIGHT + chartHeight + item.row * LEGEND_ROW_HEIGHT + 14;
+    svg.appendChild(svgElement('line', {
+      x1: item.x, x2: item.x + 20, y1: y - 4, y2: y - 4,
+      stroke: item.color, 'stroke-width': 2, 'stroke-dasharray': item.dash
+    }));
+    const label = svgElement('text', { x: item.x + 26, y, fill: '#cbd5e1', 'font-size': 12 });
+    label.textContent = item.label;
+    svg.appendChild(label);
+  });
+
+  return { svg: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+// 以 2 倍解析度將 SVG 繪製到 canvas 後輸出 PNG
+export function svgToPng({ svg, width, height }: ChartImage, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render chart image'));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,85 @@
+import { cacheDataset, cacheStrategy, DATA_CACHE, SHELL_CACHE_PREFIX, type CacheStrategy, type OfflineRequest, type OfflineResponse } from './data/offline';
+
+// Service Worker 的進入點，建置時輸出為 /sw.js (見 vite.config.ts)，只在正式版註冊
+
+// 建置時填入：App 檔案清單與其內容的雜湊
+declare const __APP_SHELL__: { version: string; files: string[] };
+
+// lib.dom 沒有 Service Worker 的事件型別，只宣告用到的部分
+interface ExtendableEvent extends Event {
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith: (response: Promise<Response>) => void;
+}
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: OfflineRequest;
+  ports: readonly MessagePort[];
+}
+interface ServiceWorkerScope {
+  location: Location;
+  skipWaiting: () => Promise<void>;
+  clients: { claim: () => Promise<void> };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+}
+
+const sw = self as unknown as ServiceWorkerScope;
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${__APP_SHELL__.version}`;
+
+sw.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(__APP_SHELL__.files)).then(() => sw.skipWaiting()));
+});
+
+sw.addEventListener('activate', event => {
+  event.waitUntil(caches.keys()
+    .then(names => Promise.all(names
+      .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE)
+      .map(name => caches.delete(name))))
+    .then(() => sw.clients.claim()));
+});
+
+// 先向網路請求，連線失敗時改用快取的回應
+const networkFirst = async (request: Request, fallback: () => Promise<Response | undefined>, onResponse?: (response: Response) => Promise<void>) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && onResponse) await onResponse(response.clone());
+    return response;
+  } catch (error) {
+    const cached = await fallback();
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const respond = async (request: Request, strategy: CacheStrategy): Promise<Response> => {
+  switch (strategy) {
+    // 頁面經由網路取得，部署的新版本立即生效；index.html 以外的路徑也由伺服器回應
+    case 'shell':
+      return networkFirst(request, () => caches.match('/', { cacheName: SHELL_CACHE }));
+    case 'cache-first':
+      return await caches.match(request) ?? fetch(request);
+    case 'network-first':
+      return networkFirst(
+        request,
+        () => caches.match(request, { cacheName: DATA_CACHE }),
+        async response => (await caches.open(DATA_CACHE)).put(request, response)
+      );
+  }
+};
+
+sw.addEventListener('fetch', event => {
+  const strategy = cacheStrategy(event.request, sw.location.origin);
+  if (strategy) event.respondWith(respond(event.request, strategy));
+});
+
+sw.addEventListener('message', event => {
+  if (event.data.type !== 'cache-dataset') return;
+  const [port] = event.ports;
+  event.waitUntil(cacheDataset(caches)
+    .then((version): OfflineResponse => ({ type: 'cached', version }))
+    .catch((error): OfflineResponse => ({ type: 'error', message: error instanceof Error ? error.message : String(error) }))
+    .then(response => port?.postMessage(response)));
+});
@@ -1,7 +1,43 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'crypto'
+import { build, defineConfig, type Plugin, type ResolvedConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// 離線快取需要與 App 一起快取的 public 檔案
+const PUBLIC_SHELL_FILES = ['/', '/manifest.webmanifest', '/chili_pepper_icon.svg', '/favicon.png']
+
+// Service Worker (src/sw.ts) 另外建置為不依賴其他 chunk 的 /sw.js，並填入這次建置的 App 檔案清單；
+// 清單不變時 sw.js 也不變，瀏覽器不會重新安裝
+const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig
+  let files: string[] = []
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    configResolved: resolved => { config = resolved },
+    generateBundle(_, bundle) {
+      files = [...PUBLIC_SHELL_FILES, ...Object.keys(bundle).filter(f => f !== 'index.html').map(f => `/${f}`)]
+    },
+    async closeBundle() {
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+      await build({
+        configFile: false,
+        root: config.root,
+        logLevel: 'warn',
+        define: { __APP_SHELL__: JSON.stringify({ version, files }) },
+        build: {
+          outDir: config.build.outDir,
+          emptyOutDir: false,
+          copyPublicDir: false,
+          lib: { entry: 'src/sw.ts', formats: ['iife'], name: 'sw', fileName: () => 'sw.js' },
+          // 只用到資料層的常數與快取函式，未使用的模組 (CSV 解析等) 不打包進來
+          rollupOptions: { treeshake: { moduleSideEffects: false } },
+        },
+      })
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })